@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { ANOMALY_STATUSES, type AnomalyStatus } from "@/lib/ml/anomalies"
+import { anomalyReviews } from "@/lib/data/anomaly-reviews"
+
+// Acknowledge or dismiss one anomaly, or reopen it with status "open"
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await req.json()
+    if (!ANOMALY_STATUSES.includes(body.status)) {
+      return NextResponse.json({ error: `status must be one of ${ANOMALY_STATUSES.join(", ")}` }, { status: 400 })
+    }
+    const status = body.status as AnomalyStatus
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    if (status === "open") {
+      await anomalyReviews(db).deleteOne({ userId: session.user.id, anomalyId: id })
+    } else {
+      await anomalyReviews(db).updateOne(
+        { userId: session.user.id, anomalyId: id },
+        { $set: { status, reviewedBy: session.user.email ?? null, updatedAt: new Date() } },
+        { upsert: true }
+      )
+    }
+    await client.close()
+
+    return NextResponse.json({ id, status })
+  } catch (error) {
+    console.error("Review anomaly error:", error)
+    return NextResponse.json({
+      error: "anomalies_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { datasetCollection } from "@/lib/upload/datasets"
+import { AdvancedAnalytics, type BusinessData } from "@/lib/ml/data-processor"
+import { sanitiseForecastCalendar } from "@/lib/ml/calendar"
+import { ANOMALY_THRESHOLD, BASELINE_WEEKS, MAX_FEED_ANOMALIES } from "@/lib/ml/anomalies"
+import { withReviewStatus } from "@/lib/data/anomaly-reviews"
+
+// Unusual sales and price days for the signed-in user, most recent first, without the ones they dismissed
+export async function GET() {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const data = (await db.collection(datasetCollection("sales"))
+      .find({ userId: userId }, {
+        projection: { Date: 1, Product: 1, Units_Sold: 1, Price_per_Unit_BWP: 1, Promotion_Active: 1, Stock_Level: 1 }
+      })
+      .toArray()) as unknown as BusinessData[]
+
+    if (data.length === 0) {
+      await client.close()
+      return NextResponse.json({
+        error: "No data found",
+        message: "Please upload your sales data first"
+      }, { status: 404 })
+    }
+
+    const settings = await db.collection("user_settings").findOne({ userId })
+    const detected = AdvancedAnalytics.detectAnomalies(data, sanitiseForecastCalendar(settings?.forecastCalendar))
+    const anomalies = await withReviewStatus(db, userId, detected)
+    await client.close()
+
+    const shown = anomalies.filter(anomaly => anomaly.status !== "dismissed")
+
+    return NextResponse.json({
+      anomalies: shown.slice(0, MAX_FEED_ANOMALIES),
+      total: shown.length,
+      open: shown.filter(anomaly => anomaly.status === "open").length,
+      dismissed: anomalies.length - shown.length,
+      baselineWeeks: BASELINE_WEEKS,
+      threshold: ANOMALY_THRESHOLD
+    })
+  } catch (error) {
+    console.error("Anomalies error:", error)
+    return NextResponse.json({
+      error: "anomalies_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
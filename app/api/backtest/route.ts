@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { datasetCollection } from "@/lib/upload/datasets"
+import { sanitiseForecastCalendar } from "@/lib/ml/calendar"
+import { buildLeaderboard } from "@/lib/ml/backtesting"
+import { AdvancedAnalytics, type BusinessData } from "@/lib/ml/data-processor"
+
+// The signed-in user's last backtest, with the model behind each of their current forecasts
+export async function GET() {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const stored = await db.collection("forecast_leaderboards").findOne({ userId: userId })
+    const mlResults = await db.collection("ml_results").findOne(
+      { userId: userId },
+      { projection: { "results.predictions.model": 1, "results.productForecasts.product": 1, "results.productForecasts.model": 1, updatedAt: 1 } }
+    )
+    await client.close()
+
+    return NextResponse.json({
+      leaderboard: stored?.leaderboard ?? null,
+      updatedAt: stored?.updatedAt ?? null,
+      forecasts: mlResults
+        ? {
+          total: mlResults.results?.predictions?.model ?? null,
+          products: (mlResults.results?.productForecasts ?? []).map((forecast: { product: string; model?: string }) => ({
+            product: forecast.product,
+            // Results saved before forecasts recorded their model were all polynomial
+            model: forecast.model ?? "polynomial"
+          })),
+          updatedAt: mlResults.updatedAt
+        }
+        : null
+    })
+  } catch (error) {
+    console.error("Backtest error:", error)
+    return NextResponse.json({
+      error: "backtest_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
+
+// Replays the user's sales history through every model and stores the resulting leaderboard
+export async function POST() {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const data = (await db.collection(datasetCollection("sales"))
+      .find({ userId: userId })
+      .toArray()) as unknown as BusinessData[]
+
+    if (data.length === 0) {
+      await client.close()
+      return NextResponse.json({
+        error: "No data found",
+        message: "Please upload your sales data first"
+      }, { status: 404 })
+    }
+
+    const settings = await db.collection("user_settings").findOne({ userId: userId })
+    // Scored on the same de-censored demand the production forecasts are fitted to
+    const leaderboard = buildLeaderboard(
+      AdvancedAnalytics.decensorSales(data),
+      sanitiseForecastCalendar(settings?.forecastCalendar)
+    )
+    const updatedAt = new Date()
+
+    await db.collection("forecast_leaderboards").updateOne(
+      { userId: userId },
+      { $set: { leaderboard, salesRows: data.length, updatedAt } },
+      { upsert: true }
+    )
+    await client.close()
+
+    return NextResponse.json({ leaderboard, updatedAt })
+  } catch (error) {
+    console.error("Run backtest error:", error)
+    return NextResponse.json({
+      error: "backtest_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { ObjectId } from "mongodb"
+import { getDbClient } from "@/lib/mongodb"
+import { parseDatasetType } from "@/lib/upload/datasets"
+import { DataEditError, editRow } from "@/lib/data/edits"
+
+// Edit one row from the data explorer; body is { changes: { <field>: <value> } }
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid row id" }, { status: 400 })
+    }
+
+    const dataType = parseDatasetType(req.nextUrl.searchParams.get("type"))
+    if (!dataType) {
+      return NextResponse.json({ error: "type must be sales, inventory or customers" }, { status: 400 })
+    }
+
+    const body = await req.json()
+    if (!body.changes || typeof body.changes !== "object") {
+      return NextResponse.json({ error: "changes are required" }, { status: 400 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    try {
+      const { row, entry } = await editRow(
+        db,
+        session.user.id,
+        session.user.email ?? null,
+        dataType,
+        new ObjectId(id),
+        body.changes
+      )
+      return NextResponse.json({ row, auditId: entry?._id ?? null })
+    } catch (err) {
+      if (err instanceof DataEditError) {
+        return NextResponse.json({ error: err.message, details: err.details }, { status: 400 })
+      }
+      throw err
+    } finally {
+      await client.close()
+    }
+  } catch (error) {
+    console.error("Edit row error:", error)
+    return NextResponse.json({
+      error: "edit_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { parseDatasetType } from "@/lib/upload/datasets"
+import { auditLog } from "@/lib/data/edits"
+
+// The signed-in user's most recent data corrections, newest first
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const dataType = parseDatasetType(req.nextUrl.searchParams.get("type"))
+    if (!dataType) {
+      return NextResponse.json({ error: "type must be sales, inventory or customers" }, { status: 400 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const entries = await auditLog(db)
+      .find({ userId: session.user.id, dataType }, { projection: { rowIds: 0 } })
+      .sort({ createdAt: -1 })
+      .limit(20)
+      .toArray()
+
+    await client.close()
+
+    return NextResponse.json({ entries })
+  } catch (error) {
+    console.error("Audit log error:", error)
+    return NextResponse.json({
+      error: "audit_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
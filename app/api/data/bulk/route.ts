@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { parseDatasetType } from "@/lib/upload/datasets"
+import { DataEditError, bulkReplace } from "@/lib/data/edits"
+
+// Replace values of a text column across all of the user's rows, e.g. { field: "Store", from: ["Gabs", "Gaborone "], to: "Gaborone" }
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const dataType = parseDatasetType(req.nextUrl.searchParams.get("type"))
+    if (!dataType) {
+      return NextResponse.json({ error: "type must be sales, inventory or customers" }, { status: 400 })
+    }
+
+    const body = await req.json()
+    if (typeof body.field !== "string" || !Array.isArray(body.from) || typeof body.to !== "string") {
+      return NextResponse.json({ error: "field, from and to are required" }, { status: 400 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    try {
+      const { modifiedCount, entry } = await bulkReplace(
+        db,
+        session.user.id,
+        session.user.email ?? null,
+        dataType,
+        body.field,
+        body.from.map(String),
+        body.to
+      )
+      return NextResponse.json({ modifiedCount, auditId: modifiedCount > 0 ? entry._id : null })
+    } catch (err) {
+      if (err instanceof DataEditError) {
+        return NextResponse.json({ error: err.message, details: err.details }, { status: 400 })
+      }
+      throw err
+    } finally {
+      await client.close()
+    }
+  } catch (error) {
+    console.error("Bulk edit error:", error)
+    return NextResponse.json({
+      error: "edit_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
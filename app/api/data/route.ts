@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { parseDatasetType } from "@/lib/upload/datasets"
+import { distinctValues, filterFieldsOf, findRows, parseRowQuery } from "@/lib/data/query"
+import { bulkEditFieldsOf } from "@/lib/data/edits"
+
+// One page of the signed-in user's rows for the data explorer.
+// Filters: ?store=&product=&category=&supplier=&from=yyyy-MM-dd&to=yyyy-MM-dd
+// Paging and sorting: ?page=&pageSize=&sort=<field>&order=asc|desc
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const dataType = parseDatasetType(req.nextUrl.searchParams.get("type"))
+    if (!dataType) {
+      return NextResponse.json({ error: "type must be sales, inventory or customers" }, { status: 400 })
+    }
+
+    const query = parseRowQuery(req.nextUrl.searchParams, dataType)
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const bulkFields = bulkEditFieldsOf(dataType)
+    const optionFields = Array.from(new Set([...filterFieldsOf(dataType), ...bulkFields]))
+    const [{ rows, total }, options] = await Promise.all([
+      findRows(db, userId, dataType, query),
+      distinctValues(db, userId, dataType, optionFields),
+    ])
+
+    await client.close()
+
+    return NextResponse.json({
+      type: dataType,
+      rows,
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      pageCount: Math.max(1, Math.ceil(total / query.pageSize)),
+      sort: query.sort,
+      order: query.order,
+      options,
+      bulkFields,
+    })
+  } catch (error) {
+    console.error("Data explorer error:", error)
+    return NextResponse.json({
+      error: "query_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { datasetCollection } from "@/lib/upload/datasets"
+import { AdvancedAnalytics, type BusinessData } from "@/lib/ml/data-processor"
+import { sanitiseMarketBasketOptions } from "@/lib/ml/market-basket"
+
+// Products the signed-in user's customers buy together, as frequent itemsets and association rules.
+// Thresholds as fractions: ?minSupport=0.05&minConfidence=0.3
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const options = sanitiseMarketBasketOptions({
+      minSupport: req.nextUrl.searchParams.get("minSupport"),
+      minConfidence: req.nextUrl.searchParams.get("minConfidence")
+    })
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    // Only the columns that define a basket
+    const data = (await db.collection(datasetCollection("sales"))
+      .find({ userId: userId }, { projection: { Date: 1, Store: 1, Customer_Demographic: 1, Product: 1 } })
+      .toArray()) as unknown as BusinessData[]
+    await client.close()
+
+    if (data.length === 0) {
+      return NextResponse.json({
+        error: "No data found",
+        message: "Please upload your sales data first"
+      }, { status: 404 })
+    }
+
+    const results = await AdvancedAnalytics.analyzeMarketBasket(data, options)
+
+    return NextResponse.json(results)
+  } catch (error) {
+    console.error("Market basket error:", error)
+    return NextResponse.json({
+      error: "market_basket_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
@@ -2,7 +2,13 @@ import { NextRequest, NextResponse } from "next/server"
 import { MongoClient } from "mongodb"
 import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
 import { cookies } from "next/headers"
-import { AdvancedAnalytics, BusinessData } from "@/lib/ml/data-processor"
+import { AdvancedAnalytics, BusinessData, CustomerRecord, InventorySnapshot } from "@/lib/ml/data-processor"
+import { datasetCollection } from "@/lib/upload/datasets"
+import { sanitiseForecastCalendar } from "@/lib/ml/calendar"
+import { fileModelStore } from "@/lib/ml/model-store"
+import { sanitiseSegmentationSettings } from "@/lib/ml/segmentation"
+import { sanitiseInventorySettings } from "@/lib/ml/inventory-policy"
+import { orderedStock } from "@/lib/data/purchase-orders"
 
 export async function POST(req: NextRequest) {
   try {
@@ -21,7 +27,7 @@ export async function POST(req: NextRequest) {
     const db = client.db("predictiq")
 
     // Get user's data
-    const data = (await db.collection("sales_data")
+    const data = (await db.collection(datasetCollection("sales"))
       .find({ userId: userId })
       .toArray()) as unknown as BusinessData[]
 
@@ -33,8 +39,26 @@ export async function POST(req: NextRequest) {
       }, { status: 404 })
     }
 
+    // Inventory snapshots and customer records are optional and joined with sales when present
+    const inventory = (await db.collection(datasetCollection("inventory"))
+      .find({ userId: userId })
+      .toArray()) as unknown as InventorySnapshot[]
+    const customers = (await db.collection(datasetCollection("customers"))
+      .find({ userId: userId })
+      .toArray()) as unknown as CustomerRecord[]
+    // Stock on purchase orders sent or received through the app
+    const purchaseOrders = await orderedStock(db, userId)
+
+    // Holidays and paydays the forecasts adjust for, how many customer segments to look for and how to stock products
+    const settings = await db.collection("user_settings").findOne({ userId: userId })
+
     // Process data using our analytics pipeline
-    const results = await AdvancedAnalytics.processData(data)
+    const results = await AdvancedAnalytics.processData(data, { inventory, customers, purchaseOrders }, {
+      calendar: sanitiseForecastCalendar(settings?.forecastCalendar),
+      modelStore: fileModelStore(userId),
+      segmentation: sanitiseSegmentationSettings(settings?.customerSegmentation),
+      inventoryPolicy: sanitiseInventorySettings(settings?.inventoryPolicy)
+    })
 
     // Store results
     await db.collection("ml_results").updateOne(
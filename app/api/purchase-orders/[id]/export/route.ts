@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { ObjectId } from "mongodb"
+import { getDbClient } from "@/lib/mongodb"
+import { purchaseOrders } from "@/lib/data/purchase-orders"
+import { purchaseOrderCsv, purchaseOrderPdf } from "@/lib/data/purchase-order-export"
+
+// Download one purchase order as ?format=pdf or ?format=csv
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid purchase order id" }, { status: 400 })
+    }
+
+    const format = req.nextUrl.searchParams.get("format") ?? "pdf"
+    if (format !== "pdf" && format !== "csv") {
+      return NextResponse.json({ error: "format must be pdf or csv" }, { status: 400 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const order = await purchaseOrders(db).findOne({ _id: new ObjectId(id), userId: session.user.id })
+    await client.close()
+
+    if (!order) {
+      return NextResponse.json({ error: "Purchase order not found" }, { status: 404 })
+    }
+
+    const body = format === "csv" ? purchaseOrderCsv(order) : purchaseOrderPdf(order)
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/pdf",
+        "Content-Disposition": `attachment; filename="${order.number}.${format}"`
+      }
+    })
+  } catch (error) {
+    console.error("Export purchase order error:", error)
+    return NextResponse.json({
+      error: "purchase_orders_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
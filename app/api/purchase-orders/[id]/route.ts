@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { ObjectId } from "mongodb"
+import { getDbClient } from "@/lib/mongodb"
+import { invalidateResults } from "@/lib/data/edits"
+import {
+  PurchaseOrderError,
+  approveOrder,
+  deleteDraft,
+  receiveOrder,
+  updateDraft
+} from "@/lib/data/purchase-orders"
+
+// Edit a draft with { lines, notes }, approve and send it with { status: "sent" }, or record its delivery with
+// { status: "received", received: [{ store, product, quantity }] }
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid purchase order id" }, { status: 400 })
+    }
+
+    const body = await req.json()
+    if (body.status !== undefined && body.status !== "sent" && body.status !== "received") {
+      return NextResponse.json({ error: "status must be sent or received" }, { status: 400 })
+    }
+
+    const userId = session.user.id
+    const orderId = new ObjectId(id)
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    try {
+      if (body.status === "sent") {
+        const order = await approveOrder(db, userId, session.user.email ?? null, orderId)
+        // Sent stock counts as on order, so reorder recommendations change
+        await invalidateResults(db, userId)
+        return NextResponse.json({ order })
+      }
+      if (body.status === "received") {
+        const order = await receiveOrder(db, userId, orderId, Array.isArray(body.received) ? body.received : [])
+        await invalidateResults(db, userId)
+        return NextResponse.json({ order })
+      }
+
+      const order = await updateDraft(db, userId, orderId, {
+        lines: Array.isArray(body.lines) ? body.lines : [],
+        notes: body.notes
+      })
+      return NextResponse.json({ order })
+    } catch (err) {
+      if (err instanceof PurchaseOrderError) {
+        return NextResponse.json({ error: err.message }, { status: err.status })
+      }
+      throw err
+    } finally {
+      await client.close()
+    }
+  } catch (error) {
+    console.error("Update purchase order error:", error)
+    return NextResponse.json({
+      error: "purchase_orders_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
+
+// Discard a draft
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid purchase order id" }, { status: 400 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    try {
+      await deleteDraft(db, session.user.id, new ObjectId(id))
+      return NextResponse.json({ id, deleted: true })
+    } catch (err) {
+      if (err instanceof PurchaseOrderError) {
+        return NextResponse.json({ error: err.message }, { status: err.status })
+      }
+      throw err
+    } finally {
+      await client.close()
+    }
+  } catch (error) {
+    console.error("Delete purchase order error:", error)
+    return NextResponse.json({
+      error: "purchase_orders_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
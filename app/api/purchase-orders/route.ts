@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { PurchaseOrderError, draftPurchaseOrders, purchaseOrders, type ReorderItem } from "@/lib/data/purchase-orders"
+
+// The signed-in user's purchase orders, newest first
+export async function GET() {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const orders = await purchaseOrders(db)
+      .find({ userId: session.user.id })
+      .sort({ createdAt: -1 })
+      .toArray()
+    await client.close()
+
+    return NextResponse.json({ orders })
+  } catch (error) {
+    console.error("Purchase orders error:", error)
+    return NextResponse.json({
+      error: "purchase_orders_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
+
+// Drafts one purchase order per supplier from the items the latest analysis found below their reorder point
+export async function POST() {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    try {
+      const cached = await db.collection("ml_results").findOne({ userId })
+      if (!cached?.results?.needsReorder) {
+        return NextResponse.json({
+          error: "No analysis found",
+          message: "Open Insights to analyse your stock before drafting purchase orders"
+        }, { status: 404 })
+      }
+
+      const orders = await draftPurchaseOrders(
+        db,
+        userId,
+        session.user.email ?? null,
+        cached.results.needsReorder as ReorderItem[]
+      )
+      return NextResponse.json({ orders, drafted: orders.length })
+    } catch (err) {
+      if (err instanceof PurchaseOrderError) {
+        return NextResponse.json({ error: err.message }, { status: err.status })
+      }
+      throw err
+    } finally {
+      await client.close()
+    }
+  } catch (error) {
+    console.error("Draft purchase orders error:", error)
+    return NextResponse.json({
+      error: "purchase_orders_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { botswanaPublicHolidays, sanitiseForecastCalendar } from "@/lib/ml/calendar"
+import { invalidateResults } from "@/lib/data/edits"
+
+// The holidays and paydays the signed-in user's forecasts adjust for, with this year's public holidays for reference
+export async function GET() {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const settings = await db.collection("user_settings").findOne({ userId: session.user.id })
+    await client.close()
+
+    return NextResponse.json({
+      calendar: sanitiseForecastCalendar(settings?.forecastCalendar),
+      publicHolidays: botswanaPublicHolidays(new Date().getFullYear())
+    })
+  } catch (error) {
+    console.error("Forecast calendar error:", error)
+    return NextResponse.json({
+      error: "settings_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const body = await req.json()
+    const calendar = sanitiseForecastCalendar(body.calendar)
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    await db.collection("user_settings").updateOne(
+      { userId: userId },
+      { $set: { forecastCalendar: calendar, updatedAt: new Date() } },
+      { upsert: true }
+    )
+    // Forecasts made with the old calendar no longer apply
+    await invalidateResults(db, userId)
+    await client.close()
+
+    return NextResponse.json({ calendar })
+  } catch (error) {
+    console.error("Save forecast calendar error:", error)
+    return NextResponse.json({
+      error: "settings_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
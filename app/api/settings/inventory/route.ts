@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { datasetCollection } from "@/lib/upload/datasets"
+import { sanitiseInventorySettings } from "@/lib/ml/inventory-policy"
+import { invalidateResults } from "@/lib/data/edits"
+
+// The costs and service targets the signed-in user's products are stocked to, with the categories and
+// products that can be given their own
+export async function GET() {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const settings = await db.collection("user_settings").findOne({ userId: userId })
+    const sales = db.collection(datasetCollection("sales"))
+    const [categories, products] = await Promise.all([
+      sales.distinct("Category", { userId: userId }),
+      sales.distinct("Product", { userId: userId })
+    ])
+    await client.close()
+
+    return NextResponse.json({
+      inventoryPolicy: sanitiseInventorySettings(settings?.inventoryPolicy),
+      categories: categories.map(String).sort(),
+      products: products.map(String).sort()
+    })
+  } catch (error) {
+    console.error("Inventory settings error:", error)
+    return NextResponse.json({
+      error: "settings_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const body = await req.json()
+    const inventoryPolicy = sanitiseInventorySettings(body.inventoryPolicy)
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    await db.collection("user_settings").updateOne(
+      { userId: userId },
+      { $set: { inventoryPolicy, updatedAt: new Date() } },
+      { upsert: true }
+    )
+    // Reorder points and order quantities were worked out with the old costs
+    await invalidateResults(db, userId)
+    await client.close()
+
+    return NextResponse.json({ inventoryPolicy })
+  } catch (error) {
+    console.error("Save inventory settings error:", error)
+    return NextResponse.json({
+      error: "settings_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { MAX_SEGMENTS, MIN_SEGMENTS, sanitiseSegmentationSettings } from "@/lib/ml/segmentation"
+import { invalidateResults } from "@/lib/data/edits"
+
+// How many customer segments the signed-in user's analysis looks for
+export async function GET() {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const settings = await db.collection("user_settings").findOne({ userId: session.user.id })
+    await client.close()
+
+    return NextResponse.json({
+      segmentation: sanitiseSegmentationSettings(settings?.customerSegmentation),
+      limits: { min: MIN_SEGMENTS, max: MAX_SEGMENTS }
+    })
+  } catch (error) {
+    console.error("Segmentation settings error:", error)
+    return NextResponse.json({
+      error: "settings_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const body = await req.json()
+    const segmentation = sanitiseSegmentationSettings(body.segmentation)
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    await db.collection("user_settings").updateOne(
+      { userId: userId },
+      { $set: { customerSegmentation: segmentation, updatedAt: new Date() } },
+      { upsert: true }
+    )
+    // Segments found with the old setting no longer apply
+    await invalidateResults(db, userId)
+    await client.close()
+
+    return NextResponse.json({ segmentation })
+  } catch (error) {
+    console.error("Save segmentation settings error:", error)
+    return NextResponse.json({
+      error: "settings_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
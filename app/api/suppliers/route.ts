@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { datasetCollection } from "@/lib/upload/datasets"
+import { AdvancedAnalytics, type BusinessData, type InventorySnapshot } from "@/lib/ml/data-processor"
+
+// Supplier scorecards for the signed-in user, best first, with the products only one supplier delivers
+export async function GET() {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const data = (await db.collection(datasetCollection("sales"))
+      .find({ userId: userId }, {
+        projection: { Date: 1, Store: 1, Product: 1, Category: 1, Revenue_BWP: 1, Stock_Level: 1, Supplier: 1, Lead_Time_Days: 1 }
+      })
+      .toArray()) as unknown as BusinessData[]
+
+    if (data.length === 0) {
+      await client.close()
+      return NextResponse.json({
+        error: "No data found",
+        message: "Please upload your sales data first"
+      }, { status: 404 })
+    }
+
+    const inventory = (await db.collection(datasetCollection("inventory"))
+      .find({ userId: userId }, { projection: { Product: 1, Supplier: 1, Lead_Time_Days: 1 } })
+      .toArray()) as unknown as InventorySnapshot[]
+    await client.close()
+
+    return NextResponse.json(AdvancedAnalytics.analyzeSuppliers(data, inventory))
+  } catch (error) {
+    console.error("Suppliers error:", error)
+    return NextResponse.json({
+      error: "suppliers_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
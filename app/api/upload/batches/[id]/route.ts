@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { Filter, ObjectId } from "mongodb"
+import { getDbClient } from "@/lib/mongodb"
+import { rollbackBatch, uploadBatches, type UploadBatch } from "@/lib/upload/batches"
+import { isImportMode, sanitiseNaturalKey } from "@/lib/upload/duplicates"
+import { DATASETS } from "@/lib/upload/datasets"
+
+// Progress of a single upload, polled by UploadDataPage while the file streams in
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid batch id" }, { status: 400 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const batch = await uploadBatches(db).findOne({ _id: new ObjectId(id), userId: session.user.id })
+    await client.close()
+
+    if (!batch) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ batch })
+  } catch (error) {
+    console.error("Upload batch error:", error)
+    return NextResponse.json({
+      error: "batch_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
+
+// Change how a batch treats existing rows; only allowed before any of its rows are imported
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid batch id" }, { status: 400 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+    const filter: Filter<UploadBatch> = {
+      _id: new ObjectId(id),
+      userId: session.user.id,
+      status: { $in: ["pending", "failed"] },
+      processedRows: 0
+    }
+
+    const existing = await uploadBatches(db).findOne(filter)
+    if (!existing) {
+      await client.close()
+      return NextResponse.json({ error: "Upload not found or already started" }, { status: 409 })
+    }
+
+    const { fields, dateField, label } = DATASETS[existing.dataType]
+    const body = await req.json()
+    const update: Record<string, unknown> = {}
+    if (body.mode !== undefined) {
+      if (!isImportMode(body.mode) || (body.mode === "replace_range" && !dateField)) {
+        await client.close()
+        return NextResponse.json({ error: `${label} cannot be imported in mode ${body.mode}` }, { status: 400 })
+      }
+      update.mode = body.mode
+    }
+
+    const naturalKey = body.naturalKey !== undefined ? sanitiseNaturalKey(body.naturalKey, fields) : null
+    if (body.naturalKey !== undefined) {
+      if (!naturalKey) {
+        await client.close()
+        return NextResponse.json({ error: "naturalKey must list at least one field" }, { status: 400 })
+      }
+      update.naturalKey = naturalKey
+    }
+
+    const batch = await uploadBatches(db).findOneAndUpdate(
+      filter,
+      { $set: { ...update, updatedAt: new Date() } },
+      { returnDocument: "after" }
+    )
+
+    if (batch && naturalKey) {
+      await db.collection("user_settings").updateOne(
+        { userId: session.user.id },
+        { $set: { [`naturalKeys.${batch.dataType}`]: naturalKey, updatedAt: new Date() } },
+        { upsert: true }
+      )
+    }
+
+    await client.close()
+
+    if (!batch) {
+      return NextResponse.json({ error: "Upload not found or already started" }, { status: 409 })
+    }
+
+    return NextResponse.json({ batch })
+  } catch (error) {
+    console.error("Update upload batch error:", error)
+    return NextResponse.json({
+      error: "batch_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
+
+// Roll back one upload: delete the rows it inserted for this user and mark it rolled back
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid batch id" }, { status: 400 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const batch = await uploadBatches(db).findOne({ _id: new ObjectId(id), userId: session.user.id })
+    if (!batch) {
+      await client.close()
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 })
+    }
+
+    if (batch.status === "processing") {
+      await client.close()
+      return NextResponse.json({ error: "Upload is still being imported" }, { status: 409 })
+    }
+
+    const { deletedCount, restoredCount } = await rollbackBatch(db, batch)
+    await client.close()
+
+    return NextResponse.json({ batchId: id, deletedCount, restoredCount })
+  } catch (error) {
+    console.error("Rollback upload error:", error)
+    return NextResponse.json({
+      error: "batch_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
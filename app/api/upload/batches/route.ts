@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { ObjectId } from "mongodb"
+import { getDbClient } from "@/lib/mongodb"
+import { uploadBatches, type UploadBatch } from "@/lib/upload/batches"
+import { isImportMode, sanitiseNaturalKey } from "@/lib/upload/duplicates"
+import { DATASETS, parseDatasetType } from "@/lib/upload/datasets"
+import {
+  ColumnMapping,
+  headerSignature,
+  sanitiseMapping,
+  suggestColumnMapping,
+} from "@/lib/upload/column-mapping"
+
+// Register an upload before its file is streamed to POST /api/upload
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const body = await req.json()
+    const headers: string[] = Array.isArray(body.headers) ? body.headers.map(String) : []
+
+    if (typeof body.fileName !== "string" || !body.fileName || headers.length === 0) {
+      return NextResponse.json({ error: "fileName and headers are required" }, { status: 400 })
+    }
+
+    const dataType = parseDatasetType(req.nextUrl.searchParams.get("type"))
+    if (!dataType) {
+      return NextResponse.json({ error: "type must be sales, inventory or customers" }, { status: 400 })
+    }
+
+    const { fields, dateField } = DATASETS[dataType]
+    const mode = isImportMode(body.mode) ? body.mode : "append"
+    if (mode === "replace_range" && !dateField) {
+      return NextResponse.json({ error: `${DATASETS[dataType].label} have no date range to replace` }, { status: 400 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+    const mappings = db.collection("column_mappings")
+    const signature = headerSignature(headers)
+
+    // Use the mapping from the wizard, else the one saved for this file layout
+    let mapping: ColumnMapping
+    if (body.mapping && typeof body.mapping === "object") {
+      mapping = sanitiseMapping(body.mapping, headers, fields)
+      await mappings.updateOne(
+        { userId: userId, dataType, signature },
+        { $set: { headers, mapping, updatedAt: new Date() } },
+        { upsert: true }
+      )
+    } else {
+      const saved = await mappings.findOne({ userId: userId, dataType, signature })
+      mapping = saved
+        ? sanitiseMapping(saved.mapping, headers, fields)
+        : suggestColumnMapping(headers, fields).mapping
+    }
+
+    // The natural key is a per-user, per-dataset preference rather than part of the file layout
+    const settings = db.collection("user_settings")
+    let naturalKey = sanitiseNaturalKey(body.naturalKey, fields)
+    if (naturalKey) {
+      await settings.updateOne(
+        { userId: userId },
+        { $set: { [`naturalKeys.${dataType}`]: naturalKey, updatedAt: new Date() } },
+        { upsert: true }
+      )
+    } else {
+      const saved = await settings.findOne({ userId: userId })
+      naturalKey = sanitiseNaturalKey(saved?.naturalKeys?.[dataType], fields) ?? DATASETS[dataType].naturalKey
+    }
+
+    const now = new Date()
+    const batch: UploadBatch = {
+      _id: new ObjectId(),
+      userId,
+      uploadedBy: session.user.email ?? null,
+      fileName: body.fileName,
+      fileSize: Number(body.fileSize) || 0,
+      dataType,
+      sheet: typeof body.sheet === "string" ? body.sheet : null,
+      mapping,
+      mode,
+      naturalKey,
+      status: "pending",
+      checksum: null,
+      bytesRead: 0,
+      totalRows: null,
+      processedRows: 0,
+      insertedCount: 0,
+      rejectedCount: 0,
+      rejected: [],
+      newCount: 0,
+      changedCount: 0,
+      identicalCount: 0,
+      replacedCount: 0,
+      nullCounts: {},
+      profile: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+      rolledBackAt: null,
+    }
+
+    await uploadBatches(db).insertOne(batch)
+    await client.close()
+
+    return NextResponse.json({ batchId: batch._id.toString(), mapping, mode: batch.mode, naturalKey })
+  } catch (error) {
+    console.error("Create upload batch error:", error)
+    return NextResponse.json({
+      error: "batch_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
+
+// The signed-in user's upload history, or ?status=incomplete for uploads that can be resumed
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const status = req.nextUrl.searchParams.get("status")
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const batches = await uploadBatches(db)
+      .find(
+        status === "incomplete"
+          ? { userId: userId, status: { $ne: "completed" } }
+          : { userId: userId },
+        { projection: { rejected: 0, mapping: 0 } }
+      )
+      .sort({ createdAt: -1 })
+      .limit(20)
+      .toArray()
+
+    await client.close()
+
+    return NextResponse.json({ batches })
+  } catch (error) {
+    console.error("List upload batches error:", error)
+    return NextResponse.json({
+      error: "batch_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
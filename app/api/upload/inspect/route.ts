@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
+import { cookies } from "next/headers"
+import { getDbClient } from "@/lib/mongodb"
+import { previewUploadedFile } from "@/lib/upload/parse-file"
+import { DATASETS, parseDatasetType } from "@/lib/upload/datasets"
+import {
+  headerSignature,
+  isCompleteMapping,
+  sanitiseMapping,
+  suggestColumnMapping,
+} from "@/lib/upload/column-mapping"
+
+// Detect the columns of a file before upload and suggest how they map to the fields of its dataset
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+
+    const formData = await req.formData()
+    const file = formData.get("file") as File
+
+    if (!file) {
+      return NextResponse.json({ error: "No file uploaded" }, { status: 400 })
+    }
+
+    const dataType = parseDatasetType(formData.get("type") as string | null)
+    if (!dataType) {
+      return NextResponse.json({ error: "type must be sales, inventory or customers" }, { status: 400 })
+    }
+    const { fields } = DATASETS[dataType]
+
+    const parsed = await previewUploadedFile(file, formData.get("sheet") as string | null)
+
+    if (parsed.status === "sheet_selection_required") {
+      return NextResponse.json({
+        requiresSheetSelection: true,
+        sheets: parsed.sheets,
+      })
+    }
+
+    if (parsed.status === "error") {
+      return NextResponse.json({ error: parsed.error, details: parsed.details }, { status: 400 })
+    }
+
+    const client = await getDbClient()
+    const db = client.db("predictiq")
+
+    const saved = await db.collection("column_mappings")
+      .findOne({ userId: userId, dataType, signature: headerSignature(parsed.headers) })
+
+    await client.close()
+
+    const suggestion = suggestColumnMapping(parsed.headers, fields)
+    const mapping = saved ? sanitiseMapping(saved.mapping, parsed.headers, fields) : suggestion.mapping
+
+    // "exact" means the file already uses the dataset's column names
+    const source = saved
+      ? "saved"
+      : fields.every(field => suggestion.mapping[field] === field) ? "exact" : "suggested"
+
+    return NextResponse.json({
+      headers: parsed.headers,
+      sheet: parsed.sheet,
+      mapping,
+      suggestedMapping: suggestion.mapping,
+      scores: suggestion.scores,
+      source,
+      complete: isCompleteMapping(mapping, fields),
+      sample: parsed.rows.slice(0, 3),
+    })
+  } catch (error) {
+    console.error("Inspect upload error:", error)
+    return NextResponse.json({
+      error: "inspect_error",
+      message: (error as Error).message
+    }, { status: 500 })
+  }
+}
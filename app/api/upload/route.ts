@@ -1,18 +1,19 @@
 import { NextRequest, NextResponse } from "next/server"
-import { MongoClient, Document } from "mongodb"
-import Papa from "papaparse"
-import fs from "fs"
-import path from "path"
-import os from "os"
 import { createServerComponentClient } from "@supabase/auth-helpers-nextjs"
 import { cookies } from "next/headers"
-
-const getDbClient = async () => {
-  const uri = process.env.MONGODB_URI as string
-  if (!uri) throw new Error("MONGODB_URI not set")
-  return await MongoClient.connect(uri)
-}
-
+import { ObjectId } from "mongodb"
+import { Readable } from "stream"
+import { createHash } from "crypto"
+import type { ReadableStream as NodeReadableStream } from "stream/web"
+import { getDbClient } from "@/lib/mongodb"
+import { streamCsvRows } from "@/lib/upload/parse-file"
+import { isSpreadsheetFile, readWorkbook, sheetToRows } from "@/lib/upload/spreadsheet"
+import { claimBatch, importRows, uploadBatches, uploadRowVersions } from "@/lib/upload/batches"
+import { datasetCollection, parseDatasetType } from "@/lib/upload/datasets"
+
+// Streams the file body for a batch registered via POST /api/upload/batches.
+// Re-posting the same file for a failed batch resumes after the last stored row.
+// With ?dryRun=1 the file is only compared with stored data to preview new, changed and identical rows.
 export async function POST(req: NextRequest) {
   try {
     // Get user session
@@ -27,86 +28,111 @@ export async function POST(req: NextRequest) {
 
     // Log the incoming request details for debugging
     console.log("Upload request received for URL:", req.nextUrl.toString());
-    
-    const formData = await req.formData()
-    const file = formData.get("file") as File
-    const dataType = req.nextUrl.searchParams.get("type") || "sales"
-    
-    console.log("Processing upload for data type:", dataType);
-    
-    const collectionName = `${dataType}_data`
-    
-    if (!file) {
+
+    const batchId = req.nextUrl.searchParams.get("batchId")
+    if (!batchId || !ObjectId.isValid(batchId)) {
+      return NextResponse.json({ error: "A valid batchId is required" }, { status: 400 })
+    }
+
+    if (!req.body) {
       console.error("No file found in request");
       return NextResponse.json({ error: "No file uploaded" }, { status: 400 })
     }
-    
-    console.log("File received:", file.name, "Size:", file.size);
 
-    const buffer = Buffer.from(await file.arrayBuffer())
-    const filePath = path.join(os.tmpdir(), file.name)
-    fs.writeFileSync(filePath, buffer)
-
-    const fileContent = fs.readFileSync(filePath, "utf8")
-    
-    // Handle different file types
-    let parsedData;
-    if (file.name.toLowerCase().endsWith('.csv')) {
-      console.log("Parsing CSV file");
-      const parsed = Papa.parse(fileContent, { 
-        header: true, 
-        skipEmptyLines: true, 
-        dynamicTyping: true 
-      })
-      
-      if (parsed.errors.length > 0) {
-        console.error("CSV parsing errors:", parsed.errors);
-        return NextResponse.json({ error: "Error parsing CSV", details: parsed.errors }, { status: 400 })
-      }
-      
-      parsedData = parsed.data;
-    } else if (file.name.toLowerCase().endsWith('.xlsx') || file.name.toLowerCase().endsWith('.xls')) {
-      // If you need to handle Excel files, you would add that logic here
-      console.error("Excel file format not supported directly");
-      return NextResponse.json({ error: "Excel files are not currently supported. Please convert to CSV." }, { status: 400 })
-    } else {
-      console.error("Unsupported file format");
-      return NextResponse.json({ error: "Unsupported file format. Please upload CSV files." }, { status: 400 })
-    }
-    
-    // Ensure we have valid data to insert
-    if (!Array.isArray(parsedData) || parsedData.length === 0) {
-      console.error("No valid data to insert");
-      return NextResponse.json({ error: "No valid data found in file" }, { status: 400 })
-    }
-    
-    console.log(`Inserting ${parsedData.length} records into ${collectionName}`);
+    const dryRun = req.nextUrl.searchParams.get("dryRun") === "1"
 
     const client = await getDbClient()
     const db = client.db("predictiq")
-    const collection = db.collection(collectionName)
 
-    // Modify MongoDB insert to include user ID
-    const result = await collection.insertMany(
-      parsedData.map((item) => ({
-        ...(item as Document),
-        userId: userId,
-        createdAt: new Date()
-      }))
-    )
+    const batch = dryRun
+      ? await uploadBatches(db).findOne({ _id: new ObjectId(batchId), userId, status: { $in: ["pending", "failed"] } })
+      : await claimBatch(db, new ObjectId(batchId), userId)
+    if (!batch) {
+      await client.close()
+      return NextResponse.json({ error: "Upload not found or already being processed" }, { status: 409 })
+    }
 
-    console.log(`Inserted ${result.insertedCount} documents`);
+    const collectionName = datasetCollection(batch.dataType)
+    console.log(`Importing ${batch.fileName} into ${collectionName} from row ${batch.processedRows + 1}`);
+
+    let bytesRead = 0
+    const hash = createHash("sha256")
+    try {
+      let rows: AsyncIterable<Record<string, unknown>> | Iterable<Record<string, unknown>>
+      if (isSpreadsheetFile(batch.fileName)) {
+        // Workbooks cannot be read incrementally, but rows are still inserted in batches
+        const buffer = Buffer.from(await req.arrayBuffer())
+        bytesRead = buffer.length
+        hash.update(buffer)
+        const workbook = readWorkbook(buffer)
+        const sheetRows = sheetToRows(workbook, batch.sheet || workbook.SheetNames[0])
+        if (!dryRun) {
+          await uploadBatches(db).updateOne({ _id: batch._id }, { $set: { totalRows: sheetRows.length } })
+        }
+        rows = sheetRows
+      } else {
+        rows = streamCsvRows(
+          Readable.fromWeb(req.body as NodeReadableStream<Uint8Array>),
+          chunk => {
+            bytesRead += chunk.length
+            hash.update(chunk)
+          }
+        )
+      }
 
-    // Clean up the temp file
-    fs.unlinkSync(filePath)
-    await client.close()
+      const options = { getBytesRead: () => bytesRead, getChecksum: () => hash.digest("hex") }
+
+      if (dryRun) {
+        const { preview } = await importRows(db, batch, rows, { ...options, dryRun })
+        await client.close()
+        return NextResponse.json({ batchId, mode: batch.mode, naturalKey: batch.naturalKey, preview })
+      }
+
+      const { batch: completed, preview } = await importRows(db, batch, rows, options)
+      await client.close()
+
+      const validCount = completed ? completed.newCount + completed.changedCount + completed.identicalCount : 0
+      if (!completed || validCount === 0) {
+        console.error("No rows passed validation");
+        return NextResponse.json({
+          error: completed?.totalRows ? "No rows passed validation" : "No valid data found in file",
+          batchId,
+          rejectedCount: completed?.rejectedCount ?? 0,
+          rejected: completed?.rejected ?? [],
+        }, { status: 400 })
+      }
 
-    return NextResponse.json({
-      message: `Uploaded to ${collectionName}`,
-      type: dataType,
-      insertedCount: result.insertedCount,
-      preview: parsedData.slice(0, 5),
-    })
+      console.log(`Inserted ${completed.insertedCount} documents in ${batch.mode} mode (${completed.rejectedCount} rejected)`);
+
+      return NextResponse.json({
+        message: `Uploaded to ${collectionName}`,
+        type: batch.dataType,
+        batchId,
+        insertedCount: completed.insertedCount,
+        rejectedCount: completed.rejectedCount,
+        rejected: completed.rejected,
+        mapping: batch.mapping,
+        mode: batch.mode,
+        newCount: completed.newCount,
+        changedCount: completed.changedCount,
+        identicalCount: completed.identicalCount,
+        replacedCount: completed.replacedCount,
+        profile: completed.profile,
+        preview,
+      })
+    } catch (err) {
+      // Leave the batch resumable from its last committed row
+      if (dryRun) {
+        await client.close()
+        throw err
+      }
+      await uploadBatches(db).updateOne(
+        { _id: batch._id },
+        { $set: { status: "failed", error: (err as Error).message, updatedAt: new Date() } }
+      )
+      await client.close()
+      throw err
+    }
   } catch (err: any) {
     console.error("Upload error:", err)
     return NextResponse.json({ error: err.message }, { status: 500 })
@@ -124,8 +150,11 @@ export async function GET(req: NextRequest) {
     }
 
     const userId = session.user.id
-    const dataType = req.nextUrl.searchParams.get("type") || "sales"
-    const collectionName = `${dataType}_data`
+    const dataType = parseDatasetType(req.nextUrl.searchParams.get("type"))
+    if (!dataType) {
+      return NextResponse.json({ error: "type must be sales, inventory or customers" }, { status: 400 })
+    }
+    const collectionName = datasetCollection(dataType)
 
     const client = await getDbClient()
     const db = client.db("predictiq")
@@ -146,16 +175,36 @@ export async function GET(req: NextRequest) {
   }
 }
 
+// Deletes all of the signed-in user's data of one type; use DELETE /api/upload/batches/[id] for one upload
 export async function DELETE(req: NextRequest) {
   try {
-    const dataType = req.nextUrl.searchParams.get("type") || "sales"
-    const collectionName = `${dataType}_data`
+    const supabase = createServerComponentClient({ cookies })
+    const { data: { session } } = await supabase.auth.getSession()
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const dataType = parseDatasetType(req.nextUrl.searchParams.get("type"))
+    if (!dataType) {
+      return NextResponse.json({ error: "type must be sales, inventory or customers" }, { status: 400 })
+    }
+    const collectionName = datasetCollection(dataType)
 
     const client = await getDbClient()
     const db = client.db("predictiq")
     const collection = db.collection(collectionName)
 
-    const result = await collection.deleteMany({})
+    const result = await collection.deleteMany({ userId: userId })
+
+    // Keep the upload history consistent with the data that is left
+    await uploadBatches(db).updateMany(
+      { userId: userId, dataType, status: { $ne: "rolled_back" } },
+      { $set: { status: "rolled_back", rolledBackAt: new Date(), updatedAt: new Date() } }
+    )
+    await uploadRowVersions(db).deleteMany({ userId: userId, dataType })
+
     await client.close()
 
     return NextResponse.json({ deletedCount: result.deletedCount })
@@ -0,0 +1,10 @@
+import { ModelAccuracyPage } from "@/components/model-accuracy-page"
+import { DashboardLayout } from "@/components/dashboard-layout"
+
+export default function ModelAccuracy() {
+  return (
+    <DashboardLayout>
+      <ModelAccuracyPage />
+    </DashboardLayout>
+  )
+}
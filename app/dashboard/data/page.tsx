@@ -0,0 +1,10 @@
+import { DataExplorerPage } from "@/components/data-explorer-page"
+import { DashboardLayout } from "@/components/dashboard-layout"
+
+export default function DataExplorer() {
+  return (
+    <DashboardLayout>
+      <DataExplorerPage />
+    </DashboardLayout>
+  )
+}
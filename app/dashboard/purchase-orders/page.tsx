@@ -0,0 +1,10 @@
+import { PurchaseOrdersPage } from "@/components/purchase-orders-page"
+import { DashboardLayout } from "@/components/dashboard-layout"
+
+export default function PurchaseOrders() {
+  return (
+    <DashboardLayout>
+      <PurchaseOrdersPage />
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,10 @@
+import { SuppliersPage } from "@/components/suppliers-page"
+import { DashboardLayout } from "@/components/dashboard-layout"
+
+export default function Suppliers() {
+  return (
+    <DashboardLayout>
+      <SuppliersPage />
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import axios from "axios"
+import { Activity, Check, RotateCcw, X } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  ANOMALY_METRIC_LABELS,
+  type Anomaly,
+  type AnomalySeverity,
+  type AnomalyStatus
+} from "@/lib/ml/anomalies"
+
+type FeedAnomaly = Anomaly & { status: AnomalyStatus }
+
+interface AnomalyFeedResponse {
+  anomalies: FeedAnomaly[]
+  total: number
+  open: number
+  dismissed: number
+  baselineWeeks: number
+}
+
+const SEVERITY_VARIANTS: Record<AnomalySeverity, "destructive" | "default" | "secondary"> = {
+  high: "destructive",
+  medium: "default",
+  low: "secondary"
+}
+
+const formatValue = (anomaly: Anomaly, value: number) =>
+  anomaly.metric === "price" ? `P${value.toFixed(2)}` : `${value.toLocaleString()} units`
+
+export function AnomalyFeed() {
+  const [feed, setFeed] = useState<AnomalyFeedResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [updating, setUpdating] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchAnomalies()
+  }, [])
+
+  const fetchAnomalies = async () => {
+    setLoading(true)
+    try {
+      const res = await axios.get('/api/anomalies')
+      setFeed(res.data)
+    } catch (err) {
+      const details = axios.isAxiosError(err) ? err.response?.data : undefined
+      console.error("Failed to fetch anomalies", err)
+      setError(details?.message ?? "Failed to load anomalies.")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const review = async (anomaly: FeedAnomaly, status: AnomalyStatus) => {
+    setUpdating(anomaly.id)
+    setError(null)
+    try {
+      await axios.patch(`/api/anomalies/${anomaly.id}`, { status })
+      await fetchAnomalies()
+    } catch (err) {
+      console.error("Failed to update anomaly", err)
+      setError("Failed to update the anomaly.")
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Anomalies
+          {feed && feed.open > 0 && <Badge variant="destructive">{feed.open} open</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Days when a product&apos;s sales or price broke from the usual for that weekday
+          {feed && ` over the previous ${feed.baselineWeeks} weeks`}.
+          {feed && feed.dismissed > 0 && ` ${feed.dismissed} dismissed.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+        {loading && !feed ? (
+          <p className="text-sm text-muted-foreground">Looking for anomalies...</p>
+        ) : !feed || feed.anomalies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing unusual found in your sales history.</p>
+        ) : (
+          <div className="max-h-[420px] space-y-3 overflow-y-auto pr-1">
+            {feed.anomalies.map((anomaly) => (
+              <div
+                key={anomaly.id}
+                className={`rounded-lg border p-3 ${anomaly.status === "acknowledged" ? "opacity-60" : ""}`}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={SEVERITY_VARIANTS[anomaly.severity]} className="capitalize">{anomaly.severity}</Badge>
+                    <span className="font-medium">{anomaly.product}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {ANOMALY_METRIC_LABELS[anomaly.metric]} {anomaly.direction === "high" ? "spike" : "drop"} · {anomaly.date}
+                    </span>
+                  </div>
+                  <div className="flex gap-1">
+                    {anomaly.status === "open" ? (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={updating === anomaly.id}
+                          onClick={() => review(anomaly, "acknowledged")}
+                        >
+                          <Check className="mr-1 h-3 w-3" />
+                          Acknowledge
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={updating === anomaly.id}
+                          onClick={() => review(anomaly, "dismissed")}
+                        >
+                          <X className="mr-1 h-3 w-3" />
+                          Dismiss
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={updating === anomaly.id}
+                        onClick={() => review(anomaly, "open")}
+                      >
+                        <RotateCcw className="mr-1 h-3 w-3" />
+                        Reopen
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <p className="mt-2 text-sm">{anomaly.explanation}</p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Actual {formatValue(anomaly, anomaly.value)} · expected {formatValue(anomaly, anomaly.expected)} ·
+                  normal range {formatValue(anomaly, anomaly.lower)} to {formatValue(anomaly, anomaly.upper)}
+                </p>
+              </div>
+            ))}
+            {feed.total > feed.anomalies.length && (
+              <p className="text-xs text-muted-foreground">
+                Showing the {feed.anomalies.length} most recent of {feed.total}.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
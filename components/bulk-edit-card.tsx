@@ -0,0 +1,133 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import axios from "axios"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { DatasetType } from "@/lib/upload/datasets"
+import type { DatasetField } from "@/lib/upload/column-mapping"
+
+interface BulkEditCardProps {
+  dataType: DatasetType
+  // Columns that can be renamed in bulk, and their current distinct values
+  fields: DatasetField[]
+  options: Partial<Record<DatasetField, string[]>>
+  onApplied: () => void
+}
+
+export function BulkEditCard({ dataType, fields, options, onApplied }: BulkEditCardProps) {
+  const [field, setField] = useState<DatasetField | null>(fields[0] ?? null)
+  const [selected, setSelected] = useState<string[]>([])
+  const [replacement, setReplacement] = useState("")
+  const [applying, setApplying] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setField(current => current && fields.includes(current) ? current : fields[0] ?? null)
+  }, [fields])
+
+  useEffect(() => {
+    setSelected([])
+    setReplacement("")
+  }, [dataType, field])
+
+  const values = field ? options[field] ?? [] : []
+
+  const toggleValue = (value: string, checked: boolean) => {
+    setSelected(current => checked ? [...current, value] : current.filter(v => v !== value))
+    // Merging spellings usually keeps one of them, so offer the first ticked value as the new name
+    if (checked && !replacement) setReplacement(value)
+  }
+
+  const handleApply = async () => {
+    if (!field) return
+    setApplying(true)
+    setMessage(null)
+    setError(null)
+    try {
+      const res = await axios.post('/api/data/bulk', { field, from: selected, to: replacement }, { params: { type: dataType } })
+      setMessage(`Updated ${res.data.modifiedCount.toLocaleString()} rows to "${replacement.trim()}"`)
+      setSelected([])
+      setReplacement("")
+      onApplied()
+    } catch (err) {
+      console.error("Failed to apply bulk edit", err)
+      const data = axios.isAxiosError(err) ? err.response?.data : undefined
+      setError(data?.message || data?.error || "Could not apply this change")
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const canApply = selected.some(value => value !== replacement.trim()) && replacement.trim() !== ""
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bulk Fix</CardTitle>
+        <CardDescription>
+          Rename a value everywhere it appears, or merge several spellings into one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This dataset has no columns that can be bulk edited.</p>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1">
+                <span className="text-sm font-medium">Column</span>
+                <Select value={field ?? undefined} onValueChange={(value) => setField(value as DatasetField)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fields.map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <span className="text-sm font-medium">New value</span>
+                <Input value={replacement} onChange={(e) => setReplacement(e.target.value)} placeholder="e.g. Gaborone" />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <span className="text-sm font-medium">Values to replace</span>
+              {values.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No values found.</p>
+              ) : (
+                <div className="grid max-h-48 gap-2 overflow-y-auto rounded-md border p-3 sm:grid-cols-2 lg:grid-cols-3">
+                  {values.map((value) => (
+                    <label key={value} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={selected.includes(value)}
+                        onCheckedChange={(checked) => toggleValue(value, checked === true)}
+                      />
+                      {value}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {message && <p className="text-sm text-green-600">{message}</p>}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end">
+              <Button onClick={handleApply} disabled={!canApply || applying}>
+                {applying ? "Applying..." : `Replace ${selected.length} Value${selected.length === 1 ? "" : "s"}`}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
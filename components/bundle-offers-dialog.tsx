@@ -0,0 +1,167 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import axios from "axios"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table"
+import { DEFAULT_MARKET_BASKET_OPTIONS, MIN_SUPPORT_FLOOR } from "@/lib/ml/market-basket"
+
+interface AssociationRule {
+  antecedent: string[]
+  consequent: string[]
+  support: number
+  confidence: number
+  lift: number
+}
+
+interface MarketBasketResult {
+  transactions: number
+  min_support: number
+  min_confidence: number
+  total_rules: number
+  association_rules: AssociationRule[]
+}
+
+interface BundleOffersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+// Fraction to an input value, without floating point noise like 30.000000000000004
+const toPercentInput = (value: number) => String(Math.round(value * 1000) / 10)
+
+export function BundleOffersDialog({ open, onOpenChange }: BundleOffersDialogProps) {
+  // Thresholds are edited as percentages and sent as fractions
+  const [minSupport, setMinSupport] = useState(toPercentInput(DEFAULT_MARKET_BASKET_OPTIONS.minSupport))
+  const [minConfidence, setMinConfidence] = useState(toPercentInput(DEFAULT_MARKET_BASKET_OPTIONS.minConfidence))
+  const [result, setResult] = useState<MarketBasketResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await axios.get('/api/market-basket', {
+        params: {
+          minSupport: Number(minSupport) / 100,
+          minConfidence: Number(minConfidence) / 100
+        }
+      })
+      setResult(res.data)
+      // Show the thresholds the server actually used
+      setMinSupport(toPercentInput(res.data.min_support))
+      setMinConfidence(toPercentInput(res.data.min_confidence))
+    } catch (err) {
+      const details = axios.isAxiosError(err) ? err.response?.data : undefined
+      console.error("Failed to fetch bundle rules", err)
+      setError(details?.message ?? "Failed to find products bought together.")
+    } finally {
+      setLoading(false)
+    }
+  }, [minSupport, minConfidence])
+
+  // Load once when first opened; after a failure, editing the thresholds waits for Find Bundles
+  useEffect(() => {
+    if (open && !result && !error && !loading) {
+      fetchRules()
+    }
+  }, [open, result, error, loading, fetchRules])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Bundle Offers</DialogTitle>
+          <DialogDescription>
+            Products your customers buy together, ranked by lift: how many times more likely the second
+            product is in a basket that has the first. Baskets are each demographic&apos;s purchases in a store on a day.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="min-support">Min. support (% of baskets)</Label>
+            <Input
+              id="min-support"
+              type="number"
+              min={MIN_SUPPORT_FLOOR * 100}
+              max={100}
+              step={0.5}
+              value={minSupport}
+              onChange={(e) => setMinSupport(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="min-confidence">Min. confidence (%)</Label>
+            <Input
+              id="min-confidence"
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={minConfidence}
+              onChange={(e) => setMinConfidence(e.target.value)}
+            />
+          </div>
+          <Button onClick={fetchRules} disabled={loading}>
+            {loading ? "Finding bundles..." : "Find Bundles"}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {result && (
+          <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+            <p className="text-sm text-muted-foreground">
+              {result.total_rules} rules from {result.transactions} baskets
+              {result.total_rules > result.association_rules.length && `, showing the top ${result.association_rules.length}`}.
+            </p>
+            {result.association_rules.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customers who buy</TableHead>
+                    <TableHead>Also buy</TableHead>
+                    <TableHead className="text-right">Support</TableHead>
+                    <TableHead className="text-right">Confidence</TableHead>
+                    <TableHead className="text-right">Lift</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.association_rules.map((rule) => (
+                    <TableRow key={`${rule.antecedent.join("+")}=>${rule.consequent.join("+")}`}>
+                      <TableCell>{rule.antecedent.join(" + ")}</TableCell>
+                      <TableCell>{rule.consequent.join(" + ")}</TableCell>
+                      <TableCell className="text-right">{percent(rule.support)}</TableCell>
+                      <TableCell className="text-right">{percent(rule.confidence)}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={rule.lift > 1 ? "default" : "outline"}>×{rule.lift.toFixed(2)}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No products are bought together often enough. Try lowering the support or confidence.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table"
+import type { ColumnMapping, DatasetField } from "@/lib/upload/column-mapping"
+
+// Radix Select does not allow an empty string as an item value
+const UNMAPPED = "__unmapped__"
+
+interface ColumnMappingWizardProps {
+  fileName: string
+  fields: DatasetField[]
+  headers: string[]
+  mapping: ColumnMapping
+  suggestedMapping: ColumnMapping
+  scores: Partial<Record<DatasetField, number>>
+  sample: Record<string, unknown>[]
+  onChange: (mapping: ColumnMapping) => void
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+export function ColumnMappingWizard({
+  fileName,
+  fields,
+  headers,
+  mapping,
+  suggestedMapping,
+  scores,
+  sample,
+  onChange,
+  onConfirm,
+  onCancel,
+}: ColumnMappingWizardProps) {
+  const unmappedCount = fields.filter(field => !mapping[field]).length
+
+  const handleSelect = (field: DatasetField, value: string) => {
+    onChange({ ...mapping, [field]: value === UNMAPPED ? null : value })
+  }
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div>
+        <h3 className="text-lg font-medium">Map Columns</h3>
+        <p className="text-sm text-muted-foreground">
+          We matched the columns in {fileName} to the fields PredictIQ needs. Check the suggestions
+          before importing. Your choices are saved and applied automatically to files with the same columns.
+        </p>
+      </div>
+
+      <div className="rounded-md border max-h-[28rem] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Column in your file</TableHead>
+              <TableHead>Example</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {fields.map((field) => {
+              const header = mapping[field]
+              const score = scores[field]
+              return (
+                <TableRow key={field}>
+                  <TableCell className="font-medium">
+                    {field}
+                    {header && score !== undefined && score < 1 && header === suggestedMapping[field] && (
+                      <Badge variant="outline" className="ml-2">
+                        {Math.round(score * 100)}% match
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Select value={header ?? UNMAPPED} onValueChange={(value) => handleSelect(field, value)}>
+                      <SelectTrigger className="w-[220px]">
+                        <SelectValue placeholder="Select column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                        {headers.map((option) => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {header && sample[0] ? String(sample[0][header] ?? "") : "—"}
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <p className={`text-sm ${unmappedCount > 0 ? "text-red-600" : "text-muted-foreground"}`}>
+          {unmappedCount > 0
+            ? `${unmappedCount} fields are not mapped. Rows will be rejected until every field has a column.`
+            : "All fields are mapped."}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={onConfirm} disabled={unmappedCount > 0}>Import Data</Button>
+        </div>
+      </div>
+    </div>
+  )
+}
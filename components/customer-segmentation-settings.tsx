@@ -0,0 +1,111 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import axios from "axios"
+import { Check } from "lucide-react"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  DEFAULT_SEGMENTATION_SETTINGS,
+  MAX_SEGMENTS,
+  MIN_SEGMENTS,
+  type SegmentationSettings
+} from "@/lib/ml/segmentation"
+
+// Radix Select cannot hold null, so automatic k gets its own value
+const AUTOMATIC = "auto"
+
+export function CustomerSegmentationSettings() {
+  const [segmentation, setSegmentation] = useState<SegmentationSettings>(DEFAULT_SEGMENTATION_SETTINGS)
+  const [saving, setSaving] = useState(false)
+  const [isSaved, setIsSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const res = await axios.get('/api/settings/segmentation')
+        setSegmentation(res.data.segmentation)
+      } catch (err) {
+        console.error("Failed to fetch segmentation settings", err)
+        setError("Failed to fetch segmentation settings.")
+      }
+    }
+
+    fetchSettings()
+  }, [])
+
+  const handleSave = async () => {
+    setSaving(true)
+    setIsSaved(false)
+    setError(null)
+    try {
+      const res = await axios.put('/api/settings/segmentation', { segmentation })
+      setSegmentation(res.data.segmentation)
+      setIsSaved(true)
+      setTimeout(() => setIsSaved(false), 3000)
+    } catch (err) {
+      console.error("Failed to save segmentation settings", err)
+      setError("Failed to update segmentation settings.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const options = Array.from({ length: MAX_SEGMENTS - MIN_SEGMENTS + 1 }, (_, i) => MIN_SEGMENTS + i)
+
+  return (
+    <div className="space-y-4">
+      {isSaved && (
+        <Alert className="bg-green-50 border-green-200">
+          <Check className="h-4 w-4 text-green-600" />
+          <AlertDescription className="text-green-800">
+            Your segmentation settings have been saved. Segments will be rebuilt from your next visit to Insights.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Customer Segments</CardTitle>
+          <CardDescription>
+            Customers are scored 1-5 on how recently, how often and how much they buy, then grouped with k-means.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label>Number of Segments</Label>
+          <Select
+            value={segmentation.k === null ? AUTOMATIC : String(segmentation.k)}
+            onValueChange={(value) => setSegmentation({ k: value === AUTOMATIC ? null : Number(value) })}
+          >
+            <SelectTrigger className="w-full sm:w-[260px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTOMATIC}>Automatic (best separated)</SelectItem>
+              {options.map((k) => (
+                <SelectItem key={k} value={String(k)}>{k} segments</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Automatic picks the number whose segments are most distinct from each other. With few customers or
+            demographics, fewer segments may be found.
+          </p>
+        </CardContent>
+        <CardFooter className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>{saving ? "Saving..." : "Save Segments"}</Button>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
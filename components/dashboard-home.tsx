@@ -11,9 +11,14 @@ import {
   DollarSign, 
   AlertTriangle,
   Users,
-  ShoppingCart 
+  ShoppingCart,
+  PackageX
 } from "lucide-react"
-import { LineChart, BarChart, DonutChart } from "@/components/ui/chart"
+import { LineChart, BarChart, DonutChart, type ChartBand } from "@/components/ui/chart"
+import { AnomalyFeed } from "@/components/anomaly-feed"
+import { ALL_STORES, StoreSelect } from "@/components/store-select"
+import { needsReorder, positionAfterTransfers } from "@/lib/ml/inventory-policy"
+import type { StockOutAnalysis } from "@/lib/ml/stockouts"
 
 interface AnalyticsResponse {
   salesAnalysis: {
@@ -35,8 +40,11 @@ interface AnalyticsResponse {
     }>;
   };
   customerSegments: Array<{
+    // RFM name of the k-means cluster, e.g. Champions
+    name: string;
     demographic: string;
     segment: string;
+    size: number;
     metrics: {
       recency: string;
       frequency: number;
@@ -44,16 +52,28 @@ interface AnalyticsResponse {
     };
     score: number;
   }>;
+  // One per store and product
   inventoryInsights: Array<{
+    store: string;
     product: string;
     revenue: number;
     percentage: number;
     category: 'A' | 'B' | 'C';
     metrics: {
       stock_level: number;
+      // On hand plus on order
+      stock_position: number;
+      transfer_in: number;
+      transfer_out: number;
       reorder_point: number;
     };
+    policy: {
+      reorder_point: number;
+      // 0 when the product has no demand to order for
+      order_quantity: number;
+    };
   }>;
+  stockOuts: StockOutAnalysis;
   predictions: {
     historical: Array<{
       date: string;
@@ -63,14 +83,26 @@ interface AnalyticsResponse {
     forecast: Array<{
       date: string;
       predicted: number;
+      lower_80: number;
+      upper_80: number;
+      lower_95: number;
+      upper_95: number;
     }>;
   };
 }
 
+// Prediction intervals shaded around the forecast line
+const FORECAST_BANDS: ChartBand[] = [
+  { lower: "lower_95", upper: "upper_95", color: "green", name: "95% range" },
+  { lower: "lower_80", upper: "upper_80", color: "green", name: "80% range" }
+]
+
 export function DashboardHome() {
   const [data, setData] = useState<AnalyticsResponse | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  // Store the inventory cards are narrowed to, or ALL_STORES
+  const [store, setStore] = useState<string>(ALL_STORES);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -139,19 +171,24 @@ export function DashboardHome() {
 
   if (!data) return <div>No datasets uploaded. Please upload data in the upload tab to see insights.</div>;
 
-  const lowStockItems = data.inventoryInsights.filter(item => 
-    item.metrics.stock_level < item.metrics.reorder_point
-  );
+  const stores = Array.from(new Set(data.inventoryInsights.map(item => item.store))).sort();
+  const storeInventory = data.inventoryInsights.filter(item => store === ALL_STORES || item.store === store);
+  const lowStockItems = storeInventory.filter(item => needsReorder(item.policy, positionAfterTransfers(item.metrics)));
+  // Shares are of all revenue, so rescale them to the selected store's
+  const storeShare = storeInventory.reduce((sum, item) => sum + item.percentage, 0);
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold tracking-tight">Business Analytics Dashboard</h1>
-        <p className="text-muted-foreground">Comprehensive insights from your retail data</p>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Business Analytics Dashboard</h1>
+          <p className="text-muted-foreground">Comprehensive insights from your retail data</p>
+        </div>
+        <StoreSelect stores={stores} value={store} onValueChange={setStore} />
       </div>
 
       {/* KPI Cards */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
@@ -198,11 +235,24 @@ export function DashboardHome() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {data?.inventoryInsights?.filter(item => 
-                item?.metrics?.stock_level < item?.metrics?.reorder_point
-              )?.length || 0}
+              {lowStockItems.length}
             </div>
-            <p className="text-xs text-muted-foreground">Products below reorder point</p>
+            <p className="text-xs text-muted-foreground">Store products at or below their reorder point</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Lost to Stock-outs</CardTitle>
+            <PackageX className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              BWP {data?.stockOuts?.summary?.lost_revenue?.toLocaleString() || '0'}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Estimated revenue lost to stock-outs over {data?.stockOuts?.summary?.stock_out_days || 0} store product days
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -211,7 +261,7 @@ export function DashboardHome() {
       <Card>
         <CardHeader>
           <CardTitle>Sales Trend & Forecast</CardTitle>
-          <CardDescription>Historical sales with 30-day prediction</CardDescription>
+          <CardDescription>Historical sales with 30-day prediction and its 80% and 95% ranges</CardDescription>
         </CardHeader>
         <CardContent className="h-[400px]">
           <LineChart
@@ -226,18 +276,25 @@ export function DashboardHome() {
                 date: f.date,
                 actual: null,
                 predicted: f.predicted,
-                moving_average: null
+                moving_average: null,
+                lower_80: f.lower_80,
+                upper_80: f.upper_80,
+                lower_95: f.lower_95,
+                upper_95: f.upper_95
               }))
             ]}
             index="date"
             categories={["actual", "predicted", "moving_average"]}
             colors={["blue", "green", "gray"]}
+            bands={FORECAST_BANDS}
             valueFormatter={(value: number) => `${value.toFixed(0)} units`}
             className="h-full"
           />
         </CardContent>
       </Card>
 
+      <AnomalyFeed />
+
       {/* Product Performance and Inventory */}
       <div className="grid gap-4 md:grid-cols-2">
         <Card>
@@ -264,12 +321,13 @@ export function DashboardHome() {
           </CardHeader>
           <CardContent className="h-[300px]">
             <DonutChart
-              data={data.inventoryInsights.reduce((acc, item) => {
+              data={storeInventory.reduce((acc, item) => {
+                const value = storeShare > 0 ? (item.percentage / storeShare) * 100 : 0;
                 const existing = acc.find(x => x.category === item.category);
                 if (existing) {
-                  existing.value += item.percentage;
+                  existing.value += value;
                 } else {
-                  acc.push({ category: item.category, value: item.percentage });
+                  acc.push({ category: item.category, value });
                 }
                 return acc;
               }, [] as Array<{ category: string; value: number }>)}
@@ -294,9 +352,9 @@ export function DashboardHome() {
               {data?.customerSegments?.map((segment, idx) => (
                 <div key={idx} className="flex items-center justify-between">
                   <div>
-                    <p className="font-medium">{segment?.demographic || 'Unknown'}</p>
+                    <p className="font-medium">{segment?.name || 'Unknown'}</p>
                     <p className="text-sm text-muted-foreground">
-                      Score: {segment?.score?.toFixed(2) || '0.00'}
+                      {segment?.demographic} · {segment?.size} in segment · Score: {segment?.score?.toFixed(2) || '0.00'}
                     </p>
                   </div>
                   <Badge variant={
@@ -323,7 +381,7 @@ export function DashboardHome() {
                   <AlertTriangle className="h-4 w-4" />
                   <AlertTitle>Low Stock Alert</AlertTitle>
                   <AlertDescription>
-                    {item.product} - Current: {item.metrics.stock_level} units
+                    {item.product} at {item.store} - Stock position: {positionAfterTransfers(item.metrics)} units
                     (Reorder at: {item.metrics.reorder_point} units)
                   </AlertDescription>
                 </Alert>
@@ -5,7 +5,7 @@ import type React from "react"
 import { useState } from "react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
-import { BarChart2, Home, Upload, Lightbulb, FileText, Settings, Bell, Search, Menu, X } from "lucide-react"
+import { BarChart2, Home, Upload, Table2, Lightbulb, Target, ClipboardList, Truck, FileText, Settings, Bell, Search, Menu, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
@@ -30,7 +30,11 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
   const navigation = [
     { name: "Dashboard", href: "/dashboard", icon: Home },
     { name: "Upload Data", href: "/dashboard/upload", icon: Upload },
+    { name: "Data Explorer", href: "/dashboard/data", icon: Table2 },
     { name: "Insights", href: "/dashboard/insights", icon: Lightbulb },
+    { name: "Model Accuracy", href: "/dashboard/accuracy", icon: Target },
+    { name: "Purchase Orders", href: "/dashboard/purchase-orders", icon: ClipboardList },
+    { name: "Suppliers", href: "/dashboard/suppliers", icon: Truck },
     { name: "Reports", href: "/dashboard/reports", icon: FileText },
     { name: "Settings", href: "/dashboard/settings", icon: Settings },
   ]
@@ -0,0 +1,106 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import axios from "axios"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table"
+import type { AuditAction } from "@/lib/data/edits"
+import type { DatasetType } from "@/lib/upload/datasets"
+
+interface ChangeHistoryItem {
+  _id: string
+  editedBy: string | null
+  action: AuditAction
+  field: string | null
+  before: Record<string, unknown>
+  after: Record<string, unknown>
+  matchedCount: number
+  createdAt: string
+}
+
+interface DataChangeHistoryProps {
+  dataType: DatasetType
+  // Bump to reload the list, e.g. after an edit is saved
+  refreshKey: number
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  edit_row: "Row edit",
+  bulk_replace: "Bulk fix",
+}
+
+const describe = (value: unknown) => Array.isArray(value) ? value.join(", ") : String(value ?? "")
+
+export function DataChangeHistory({ dataType, refreshKey }: DataChangeHistoryProps) {
+  const [entries, setEntries] = useState<ChangeHistoryItem[]>([])
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const res = await axios.get('/api/data/audit', { params: { type: dataType } })
+      setEntries(res.data?.entries ?? [])
+    } catch (err) {
+      console.error("Failed to fetch change history", err)
+      setEntries([])
+    }
+  }, [dataType])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries, refreshKey])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Change History</CardTitle>
+        <CardDescription>Your latest corrections to this dataset, with the values before and after.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes yet.</p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry._id}>
+                    <TableCell>
+                      <div>{format(new Date(entry.createdAt), "dd MMM yyyy HH:mm")}</div>
+                      {entry.editedBy && (
+                        <div className="text-xs text-muted-foreground">{entry.editedBy}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{ACTION_LABELS[entry.action]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {Object.entries(entry.before).map(([field, value]) => (
+                        <div key={field}><span className="text-muted-foreground">{field}:</span> {describe(value)}</div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {Object.entries(entry.after).map(([field, value]) => (
+                        <div key={field}><span className="text-muted-foreground">{field}:</span> {describe(value)}</div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right">{entry.matchedCount.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
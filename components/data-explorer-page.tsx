@@ -0,0 +1,333 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import axios from "axios"
+import { ArrowDown, ArrowUp, ArrowUpDown, Pencil } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { EditRowDialog } from "@/components/edit-row-dialog"
+import { BulkEditCard } from "@/components/bulk-edit-card"
+import { DataChangeHistory } from "@/components/data-change-history"
+import { DATASETS, DATASET_TYPES, type DatasetType } from "@/lib/upload/datasets"
+import { PAGE_SIZES, filterFieldsOf, type FilterField } from "@/lib/data/query"
+import type { DatasetField } from "@/lib/upload/column-mapping"
+
+// Radix Select does not allow an empty string as an item value
+const ALL = "__all__"
+
+interface ExplorerResponse {
+  rows: Record<string, unknown>[]
+  total: number
+  page: number
+  pageSize: number
+  pageCount: number
+  // Distinct values of the filter and bulk edit columns
+  options: Partial<Record<DatasetField, string[]>>
+  bulkFields: DatasetField[]
+}
+
+interface Sorting {
+  field: DatasetField
+  order: "asc" | "desc"
+}
+
+// Page numbers to show: the first, the last and the current page's neighbours
+function visiblePages(page: number, pageCount: number) {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1])
+  return Array.from(pages).filter(p => p >= 1 && p <= pageCount).sort((a, b) => a - b)
+}
+
+export function DataExplorerPage() {
+  const [dataType, setDataType] = useState<DatasetType>("sales")
+  const [filters, setFilters] = useState<Partial<Record<FilterField, string>>>({})
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [sorting, setSorting] = useState<Sorting | null>(null)
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(50)
+  const [result, setResult] = useState<ExplorerResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<Record<string, unknown> | null>(null)
+  const [historyKey, setHistoryKey] = useState(0)
+
+  const { fields, dateField } = DATASETS[dataType]
+
+  const fetchRows = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await axios.get('/api/data', {
+        params: {
+          type: dataType,
+          page,
+          pageSize,
+          ...Object.fromEntries(Object.entries(filters).map(([field, value]) => [field.toLowerCase(), value])),
+          from: from || undefined,
+          to: to || undefined,
+          sort: sorting?.field,
+          order: sorting?.order,
+        },
+      })
+      setResult(res.data)
+    } catch (err) {
+      console.error("Failed to fetch rows", err)
+      const data = axios.isAxiosError(err) ? err.response?.data : undefined
+      setError(data?.message || data?.error || "Could not load your data")
+      setResult(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [dataType, filters, from, to, sorting, page, pageSize])
+
+  useEffect(() => {
+    fetchRows()
+  }, [fetchRows])
+
+  const handleDataTypeChange = (value: string) => {
+    setDataType(value as DatasetType)
+    setFilters({})
+    setFrom("")
+    setTo("")
+    setSorting(null)
+    setPage(1)
+  }
+
+  const handleFilterChange = (field: FilterField, value: string) => {
+    setFilters(current => {
+      const next = { ...current }
+      if (value === ALL) {
+        delete next[field]
+      } else {
+        next[field] = value
+      }
+      return next
+    })
+    setPage(1)
+  }
+
+  // Ascending, then descending, then back to upload order
+  const handleSort = (field: DatasetField) => {
+    setSorting(current => {
+      if (current?.field !== field) return { field, order: "asc" }
+      if (current.order === "asc") return { field, order: "desc" }
+      return null
+    })
+    setPage(1)
+  }
+
+  const clearFilters = () => {
+    setFilters({})
+    setFrom("")
+    setTo("")
+    setPage(1)
+  }
+
+  // Reload the page of rows and the change history after an edit
+  const handleEdited = () => {
+    setEditing(null)
+    setHistoryKey(key => key + 1)
+    fetchRows()
+  }
+
+  const goToPage = (event: React.MouseEvent, target: number) => {
+    event.preventDefault()
+    if (result && target >= 1 && target <= result.pageCount) {
+      setPage(target)
+    }
+  }
+
+  const firstRow = result && result.total > 0 ? (result.page - 1) * result.pageSize + 1 : 0
+  const lastRow = result ? Math.min(result.total, result.page * result.pageSize) : 0
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Data Explorer</h1>
+        <p className="text-muted-foreground">
+          Browse, filter, sort and correct every row you have uploaded.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+          <CardDescription>{DATASETS[dataType].description}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-1">
+              <span className="text-sm font-medium">Dataset</span>
+              <Select value={dataType} onValueChange={handleDataTypeChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATASET_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{DATASETS[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {filterFieldsOf(dataType).map((field) => (
+              <div key={field} className="space-y-1">
+                <span className="text-sm font-medium">{field}</span>
+                <Select value={filters[field] ?? ALL} onValueChange={(value) => handleFilterChange(field, value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All</SelectItem>
+                    {result?.options[field]?.map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            {dateField && (
+              <>
+                <div className="space-y-1">
+                  <span className="text-sm font-medium">From</span>
+                  <Input type="date" value={from} onChange={(e) => { setFrom(e.target.value); setPage(1) }} />
+                </div>
+                <div className="space-y-1">
+                  <span className="text-sm font-medium">To</span>
+                  <Input type="date" value={to} onChange={(e) => { setTo(e.target.value); setPage(1) }} />
+                </div>
+              </>
+            )}
+          </div>
+          <div className="mt-4 flex justify-end">
+            <Button variant="outline" onClick={clearFilters}>Clear Filters</Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <CardTitle>{DATASETS[dataType].label}</CardTitle>
+              <CardDescription>
+                {result
+                  ? `Showing ${firstRow.toLocaleString()}–${lastRow.toLocaleString()} of ${result.total.toLocaleString()} rows`
+                  : "Loading rows..."}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Rows per page</span>
+              <Select value={String(pageSize)} onValueChange={(value) => { setPageSize(Number(value)); setPage(1) }}>
+                <SelectTrigger className="w-[80px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAGE_SIZES.map((size) => (
+                    <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+          <div className={`rounded-md border overflow-x-auto ${loading ? "opacity-60" : ""}`}>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {fields.map((field) => (
+                    <TableHead key={field}>
+                      <button
+                        type="button"
+                        className="inline-flex items-center gap-1 whitespace-nowrap"
+                        onClick={() => handleSort(field)}
+                      >
+                        {field}
+                        {sorting?.field === field
+                          ? sorting.order === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+                          : <ArrowUpDown className="h-3 w-3 text-muted-foreground" />}
+                      </button>
+                    </TableHead>
+                  ))}
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result?.rows.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={fields.length + 1} className="text-center text-muted-foreground">
+                      No rows match these filters.
+                    </TableCell>
+                  </TableRow>
+                )}
+                {result?.rows.map((row) => (
+                  <TableRow key={String(row._id)}>
+                    {fields.map((field) => (
+                      <TableCell key={field} className="whitespace-nowrap">{String(row[field] ?? "")}</TableCell>
+                    ))}
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(row)} aria-label="Edit row">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {result && result.pageCount > 1 && (
+            <Pagination className="mt-4">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious href="#" onClick={(e) => goToPage(e, result.page - 1)} />
+                </PaginationItem>
+                {visiblePages(result.page, result.pageCount).map((pageNumber, index, pages) => (
+                  <PaginationItem key={pageNumber} className="flex items-center">
+                    {index > 0 && pageNumber - pages[index - 1] > 1 && <PaginationEllipsis />}
+                    <PaginationLink
+                      href="#"
+                      isActive={pageNumber === result.page}
+                      onClick={(e) => goToPage(e, pageNumber)}
+                    >
+                      {pageNumber}
+                    </PaginationLink>
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext href="#" onClick={(e) => goToPage(e, result.page + 1)} />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </CardContent>
+      </Card>
+
+      <BulkEditCard
+        dataType={dataType}
+        fields={result?.bulkFields ?? []}
+        options={result?.options ?? {}}
+        onApplied={handleEdited}
+      />
+
+      <DataChangeHistory dataType={dataType} refreshKey={historyKey} />
+
+      <EditRowDialog dataType={dataType} row={editing} onClose={() => setEditing(null)} onSaved={handleEdited} />
+    </div>
+  )
+}
@@ -0,0 +1,251 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import axios from "axios"
+import { format } from "date-fns"
+import { AlertTriangle, CheckCircle2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table"
+import type { UploadHistoryItem } from "@/components/upload-history"
+import type { DataProfile } from "@/lib/upload/profile"
+import { DATASETS, type DatasetType } from "@/lib/upload/datasets"
+import type { DatasetField } from "@/lib/upload/column-mapping"
+
+type ProfiledUpload = UploadHistoryItem & { profile: DataProfile | null }
+
+interface DataHealthCardProps {
+  dataType: DatasetType
+  // Bump to reload, e.g. after a new upload finishes
+  refreshKey: number
+}
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+const formatDay = (isoDate: string) => format(new Date(isoDate), "dd MMM yyyy")
+
+export function DataHealthCard({ dataType, refreshKey }: DataHealthCardProps) {
+  const [uploads, setUploads] = useState<ProfiledUpload[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const res = await axios.get('/api/upload/batches')
+      const profiled = (res.data?.batches ?? []).filter((upload: ProfiledUpload) =>
+        upload.dataType === dataType && upload.status === "completed" && upload.profile
+      )
+      setUploads(profiled)
+      // Newest first, so a finished upload is shown straight away
+      setSelectedId(profiled[0]?._id ?? null)
+    } catch (err) {
+      console.error("Failed to fetch data profiles", err)
+      setUploads([])
+      setSelectedId(null)
+    }
+  }, [dataType])
+
+  useEffect(() => {
+    fetchProfiles()
+  }, [fetchProfiles, refreshKey])
+
+  const upload = uploads.find(item => item._id === selectedId)
+  const profile = upload?.profile
+  const { fields } = DATASETS[dataType]
+
+  const columnsWithNulls = profile
+    ? fields.filter(field => (profile.nullCounts[field] ?? 0) > 0)
+    : []
+  const outlierCount = profile
+    ? Object.values(profile.numeric).reduce((sum, summary) => sum + (summary?.outlierCount ?? 0), 0)
+    : 0
+  const missingDays = profile?.dateCoverage
+    ? profile.dateCoverage.daysInRange - profile.dateCoverage.daysWithData
+    : 0
+  const issueCount = columnsWithNulls.length + (missingDays > 0 ? 1 : 0) + (outlierCount > 0 ? 1 : 0) +
+    ((profile?.stockRises?.count ?? 0) > 0 ? 1 : 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle>Data health</CardTitle>
+            <CardDescription>
+              An automatic check of each upload, so you know what to fix before trusting your dashboard.
+            </CardDescription>
+          </div>
+          {uploads.length > 0 && (
+            <Select value={selectedId ?? undefined} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-full sm:w-[260px]">
+                <SelectValue placeholder="Choose an upload" />
+              </SelectTrigger>
+              <SelectContent>
+                {uploads.map((item) => (
+                  <SelectItem key={item._id} value={item._id}>
+                    {item.fileName} ({format(new Date(item.createdAt), "dd MMM HH:mm")})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!profile ? (
+          <p className="text-sm text-muted-foreground">
+            Upload {DATASETS[dataType].label.toLowerCase()} to see a data quality profile.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center gap-2 text-sm">
+              {issueCount === 0 ? (
+                <>
+                  <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  <span>No problems found in {profile.rowCount.toLocaleString()} rows.</span>
+                </>
+              ) : (
+                <>
+                  <AlertTriangle className="h-4 w-4 text-amber-500" />
+                  <span>{issueCount} thing{issueCount === 1 ? "" : "s"} to check in {profile.rowCount.toLocaleString()} rows.</span>
+                </>
+              )}
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {Object.entries(profile.distinctCounts).map(([field, count]) => (
+                <div key={field} className="rounded-md border p-3">
+                  <div className="text-2xl font-semibold">{count?.toLocaleString()}</div>
+                  <div className="text-sm text-muted-foreground">Distinct {field === "Category" ? "categories" : `${field.toLowerCase()}s`}</div>
+                </div>
+              ))}
+              {profile.dateCoverage && (
+                <div className="rounded-md border p-3">
+                  <div className="text-2xl font-semibold">
+                    {profile.dateCoverage.daysWithData.toLocaleString()} / {profile.dateCoverage.daysInRange.toLocaleString()}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    Days with data, {formatDay(profile.dateCoverage.from)} – {formatDay(profile.dateCoverage.to)}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h3 className="mb-2 font-medium">Empty cells</h3>
+              {columnsWithNulls.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every column was filled in on every row.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {columnsWithNulls.map((field) => (
+                    <Badge key={field} variant="secondary">
+                      {field}: {(profile.nullCounts[field] ?? 0).toLocaleString()}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {profile.dateCoverage && (
+              <div>
+                <h3 className="mb-2 font-medium">Date gaps</h3>
+                {profile.dateCoverage.gapCount === 0 ? (
+                  <p className="text-sm text-muted-foreground">No missing days between the first and last date.</p>
+                ) : (
+                  <>
+                    <p className="mb-2 text-sm text-muted-foreground">
+                      {missingDays.toLocaleString()} missing days in {profile.dateCoverage.gapCount} gap{profile.dateCoverage.gapCount === 1 ? "" : "s"}
+                      {profile.dateCoverage.gapCount > profile.dateCoverage.gaps.length ? ", longest first:" : ":"}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {profile.dateCoverage.gaps.map((gap) => (
+                        <Badge key={gap.from} variant="outline">
+                          {gap.days === 1 ? formatDay(gap.from) : `${formatDay(gap.from)} – ${formatDay(gap.to)}`}
+                        </Badge>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            <div>
+              <h3 className="mb-2 font-medium">Numeric ranges</h3>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Column</TableHead>
+                      <TableHead className="text-right">Min</TableHead>
+                      <TableHead className="text-right">Mean</TableHead>
+                      <TableHead className="text-right">Max</TableHead>
+                      <TableHead className="text-right">Outliers</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(Object.keys(profile.numeric) as DatasetField[]).map((field) => {
+                      const summary = profile.numeric[field]!
+                      return (
+                        <TableRow key={field}>
+                          <TableCell>{field}</TableCell>
+                          <TableCell className="text-right">{formatNumber(summary.min)}</TableCell>
+                          <TableCell className="text-right">{formatNumber(summary.mean)}</TableCell>
+                          <TableCell className="text-right">{formatNumber(summary.max)}</TableCell>
+                          <TableCell className={`text-right ${summary.outlierCount > 0 ? "text-amber-600" : ""}`}>
+                            {summary.outlierCount.toLocaleString()}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            {profile.stockRises && (
+              <div>
+                <h3 className="mb-2 font-medium">Stock rising without a delivery</h3>
+                {profile.stockRises.count === 0 ? (
+                  <p className="text-sm text-muted-foreground">Every increase in Stock_Level had units on order.</p>
+                ) : (
+                  <>
+                    <p className="mb-2 text-sm text-muted-foreground">
+                      {profile.stockRises.count.toLocaleString()} days where stock went up with nothing on order
+                      {dataType === "sales" ? " in your inventory snapshots" : ""}. The largest jumps:
+                    </p>
+                    <div className="rounded-md border max-h-64 overflow-y-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-20">Row</TableHead>
+                            <TableHead>Date</TableHead>
+                            <TableHead>Store</TableHead>
+                            <TableHead>Product</TableHead>
+                            <TableHead className="text-right">Stock</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {profile.stockRises.examples.map((rise) => (
+                            <TableRow key={`${rise.store}|${rise.product}|${rise.date}`}>
+                              <TableCell>{rise.row ?? "—"}</TableCell>
+                              <TableCell>{formatDay(rise.date)}</TableCell>
+                              <TableCell>{rise.store}</TableCell>
+                              <TableCell>{rise.product}</TableCell>
+                              <TableCell className="text-right">
+                                {formatNumber(rise.previous)} → {formatNumber(rise.current)}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,135 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import type { DatasetField } from "@/lib/upload/column-mapping"
+import type { ImportMode } from "@/lib/upload/duplicates"
+import type { ImportPreview } from "@/lib/upload/batches"
+
+const MODE_OPTIONS: { value: ImportMode; label: string; description: string }[] = [
+  {
+    value: "append",
+    label: "Append",
+    description: "Add every row, even if the same row is already stored.",
+  },
+  {
+    value: "upsert",
+    label: "Update existing rows",
+    description: "Add new rows, overwrite changed ones and skip identical ones.",
+  },
+  {
+    value: "replace_range",
+    label: "Replace date range",
+    description: "Delete your stored data for the dates this file covers, then add every row.",
+  },
+]
+
+interface DuplicatePreviewProps {
+  fileName: string
+  fields: DatasetField[]
+  // Datasets without a date column cannot replace a date range
+  allowReplaceRange: boolean
+  preview: ImportPreview
+  mode: ImportMode
+  naturalKey: DatasetField[]
+  checking: boolean
+  onModeChange: (mode: ImportMode) => void
+  onNaturalKeyChange: (naturalKey: DatasetField[]) => void
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+export function DuplicatePreview({
+  fileName,
+  fields,
+  allowReplaceRange,
+  preview,
+  mode,
+  naturalKey,
+  checking,
+  onModeChange,
+  onNaturalKeyChange,
+  onConfirm,
+  onCancel,
+}: DuplicatePreviewProps) {
+  const handleKeyToggle = (field: DatasetField, checked: boolean) => {
+    const next = checked ? [...naturalKey, field] : naturalKey.filter(key => key !== field)
+    if (next.length > 0) {
+      onNaturalKeyChange(fields.filter(key => next.includes(key)))
+    }
+  }
+
+  const stats = [
+    { label: "New rows", value: preview.newCount },
+    { label: "Changed rows", value: preview.changedCount },
+    { label: "Identical rows", value: preview.identicalCount },
+    { label: "Rejected rows", value: preview.rejectedCount },
+  ]
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div>
+        <h3 className="text-lg font-medium">Review Duplicates</h3>
+        <p className="text-sm text-muted-foreground">
+          {fileName} has {preview.totalRows.toLocaleString()} rows
+          {preview.dateFrom && preview.dateTo && ` from ${preview.dateFrom} to ${preview.dateTo}`}.
+          Rows are matched to your stored data by the fields ticked below.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-md border p-3">
+            <p className="text-sm text-muted-foreground">{stat.label}</p>
+            <p className="text-2xl font-bold">{stat.value.toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-sm font-medium mb-2">Match rows on</p>
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {fields.map((field) => (
+            <div key={field} className="flex items-center gap-2">
+              <Checkbox
+                id={`key-${field}`}
+                checked={naturalKey.includes(field)}
+                disabled={checking}
+                onCheckedChange={(checked) => handleKeyToggle(field, checked === true)}
+              />
+              <Label htmlFor={`key-${field}`} className="text-sm font-normal">{field}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <RadioGroup value={mode} onValueChange={(value) => onModeChange(value as ImportMode)} className="space-y-2">
+        {MODE_OPTIONS.filter(option => allowReplaceRange || option.value !== "replace_range").map((option) => (
+          <div key={option.value} className="flex items-start gap-2">
+            <RadioGroupItem value={option.value} id={`mode-${option.value}`} className="mt-1" />
+            <Label htmlFor={`mode-${option.value}`} className="font-normal">
+              <span className="font-medium">{option.label}</span>
+              <span className="block text-sm text-muted-foreground">
+                {option.description}
+                {option.value === "replace_range" &&
+                  ` ${preview.replaceableCount.toLocaleString()} stored rows would be deleted.`}
+              </span>
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <p className="text-sm text-muted-foreground">
+          {checking ? "Checking for duplicates..." : "Rolling back this upload later will not restore rows it updated or replaced."}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={onConfirm} disabled={checking}>Import Data</Button>
+        </div>
+      </div>
+    </div>
+  )
+}
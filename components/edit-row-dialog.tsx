@@ -0,0 +1,118 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import axios from "axios"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { DATASETS, type DatasetType } from "@/lib/upload/datasets"
+
+interface EditRowDialogProps {
+  dataType: DatasetType
+  // The row being edited, or null when the dialog is closed
+  row: Record<string, unknown> | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+export function EditRowDialog({ dataType, row, onClose, onSaved }: EditRowDialogProps) {
+  const { fields } = DATASETS[dataType]
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [details, setDetails] = useState<string[]>([])
+
+  useEffect(() => {
+    setValues(row ? Object.fromEntries(fields.map(field => [field, String(row[field] ?? "")])) : {})
+    setError(null)
+    setDetails([])
+  }, [row, fields])
+
+  // Inputs hold text; send numbers back for columns that were numeric so the schema checks them as such
+  const changedValues = () => {
+    if (!row) return {}
+    return Object.fromEntries(
+      fields
+        .filter(field => values[field] !== String(row[field] ?? ""))
+        .map(field => {
+          const value = values[field]
+          const numeric = typeof row[field] === "number" && value.trim() !== "" && !isNaN(Number(value))
+          return [field, numeric ? Number(value) : value]
+        })
+    )
+  }
+
+  const handleSave = async () => {
+    if (!row) return
+    const changes = changedValues()
+    if (Object.keys(changes).length === 0) {
+      onClose()
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    setDetails([])
+    try {
+      await axios.patch(`/api/data/${String(row._id)}`, { changes }, { params: { type: dataType } })
+      onSaved()
+    } catch (err) {
+      console.error("Failed to save row", err)
+      const data = axios.isAxiosError(err) ? err.response?.data : undefined
+      setError(data?.message || data?.error || "Could not save this row")
+      setDetails(data?.details ?? [])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={row !== null} onOpenChange={(open) => { if (!open) onClose() }}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit Row</DialogTitle>
+          <DialogDescription>
+            Changes are checked like an upload and recorded in the change history. Insights are recalculated on your next visit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {fields.map((field) => (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`edit-${field}`}>{field}</Label>
+              <Input
+                id={`edit-${field}`}
+                value={values[field] ?? ""}
+                onChange={(e) => setValues(current => ({ ...current, [field]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+
+        {error && (
+          <div className="text-sm text-red-600">
+            <p>{error}</p>
+            {details.length > 0 && (
+              <ul className="mt-1 list-disc pl-5">
+                {details.map((detail) => <li key={detail}>{detail}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>{saving ? "Saving..." : "Save Changes"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,193 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import axios from "axios"
+import { format } from "date-fns"
+import { Check, X } from "lucide-react"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Separator } from "@/components/ui/separator"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DEFAULT_FORECAST_CALENDAR, type ForecastCalendar, type PaydayRule } from "@/lib/ml/calendar"
+
+const formatDay = (isoDate: string) => format(new Date(isoDate), "EEE dd MMM yyyy")
+
+export function ForecastCalendarSettings() {
+  const [calendar, setCalendar] = useState<ForecastCalendar>(DEFAULT_FORECAST_CALENDAR)
+  const [publicHolidays, setPublicHolidays] = useState<string[]>([])
+  const [newHoliday, setNewHoliday] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [isSaved, setIsSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchCalendar = async () => {
+      try {
+        const res = await axios.get('/api/settings/forecast-calendar')
+        setCalendar(res.data.calendar)
+        setPublicHolidays(res.data.publicHolidays ?? [])
+      } catch (err) {
+        console.error("Failed to fetch forecast calendar", err)
+        setError("Failed to fetch forecasting settings.")
+      }
+    }
+
+    fetchCalendar()
+  }, [])
+
+  const setPayday = (changes: Partial<ForecastCalendar["payday"]>) => {
+    setCalendar(current => ({ ...current, payday: { ...current.payday, ...changes } }))
+  }
+
+  const addHoliday = () => {
+    if (!newHoliday) return
+    setCalendar(current => ({
+      ...current,
+      extraHolidays: Array.from(new Set([...current.extraHolidays, newHoliday])).sort()
+    }))
+    setNewHoliday("")
+  }
+
+  const removeHoliday = (day: string) => {
+    setCalendar(current => ({ ...current, extraHolidays: current.extraHolidays.filter(d => d !== day) }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setIsSaved(false)
+    setError(null)
+    try {
+      const res = await axios.put('/api/settings/forecast-calendar', { calendar })
+      setCalendar(res.data.calendar)
+      setIsSaved(true)
+      setTimeout(() => setIsSaved(false), 3000)
+    } catch (err) {
+      console.error("Failed to save forecast calendar", err)
+      setError("Failed to update forecasting settings.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {isSaved && (
+        <Alert className="bg-green-50 border-green-200">
+          <Check className="h-4 w-4 text-green-600" />
+          <AlertDescription className="text-green-800">
+            Your forecasting calendar has been saved. Forecasts will use it from your next visit to Insights.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Holidays and Paydays</CardTitle>
+          <CardDescription>
+            Forecasts learn how much busier or quieter these days are than a normal day of the same weekday.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="public-holidays">Botswana Public Holidays</Label>
+              <p className="text-sm text-muted-foreground">
+                Holidays falling on a Sunday are observed on the Monday.
+              </p>
+            </div>
+            <Switch
+              id="public-holidays"
+              checked={calendar.publicHolidays}
+              onCheckedChange={(checked) => setCalendar(current => ({ ...current, publicHolidays: checked }))}
+            />
+          </div>
+          {calendar.publicHolidays && publicHolidays.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {publicHolidays.map((day) => (
+                <Badge key={day} variant="outline">{formatDay(day)}</Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="extra-holiday">Other Holidays and Closures</Label>
+            <div className="flex gap-2">
+              <Input id="extra-holiday" type="date" value={newHoliday} onChange={(e) => setNewHoliday(e.target.value)} />
+              <Button variant="outline" onClick={addHoliday} disabled={!newHoliday}>Add</Button>
+            </div>
+            {calendar.extraHolidays.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {calendar.extraHolidays.map((day) => (
+                  <Badge key={day} variant="secondary" className="gap-1">
+                    {formatDay(day)}
+                    <button type="button" onClick={() => removeHoliday(day)} aria-label={`Remove ${day}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <Separator />
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Payday</Label>
+              <Select value={calendar.payday.rule} onValueChange={(value) => setPayday({ rule: value as PaydayRule })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="last_weekday">Last working day of the month</SelectItem>
+                  <SelectItem value="day_of_month">Fixed day of the month</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {calendar.payday.rule === "day_of_month" && (
+              <div className="space-y-2">
+                <Label htmlFor="payday-day">Day of Month</Label>
+                <Input
+                  id="payday-day"
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={calendar.payday.dayOfMonth}
+                  onChange={(e) => setPayday({ dayOfMonth: Number(e.target.value) })}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="payday-window">Busy Days From Payday</Label>
+              <Input
+                id="payday-window"
+                type="number"
+                min={0}
+                max={10}
+                value={calendar.payday.windowDays}
+                onChange={(e) => setPayday({ windowDays: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            A payday on a weekend or public holiday moves to the working day before it. Set busy days to 0 to ignore paydays.
+          </p>
+        </CardContent>
+        <CardFooter className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>{saving ? "Saving..." : "Save Calendar"}</Button>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
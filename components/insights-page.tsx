@@ -7,10 +7,34 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { LineChart, BarChart } from "@/components/ui/chart";
+import { LineChart, BarChart, type ChartBand } from "@/components/ui/chart";
 import { CalendarIcon, TrendingUp, Package, ArrowUpRight, AlertTriangle, DollarSign, Users, ShoppingBag } from "lucide-react";
 import { format } from "date-fns";
+import type { DatasetType } from "@/lib/upload/datasets";
+import { FORECAST_MODEL_LABELS, type ForecastModel } from "@/lib/ml/forecasting";
+import { BACKTEST_MODEL_LABELS, type BacktestModel } from "@/lib/ml/backtesting";
+import { BundleOffersDialog } from "@/components/bundle-offers-dialog";
+import { PriceSimulator } from "@/components/price-simulator";
+import { ALL_STORES, StoreSelect } from "@/components/store-select";
+import { describeElasticity, type ProductPricing } from "@/lib/ml/pricing";
+import {
+  INVENTORY_POLICY_LABELS,
+  needsReorder,
+  positionAfterTransfers,
+  type InventoryPolicy,
+  type StockTransfer
+} from "@/lib/ml/inventory-policy";
+import type { StockOutAnalysis } from "@/lib/ml/stockouts";
+
+// 80% and 95% prediction intervals of a forecast day
+interface ForecastInterval {
+  lower_80: number;
+  upper_80: number;
+  lower_95: number;
+  upper_95: number;
+}
 
 interface InsightsData {
   salesAnalysis: {
@@ -49,32 +73,152 @@ interface InsightsData {
     forecast: Array<{
       date: string;
       predicted: number;
+    } & ForecastInterval>;
+    // Model with the lowest error on the last backtest_days of history
+    model: ForecastModel;
+    backtest: Array<{
+      model: ForecastModel;
+      mae: number;
     }>;
+    backtest_days: number;
+    calendar_effects: {
+      holiday: number;
+      payday: number;
+    };
   };
+  productForecasts: Array<{
+    product: string;
+    category: string;
+    history: Array<{
+      date: string;
+      actual: number;
+    }>;
+    predictions: Array<{
+      date: string;
+      predicted_sales: number;
+    } & ForecastInterval>;
+    model: BacktestModel;
+    // Scored on the last holdout_days of history, which the model was not fitted to
+    model_metrics: {
+      mse: number;
+      rmse: number;
+      mae: number;
+      r2: number | null;
+      holdout_days: number;
+      training_days: number;
+      feature_importance: Array<{
+        feature: string;
+        importance: number;
+      }>;
+    };
+  }>;
+  // Neural network trained on every product's rows; null with too little data
+  demandModel: {
+    trained_at: string;
+    training_rows: number;
+    test_rows: number;
+    metrics: {
+      mse: number;
+      rmse: number;
+      mae: number;
+      r2: number | null;
+    };
+    // Share of the model's accuracy lost when each feature is scrambled
+    feature_importance: Array<{
+      feature: string;
+      importance: number;
+    }>;
+  } | null;
+  // One per store and product
   inventoryInsights: Array<{
+    store: string;
     product: string;
+    product_category: string;
     revenue: number;
     percentage: number;
+    // ABC class of the product by its share of revenue across all stores
     category: 'A' | 'B' | 'C';
     metrics: {
       stock_level: number;
+      // Stock on hand plus stock on order
+      stock_position: number;
       reorder_point: number;
       avg_daily_sales: number;
+      // Units per day the policy plans for, from the product's forecast when it has one
+      forecast_daily_demand: number;
+      demand_source: "forecast" | "history";
       lead_time: number;
+      lead_time_spread: number;
       safety_stock: number;
-      stock_coverage: number;
+      // Days the stock position lasts; null when the store does not sell the product
+      stock_coverage: number | null;
+      on_order: number;
+      // Units planned to move in from or out to other stores
+      transfer_in: number;
+      transfer_out: number;
+      stock_source: "inventory" | "sales";
     };
+    policy: InventoryPolicy;
+    // Units to order now, after planned transfers
+    reorder_quantity: number;
+    recommendations: string[];
   }>;
+  // Surplus stock to move between stores before reordering
+  inventoryTransfers: StockTransfer[];
+  // Days sales were capped by an empty shelf, with lost sales estimated from comparable days
+  stockOuts: StockOutAnalysis;
+  // One per k-means cluster of RFM scores, best first
   customerSegments: Array<{
+    cluster: number;
+    name: string;
     demographic: string;
-    segment: string;
+    demographics: string[];
+    segment: 'High-Value' | 'Mid-Value' | 'Low-Value';
+    size: number;
+    share: number;
     metrics: {
       recency: string;
       frequency: number;
       monetary: number;
     };
+    // Average 1-5 quintile scores of the cluster's members
+    rfm: {
+      recency: number;
+      frequency: number;
+      monetary: number;
+    };
     score: number;
+    recommendations: string[];
+    customers: {
+      count: number;
+      average_spend: number;
+      average_transactions: number;
+      average_retention: number;
+    } | null;
+  }>;
+  customerSegmentation: {
+    // Whether customer records or sales demographics were segmented
+    unit: 'customer' | 'demographic';
+    k: number;
+    chosen_by: 'silhouette' | 'setting' | 'too_few';
+    seed: number;
+    candidates: Array<{
+      k: number;
+      inertia: number;
+      silhouette: number;
+    }>;
+  } | null;
+  // Price position and elasticity per product, best sellers first
+  pricing: ProductPricing[];
+  topCustomers: Array<{
+    id: string;
+    demographic: string;
+    transactions: number;
+    spend: number;
+    last_purchase: string;
   }>;
+  // Rows of each dataset the analysis was built from
+  datasets: Record<DatasetType, number>;
   trends: Array<{
     name: string;
     description: string;
@@ -92,10 +236,8 @@ interface InsightsData {
   metrics: {
     predictedGrowth: number;
   };
-  needsReorder: Array<{
-    name: string;
-    recommendedOrder: number;
-  }>;
+  // Stores and products below their reorder point, with what to order from whom
+  needsReorder: ReorderItem[];
   lowStock: Array<{
     name: string;
     currentStock: number;
@@ -122,6 +264,8 @@ interface RecommendationItem {
 
 interface ReorderItem {
   name: string;
+  store: string;
+  supplier: string;
   recommendedOrder: number;
 }
 
@@ -133,13 +277,32 @@ interface TopProduct {
   amount: number;
 }
 
+// Radix Select does not allow an empty string as an item value
+const ALL_PRODUCTS = "__all__";
+
+const VALUE_TIERS = ["High-Value", "Mid-Value", "Low-Value"] as const;
+
+// Prediction intervals shaded around the forecast
+const FORECAST_BANDS: ChartBand[] = [
+  { lower: "lower_95", upper: "upper_95", color: "orange", name: "95% range" },
+  { lower: "lower_80", upper: "upper_80", color: "orange", name: "80% range" }
+];
+
 export function InsightsPage() {
   const [date, setDate] = useState<Date>(new Date());
-  const [activeTab, setActiveTab] = useState<"demand" | "trends" | "inventory" | "customers">("demand");
-  const [dataType, setDataType] = useState<"sales" | "inventory" | "customer">("sales");
+  const [activeTab, setActiveTab] = useState<"demand" | "trends" | "pricing" | "inventory" | "customers">("demand");
+  // Dataset behind the active tab, used to say where its numbers come from
+  const [dataType, setDataType] = useState<DatasetType>("sales");
+  // Product shown on the Demand Forecast tab, or ALL_PRODUCTS for total demand
+  const [forecastProduct, setForecastProduct] = useState<string>(ALL_PRODUCTS);
+  // Store the inventory figures are narrowed to, or ALL_STORES
+  const [inventoryStore, setInventoryStore] = useState<string>(ALL_STORES);
   const [data, setData] = useState<InsightsData | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [bundleOffersOpen, setBundleOffersOpen] = useState(false);
+  const [draftingOrders, setDraftingOrders] = useState(false);
+  const [orderError, setOrderError] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchInsights = async () => {
@@ -174,21 +337,39 @@ export function InsightsPage() {
     };
 
     fetchInsights();
-  }, [dataType]);
+  }, []);
+
+  // Drafts purchase orders from this analysis' reorder recommendations and opens them for review
+  const handleDraftPurchaseOrders = async () => {
+    setDraftingOrders(true);
+    setOrderError(null);
+    try {
+      const response = await fetch("/api/purchase-orders", { method: "POST" });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.error || "Failed to draft purchase orders");
+      }
+      window.location.href = "/dashboard/purchase-orders";
+    } catch (err: unknown) {
+      setOrderError(err instanceof Error ? err.message : "Failed to draft purchase orders");
+      setDraftingOrders(false);
+    }
+  };
 
   const handleTabChange = (value: string) => {
-    const tabValue = value as "demand" | "trends" | "inventory" | "customers";
+    const tabValue = value as "demand" | "trends" | "pricing" | "inventory" | "customers";
     setActiveTab(tabValue);
     switch (tabValue) {
       case "demand":
       case "trends":
+      case "pricing":
         setDataType("sales");
         break;
       case "inventory":
         setDataType("inventory");
         break;
       case "customers":
-        setDataType("customer");
+        setDataType("customers");
         break;
       default:
         setDataType("sales");
@@ -238,7 +419,33 @@ export function InsightsPage() {
     );
   }
 
+  const productForecast = data.productForecasts?.find(item => item.product === forecastProduct);
+
+  const inventoryStores = Array.from(new Set((data.inventoryInsights ?? []).map(item => item.store))).sort();
+  const inStore = (store: string) => inventoryStore === ALL_STORES || store === inventoryStore;
+  const storeInventory = (data.inventoryInsights ?? []).filter(item => inStore(item.store));
+  const storeTransfers = (data.inventoryTransfers ?? []).filter(
+    transfer => inStore(transfer.from_store) || inStore(transfer.to_store)
+  );
+  const storeStockOuts = (data.stockOuts?.events ?? []).filter(event => inStore(event.store)).slice(0, 10);
+  const storeLabel = (item: { store: string; product: string }) =>
+    inventoryStore === ALL_STORES ? `${item.product} (${item.store})` : item.product;
+
   const formatChartData = () => {
+    if (activeTab === "demand" && productForecast) {
+      return [
+        ...productForecast.history.map(item => ({ date: item.date, actual: item.actual })),
+        ...productForecast.predictions.map(item => ({
+          date: item.date,
+          forecast: item.predicted_sales,
+          lower_80: item.lower_80,
+          upper_80: item.upper_80,
+          lower_95: item.lower_95,
+          upper_95: item.upper_95
+        }))
+      ];
+    }
+
     if (activeTab === "demand" && data?.predictions) {
       const historicalData = data.predictions.historical.map(item => ({
         date: item.date,
@@ -249,16 +456,20 @@ export function InsightsPage() {
       const predictionData = data.predictions.forecast.map(item => ({
         date: item.date,
         amount: item.predicted,
-        type: "Predicted"
+        type: "Predicted",
+        lower_80: item.lower_80,
+        upper_80: item.upper_80,
+        lower_95: item.lower_95,
+        upper_95: item.upper_95
       }));
 
       return [...historicalData, ...predictionData];
     }
 
     if (activeTab === "inventory" && data?.inventoryInsights) {
-      return data.inventoryInsights.map(item => ({
-        name: item.product,
-        current: item.metrics.stock_level,
+      return storeInventory.map(item => ({
+        name: storeLabel(item),
+        current: positionAfterTransfers(item.metrics),
         recommended: item.metrics.reorder_point
       }));
     }
@@ -270,24 +481,43 @@ export function InsightsPage() {
     if (!data?.salesAnalysis?.overall_metrics) return {};
 
     const metrics = data.salesAnalysis.overall_metrics;
-    const criticalItems = data.inventoryInsights?.filter(
-      item => item.metrics.stock_level < item.metrics.reorder_point
-    ).length || 0;
+    const criticalItems = storeInventory.filter(item => needsReorder(item.policy, positionAfterTransfers(item.metrics))).length;
 
     return {
       totalSales: metrics.total_revenue,
       monthlyGrowth: metrics.monthly_growth,
       criticalItems,
       avgOrderValue: metrics.average_ticket_size,
-      totalStock: data.inventoryInsights?.reduce(
-        (sum, item) => sum + item.metrics.stock_level, 0
-      ) || 0,
-      totalCustomers: data.customerSegments?.length || 0
+      totalStock: storeInventory.reduce((sum, item) => sum + item.metrics.stock_level, 0),
+      totalCustomers: data.customerSegments?.reduce((sum, segment) => sum + segment.size, 0) || 0
     };
   };
 
   const metrics = getMetrics();
+
+  const segmentUnit = data.customerSegmentation?.unit === "demographic" ? "demographics" : "customers";
+  const tierShare = (tier: string) => (data.customerSegments ?? [])
+    .filter((segment) => segment.segment === tier)
+    .reduce((sum, segment) => sum + segment.share, 0);
+  const topTierShare = data.customerSegments?.length > 0 ? tierShare("High-Value") : null;
   const chartData = formatChartData();
+  const pricingProducts = data.pricing ?? [];
+
+  const getDataSourceNote = () => {
+    const counts = data.datasets ?? { sales: 0, inventory: 0, customers: 0 };
+    switch (dataType) {
+      case "inventory":
+        return counts.inventory > 0
+          ? `Stock levels from ${counts.inventory.toLocaleString()} inventory snapshots, demand from ${counts.sales.toLocaleString()} sales rows.`
+          : "No inventory snapshots uploaded, so stock levels come from the Stock_Level column of your sales data.";
+      case "customers":
+        return counts.customers > 0
+          ? `Segments combine ${counts.sales.toLocaleString()} sales rows with ${counts.customers.toLocaleString()} customer records.`
+          : "No customer records uploaded, so customers are grouped by the demographic recorded on each sale.";
+      default:
+        return `Based on ${counts.sales.toLocaleString()} sales rows.`;
+    }
+  };
 
   const trendsData = data.trends || [
     {
@@ -316,7 +546,7 @@ export function InsightsPage() {
     },
     {
       title: "Increase Profitability",
-      description: "Based on current sales data, consider bundling Coke and Sprite to increase average order value.",
+      description: "Bundle products that are often bought together to increase average order value.",
       items: [
         { name: "Current AOV", value: `P${metrics.avgOrderValue || 35}` },
         { name: "Target AOV", value: `P${(metrics.avgOrderValue || 35) * 1.2}` }
@@ -345,6 +575,8 @@ export function InsightsPage() {
             </SelectContent>
           </Select>
 
+          <StoreSelect stores={inventoryStores} value={inventoryStore} onValueChange={setInventoryStore} />
+
           <Popover>
             <PopoverTrigger asChild>
               <Button variant="outline" className="w-[240px] justify-start text-left font-normal">
@@ -408,33 +640,173 @@ export function InsightsPage() {
       </div>
 
       <Tabs value={activeTab} onValueChange={handleTabChange}>
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="demand">Demand Forecast</TabsTrigger>
           <TabsTrigger value="inventory">Inventory</TabsTrigger>
           <TabsTrigger value="trends">Market Trends</TabsTrigger>
+          <TabsTrigger value="pricing">Pricing</TabsTrigger>
           <TabsTrigger value="customers">Customers</TabsTrigger>
         </TabsList>
 
+        <p className="mt-2 text-sm text-muted-foreground">
+          {getDataSourceNote()}
+          {dataType !== "sales" && !data.datasets?.[dataType] && (
+            <a href="/dashboard/upload" className="ml-1 text-blue-600 hover:underline">Upload them</a>
+          )}
+        </p>
+
         <TabsContent value="demand" className="space-y-4">
           <Card>
             <CardHeader className="pb-2">
-              <CardTitle className="text-lg">Product Demand Forecast</CardTitle>
-              <CardDescription>
-                Projected demand for the next 30 days based on historical data and market trends
-              </CardDescription>
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <CardTitle className="text-lg">Product Demand Forecast</CardTitle>
+                  <CardDescription>
+                    Projected demand for the next 30 days based on historical data and market trends
+                  </CardDescription>
+                  {!productForecast && data.predictions?.model && (
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {FORECAST_MODEL_LABELS[data.predictions.model]}, chosen as the most accurate over the
+                      last {data.predictions.backtest_days} days. Paydays
+                      ×{data.predictions.calendar_effects.payday.toFixed(2)}, holidays
+                      ×{data.predictions.calendar_effects.holiday.toFixed(2)} of a normal day.
+                      {" "}<a href="/dashboard/settings" className="text-blue-600 hover:underline">Edit calendar</a>
+                    </p>
+                  )}
+                </div>
+                <Select value={forecastProduct} onValueChange={setForecastProduct}>
+                  <SelectTrigger className="w-full sm:w-[220px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_PRODUCTS}>All products</SelectItem>
+                    {data.productForecasts?.map((item) => (
+                      <SelectItem key={item.product} value={item.product}>{item.product}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </CardHeader>
             <CardContent className="h-80">
-              <LineChart
-                data={chartData}
-                index="date"
-                categories={["amount"]}
-                colors={["blue"]}
-                valueFormatter={(value) => `P${value.toFixed(2)}`}
-                className="h-full"
-              />
+              {productForecast ? (
+                <LineChart
+                  data={chartData}
+                  index="date"
+                  categories={["actual", "forecast"]}
+                  colors={["blue", "orange"]}
+                  bands={FORECAST_BANDS}
+                  valueFormatter={(value) => `${value.toFixed(0)} units`}
+                  className="h-full"
+                />
+              ) : (
+                <LineChart
+                  data={chartData}
+                  index="date"
+                  categories={["amount"]}
+                  colors={["blue"]}
+                  valueFormatter={(value) => `P${value.toFixed(2)}`}
+                  bands={FORECAST_BANDS}
+                  className="h-full"
+                />
+              )}
             </CardContent>
           </Card>
 
+          {productForecast && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Forecast Accuracy</CardTitle>
+                  <CardDescription>
+                    {BACKTEST_MODEL_LABELS[productForecast.model]} fitted on {productForecast.model_metrics.training_days} days,
+                    tested on the last {productForecast.model_metrics.holdout_days} days of sales.
+                    {" "}<a href="/dashboard/accuracy" className="text-blue-600 hover:underline">Compare models</a>
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 gap-4">
+                    {[
+                      { label: "MAE", value: `${productForecast.model_metrics.mae.toFixed(1)} units` },
+                      { label: "RMSE", value: `${productForecast.model_metrics.rmse.toFixed(1)} units` },
+                      { label: "MSE", value: productForecast.model_metrics.mse.toFixed(1) },
+                      {
+                        label: "R²",
+                        value: productForecast.model_metrics.r2 === null ? "—" : productForecast.model_metrics.r2.toFixed(2)
+                      },
+                    ].map((metric) => (
+                      <div key={metric.label}>
+                        <div className="text-2xl font-bold">{metric.value}</div>
+                        <p className="text-xs text-muted-foreground">{metric.label}</p>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">What Drives {productForecast.product} Sales</CardTitle>
+                  <CardDescription>Strength of each factor&apos;s link with units sold</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {productForecast.model_metrics.feature_importance.map((item) => (
+                    <div key={item.feature} className="flex items-center justify-between text-sm">
+                      <span>{item.feature.replace(/_/g, " ")}</span>
+                      <span className="font-medium">{(item.importance * 100).toFixed(0)}%</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {!productForecast && data.demandModel && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Demand Model Accuracy</CardTitle>
+                  <CardDescription>
+                    Neural network trained on {data.demandModel.training_rows} sales rows, tested on the
+                    latest {data.demandModel.test_rows} rows
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-3 gap-4">
+                    {[
+                      { label: "MAE", value: `${data.demandModel.metrics.mae.toFixed(1)} units` },
+                      { label: "RMSE", value: `${data.demandModel.metrics.rmse.toFixed(1)} units` },
+                      {
+                        label: "R²",
+                        value: data.demandModel.metrics.r2 === null ? "—" : data.demandModel.metrics.r2.toFixed(2)
+                      },
+                    ].map((metric) => (
+                      <div key={metric.label}>
+                        <div className="text-2xl font-bold">{metric.value}</div>
+                        <p className="text-xs text-muted-foreground">{metric.label}</p>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="mt-4 text-xs text-muted-foreground">
+                    Trained {format(new Date(data.demandModel.trained_at), "dd MMM yyyy HH:mm")}; retrained when your data changes.
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">What Drives Demand</CardTitle>
+                  <CardDescription>How much the model&apos;s accuracy depends on each factor</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {data.demandModel.feature_importance.map((item) => (
+                    <div key={item.feature} className="flex items-center justify-between text-sm">
+                      <span>{item.feature.replace(/_/g, " ")}</span>
+                      <span className="font-medium">{(item.importance * 100).toFixed(0)}%</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             {data.topProducts?.map((product: TopProduct, index: number) => (
               <Card key={index}>
@@ -463,7 +835,8 @@ export function InsightsPage() {
             <CardHeader className="pb-2">
               <CardTitle className="text-lg">Inventory Recommendations</CardTitle>
               <CardDescription>
-                Current stock levels compared to recommended levels based on demand forecast
+                Stock position in each store, on hand plus on order and planned transfers, compared to its reorder
+                point, based on demand forecast
               </CardDescription>
             </CardHeader>
             <CardContent className="h-80">
@@ -489,24 +862,26 @@ export function InsightsPage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {data?.inventoryInsights
-                    ?.filter(item => item.metrics.stock_level < item.metrics.reorder_point)
+                  {storeInventory
+                    .filter(item => needsReorder(item.policy, positionAfterTransfers(item.metrics)))
                     .map((item, index) => (
                       <div key={index} className="flex items-center justify-between">
                         <div className="flex items-center">
                           <Package className="mr-2 h-4 w-4 text-red-500" />
-                          <span>{item.product}</span>
+                          <span>{storeLabel(item)}</span>
                         </div>
                         <div className="text-sm font-medium">
-                          {item.metrics.stock_level} units
+                          {positionAfterTransfers(item.metrics)} units
                           <span className="text-red-500">
-                            {` (Need ${item.metrics.reorder_point - item.metrics.stock_level} more)`}
+                            {` (Order ${item.reorder_quantity})`}
                           </span>
                         </div>
                       </div>
                     ))}
                 </div>
-                <Button className="mt-4 w-full">Order Inventory</Button>
+                <Button className="mt-4 w-full" onClick={handleDraftPurchaseOrders} disabled={draftingOrders}>
+                  {draftingOrders ? "Drafting orders..." : "Order Inventory"}
+                </Button>
               </CardContent>
             </Card>
 
@@ -519,24 +894,172 @@ export function InsightsPage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {data.needsReorder?.map((item: ReorderItem, index: number) => (
+                  {data.needsReorder?.filter((item: ReorderItem) => inStore(item.store)).map((item: ReorderItem, index: number) => (
                     <div key={index} className="flex items-center justify-between">
                       <div className="flex items-center">
                         <Package className="mr-2 h-4 w-4 text-yellow-500" />
-                        <span>{item.name}</span>
+                        <span>{storeLabel({ store: item.store, product: item.name })}</span>
                       </div>
                       <div className="text-sm font-medium">
                         Order {item.recommendedOrder} units
+                        <span className="text-muted-foreground">{` from ${item.supplier}`}</span>
                       </div>
                     </div>
                   ))}
                 </div>
-                <Button variant="outline" className="mt-4 w-full">
-                  Generate Purchase Order
+                {orderError && <p className="mt-4 text-sm text-red-600">{orderError}</p>}
+                <Button variant="outline" className="mt-4 w-full" onClick={handleDraftPurchaseOrders} disabled={draftingOrders}>
+                  {draftingOrders ? "Drafting orders..." : "Generate Purchase Order"}
                 </Button>
               </CardContent>
             </Card>
           </div>
+
+          {storeTransfers.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Transfers Between Stores</CardTitle>
+                <CardDescription>
+                  Surplus stock that covers another store&apos;s shortfall, so it can be moved before anything is reordered.
+                  Each sending store keeps enough to stay above its own reorder point.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>From</TableHead>
+                      <TableHead>To</TableHead>
+                      <TableHead className="text-right">Units</TableHead>
+                      <TableHead className="text-right">Cover after</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {storeTransfers.map((transfer) => (
+                      <TableRow key={`${transfer.product}:${transfer.from_store}:${transfer.to_store}`}>
+                        <TableCell className="font-medium">{transfer.product}</TableCell>
+                        <TableCell>{transfer.from_store}</TableCell>
+                        <TableCell>{transfer.to_store}</TableCell>
+                        <TableCell className="text-right">{transfer.units}</TableCell>
+                        <TableCell className="text-right">
+                          {transfer.to_days_of_cover !== null ? `${transfer.to_days_of_cover} days` : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {storeStockOuts.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Stock-outs</CardTitle>
+                <CardDescription>
+                  Days a store ran out, so sales stopped at what was on the shelf. Lost sales are estimated from the same
+                  weekday in surrounding weeks with stock, and added back to demand before forecasting.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Sold</TableHead>
+                      <TableHead className="text-right">Expected</TableHead>
+                      <TableHead className="text-right">Lost revenue</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {storeStockOuts.map((event) => (
+                      <TableRow key={`${event.store}:${event.product}:${event.date}`}>
+                        <TableCell className="font-medium">{storeLabel(event)}</TableCell>
+                        <TableCell>{event.date}</TableCell>
+                        <TableCell className="text-right">{event.units_sold}</TableCell>
+                        <TableCell className="text-right">{event.expected_units ?? "—"}</TableCell>
+                        <TableCell className="text-right">
+                          {event.expected_units !== null ? `BWP ${event.lost_revenue.toLocaleString()}` : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Recommended Stock Policies</CardTitle>
+              <CardDescription>
+                When to reorder and how much, from forecast demand, how much it varies, and how long and how reliably
+                suppliers deliver. <a href="/dashboard/settings" className="text-blue-600 hover:underline">Change costs and service levels</a>
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Store</TableHead>
+                    <TableHead>Policy</TableHead>
+                    <TableHead className="text-right">Demand/day</TableHead>
+                    <TableHead className="text-right">Lead time</TableHead>
+                    <TableHead className="text-right">Position</TableHead>
+                    <TableHead className="text-right">Days of cover</TableHead>
+                    <TableHead className="text-right">Safety stock</TableHead>
+                    <TableHead className="text-right">Reorder at</TableHead>
+                    <TableHead className="text-right">Order</TableHead>
+                    <TableHead className="text-right">Cost/year</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {storeInventory.filter((item) => item.policy).map((item) => (
+                    <TableRow key={`${item.store}:${item.product}`}>
+                      <TableCell>
+                        <div className="font-medium">{item.product}</div>
+                        <div className="text-xs text-muted-foreground">{item.recommendations?.[0]}</div>
+                      </TableCell>
+                      <TableCell>{item.store}</TableCell>
+                      <TableCell>
+                        <div>{INVENTORY_POLICY_LABELS[item.policy.policy]}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {(item.policy.service_level * 100).toFixed(1)}% service
+                          {item.policy.review_days !== null && `, every ${item.policy.review_days} days`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.metrics.forecast_daily_demand.toFixed(1)}
+                        <div className="text-xs text-muted-foreground">{item.metrics.demand_source}</div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.metrics.lead_time.toFixed(1)} ± {item.metrics.lead_time_spread.toFixed(1)} days
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.metrics.stock_position}
+                        {item.metrics.on_order > 0 && (
+                          <div className="text-xs text-muted-foreground">{item.metrics.on_order} on order</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.metrics.stock_coverage !== null ? item.metrics.stock_coverage.toFixed(1) : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">{item.policy.safety_stock}</TableCell>
+                      <TableCell className="text-right">{item.policy.reorder_point}</TableCell>
+                      <TableCell className="text-right">
+                        {item.policy.order_up_to !== null ? `Up to ${item.policy.order_up_to}` : item.policy.order_quantity}
+                        {item.policy.moq > 0 && <div className="text-xs text-muted-foreground">MOQ {item.policy.moq}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">P{item.policy.annual_cost.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="trends" className="space-y-4">
@@ -598,6 +1121,73 @@ export function InsightsPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="pricing" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Price Position & Elasticity</CardTitle>
+              <CardDescription>
+                Your prices against the competition&apos;s, and how much each product&apos;s daily sales move when its
+                price changes. An elasticity of -1.5 means a 1% price rise sells about 1.5% fewer units.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {pricingProducts.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Our price</TableHead>
+                      <TableHead className="text-right">Competition</TableHead>
+                      <TableHead className="text-right">Price index</TableHead>
+                      <TableHead className="text-right">Elasticity</TableHead>
+                      <TableHead>What it means</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pricingProducts.map((item) => (
+                      <TableRow key={item.product}>
+                        <TableCell className="font-medium">{item.product}</TableCell>
+                        <TableCell className="text-right">P{item.current_price.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">P{item.competition_price.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          {item.price_index !== null ? (
+                            <Badge variant={item.price_index > 105 ? "destructive" : "outline"}>{item.price_index.toFixed(0)}</Badge>
+                          ) : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {item.elasticity !== null ? (
+                            <>
+                              <span className={item.reliable ? "font-medium" : "text-muted-foreground"}>
+                                {item.elasticity.toFixed(2)}
+                              </span>
+                              {item.elasticity_low !== null && item.elasticity_high !== null && (
+                                <div className="text-xs text-muted-foreground">
+                                  {item.elasticity_low.toFixed(2)} to {item.elasticity_high.toFixed(2)}
+                                </div>
+                              )}
+                            </>
+                          ) : "—"}
+                        </TableCell>
+                        <TableCell className="max-w-xs text-sm text-muted-foreground">
+                          {item.elasticity !== null && item.reliable ? describeElasticity(item.elasticity) : item.note}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground">Upload sales data to compare your prices.</p>
+              )}
+              <p className="mt-4 text-xs text-muted-foreground">
+                Price index is our price as a percentage of the competition&apos;s. Elasticities come from a log-log
+                regression of daily units on both prices, with promotion days held apart; the small print is the 95% range.
+              </p>
+            </CardContent>
+          </Card>
+
+          <PriceSimulator products={pricingProducts.filter((item) => item.elasticity !== null)} />
+        </TabsContent>
+
         <TabsContent value="customers" className="space-y-4">
           <Card>
             <CardHeader>
@@ -606,21 +1196,78 @@ export function InsightsPage() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {[
-                  { name: "Tshepiso N.", purchases: 8, spent: 1280 },
-                  { name: "Masego U.", purchases: 6, spent: 950 },
-                  { name: "Rorisang X.", purchases: 5, spent: 800 },
-                  { name: "Sebusi V.", purchases: 4, spent: 640 },
-                  { name: "Puso R.", purchases: 3, spent: 460 }
-                ].map((customer, index) => (
-                  <div key={index} className="flex items-center justify-between p-2 border-b">
-                    <div>
-                      <div className="font-medium">{customer.name}</div>
-                      <div className="text-sm text-muted-foreground">{customer.purchases} purchases</div>
+                {data.topCustomers && data.topCustomers.length > 0 ? (
+                  data.topCustomers.map((customer) => (
+                    <div key={customer.id} className="flex items-center justify-between p-2 border-b">
+                      <div>
+                        <div className="font-medium">{customer.id}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {customer.demographic} · {customer.transactions} purchases · last on {customer.last_purchase}
+                        </div>
+                      </div>
+                      <div className="text-lg font-bold">P{customer.spend.toFixed(2)}</div>
                     </div>
-                    <div className="text-lg font-bold">P{customer.spent}</div>
-                  </div>
-                ))}
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Upload customer records to see your most valuable customers.
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Customer Segments</CardTitle>
+              <CardDescription>
+                {data.customerSegmentation
+                  ? `${data.customerSegmentation.unit === "customer" ? "Customers" : "Demographics"} scored 1-5 on recency, frequency and spend, grouped into ${data.customerSegmentation.k} segments${
+                    data.customerSegmentation.chosen_by === "silhouette" ? " (the most distinct split)" : ""
+                  }`
+                  : "Recency, frequency and spend of your customers"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {data.customerSegments?.length > 0 ? (
+                  data.customerSegments.map((segment) => (
+                    <div key={segment.cluster} className="space-y-2 border-b pb-4 last:border-0">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <div className="font-medium">{segment.name}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {segment.size} {segmentUnit} ({(segment.share * 100).toFixed(0)}%) · {segment.demographic}
+                          </div>
+                        </div>
+                        <Badge variant={segment.segment === "High-Value" ? "default" : segment.segment === "Mid-Value" ? "secondary" : "outline"}>
+                          {segment.segment}
+                        </Badge>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2 text-sm">
+                        <div>Recency <span className="font-medium">{segment.rfm.recency.toFixed(1)}</span> · {segment.metrics.recency}</div>
+                        <div>Frequency <span className="font-medium">{segment.rfm.frequency.toFixed(1)}</span> · {segment.metrics.frequency.toFixed(0)} purchases</div>
+                        <div>Spend <span className="font-medium">{segment.rfm.monetary.toFixed(1)}</span> · P{segment.metrics.monetary.toFixed(2)}</div>
+                      </div>
+                      <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                        {segment.recommendations.slice(0, 2).map((recommendation) => (
+                          <li key={recommendation}>{recommendation}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground">No segment data available.</p>
+                )}
+                {data.customerSegmentation && data.customerSegmentation.candidates.length > 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    Separation by number of segments (silhouette, higher is better):{" "}
+                    {data.customerSegmentation.candidates
+                      .map((candidate) => `${candidate.k}: ${candidate.silhouette.toFixed(2)}`)
+                      .join(", ")}
+                    . <a href="/dashboard/settings" className="text-blue-600 hover:underline">Change segments</a>
+                  </p>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -638,21 +1285,17 @@ export function InsightsPage() {
                     <h3 className="font-medium text-blue-800">Customer Segmentation</h3>
                   </div>
                   <p className="mt-2 text-sm text-blue-700">
-                    Based on purchase history, 20% of your customers generate 80% of your revenue.
+                    {topTierShare !== null
+                      ? `Your high-value ${segmentUnit} are ${(topTierShare * 100).toFixed(0)}% of the total.`
+                      : "Upload sales or customer records to segment your customers."}
                   </p>
                   <div className="mt-3 grid grid-cols-3 gap-2">
-                    <div className="rounded bg-blue-100 p-2 text-center">
-                      <div className="text-xs text-blue-700">High Value</div>
-                      <div className="text-lg font-bold text-blue-800">20%</div>
-                    </div>
-                    <div className="rounded bg-blue-100 p-2 text-center">
-                      <div className="text-xs text-blue-700">Mid Value</div>
-                      <div className="text-lg font-bold text-blue-800">35%</div>
-                    </div>
-                    <div className="rounded bg-blue-100 p-2 text-center">
-                      <div className="text-xs text-blue-700">Low Value</div>
-                      <div className="text-lg font-bold text-blue-800">45%</div>
-                    </div>
+                    {VALUE_TIERS.map((tier) => (
+                      <div key={tier} className="rounded bg-blue-100 p-2 text-center">
+                        <div className="text-xs text-blue-700">{tier.replace("-", " ")}</div>
+                        <div className="text-lg font-bold text-blue-800">{(tierShare(tier) * 100).toFixed(0)}%</div>
+                      </div>
+                    ))}
                   </div>
                 </div>
 
@@ -662,9 +1305,11 @@ export function InsightsPage() {
                     <h3 className="font-medium text-green-800">Growth Opportunity</h3>
                   </div>
                   <p className="mt-2 text-sm text-green-700">
-                    Increase average order value by 15% through cross-selling Maize Flour with beverages.
+                    Raise average order value by bundling products your customers already buy together.
                   </p>
-                  <Button className="mt-3 bg-green-600 hover:bg-green-700">Create Bundle Offers</Button>
+                  <Button className="mt-3 bg-green-600 hover:bg-green-700" onClick={() => setBundleOffersOpen(true)}>
+                    Create Bundle Offers
+                  </Button>
                 </div>
               </div>
             </CardContent>
@@ -696,12 +1341,24 @@ export function InsightsPage() {
                     </li>
                   ))}
                 </ul>
-                <Button className="mt-4 bg-blue-600 hover:bg-blue-700">{recommendation.action}</Button>
+                <Button
+                  className="mt-4 bg-blue-600 hover:bg-blue-700"
+                  onClick={
+                    recommendation.action === "Create Bundle"
+                      ? () => setBundleOffersOpen(true)
+                      : recommendation.action === "Order Inventory" ? handleDraftPurchaseOrders : undefined
+                  }
+                  disabled={recommendation.action === "Order Inventory" && draftingOrders}
+                >
+                  {recommendation.action === "Order Inventory" && draftingOrders ? "Drafting orders..." : recommendation.action}
+                </Button>
               </div>
             ))}
           </div>
         </CardContent>
       </Card>
+
+      <BundleOffersDialog open={bundleOffersOpen} onOpenChange={setBundleOffersOpen} />
     </div>
   );
 }
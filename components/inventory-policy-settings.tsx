@@ -0,0 +1,344 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import axios from "axios"
+import { Check, X } from "lucide-react"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table"
+import {
+  DEFAULT_INVENTORY_SETTINGS,
+  INVENTORY_POLICY_LABELS,
+  MAX_REVIEW_DAYS,
+  MAX_SERVICE_LEVEL,
+  MIN_SERVICE_LEVEL,
+  type InventoryOverride,
+  type InventoryOverrideScope,
+  type InventoryParameters,
+  type InventoryPolicyType,
+  type InventorySettings
+} from "@/lib/ml/inventory-policy"
+
+// Radix Select cannot hold undefined, so "use the default policy" gets its own value
+const INHERIT = "inherit"
+
+// Service levels are edited as percentages and stored as fractions
+const toPercent = (value: number) => Math.round(value * 1000) / 10
+
+// An empty box means "not set", so an override falls back to its category or the defaults
+const optionalNumber = (value: string) => (value === "" ? undefined : Number(value))
+
+export function InventoryPolicySettings() {
+  const [settings, setSettings] = useState<InventorySettings>(DEFAULT_INVENTORY_SETTINGS)
+  const [categories, setCategories] = useState<string[]>([])
+  const [products, setProducts] = useState<string[]>([])
+  const [newScope, setNewScope] = useState<InventoryOverrideScope>("category")
+  const [newName, setNewName] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [isSaved, setIsSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const res = await axios.get('/api/settings/inventory')
+        setSettings(res.data.inventoryPolicy)
+        setCategories(res.data.categories ?? [])
+        setProducts(res.data.products ?? [])
+      } catch (err) {
+        console.error("Failed to fetch inventory settings", err)
+        setError("Failed to fetch inventory settings.")
+      }
+    }
+
+    fetchSettings()
+  }, [])
+
+  const setDefaults = (changes: Partial<InventoryParameters>) => {
+    setSettings(current => ({ ...current, defaults: { ...current.defaults, ...changes } }))
+  }
+
+  const setOverride = (index: number, changes: Partial<InventoryOverride>) => {
+    setSettings(current => ({
+      ...current,
+      overrides: current.overrides.map((override, i) => (i === index ? { ...override, ...changes } : override))
+    }))
+  }
+
+  const addOverride = () => {
+    if (!newName) return
+    setSettings(current => ({
+      ...current,
+      overrides: current.overrides.some(item => item.scope === newScope && item.name === newName)
+        ? current.overrides
+        : [...current.overrides, { scope: newScope, name: newName }]
+    }))
+    setNewName("")
+  }
+
+  const removeOverride = (index: number) => {
+    setSettings(current => ({ ...current, overrides: current.overrides.filter((_, i) => i !== index) }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setIsSaved(false)
+    setError(null)
+    try {
+      const res = await axios.put('/api/settings/inventory', { inventoryPolicy: settings })
+      setSettings(res.data.inventoryPolicy)
+      setIsSaved(true)
+      setTimeout(() => setIsSaved(false), 3000)
+    } catch (err) {
+      console.error("Failed to save inventory settings", err)
+      setError("Failed to update inventory settings.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const { defaults } = settings
+  const names = newScope === "category" ? categories : products
+
+  return (
+    <div className="space-y-4">
+      {isSaved && (
+        <Alert className="bg-green-50 border-green-200">
+          <Check className="h-4 w-4 text-green-600" />
+          <AlertDescription className="text-green-800">
+            Your inventory settings have been saved. Stock policies will be recalculated from your next visit to Insights.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stock Policy Defaults</CardTitle>
+          <CardDescription>
+            Used for every product unless its category or the product itself has its own settings below.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Policy</Label>
+              <Select value={defaults.policy} onValueChange={(value) => setDefaults({ policy: value as InventoryPolicyType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(INVENTORY_POLICY_LABELS).map(([policy, label]) => (
+                    <SelectItem key={policy} value={policy}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="service-level">Service Level (%)</Label>
+              <Input
+                id="service-level"
+                type="number"
+                min={MIN_SERVICE_LEVEL * 100}
+                max={MAX_SERVICE_LEVEL * 100}
+                step={0.5}
+                value={toPercent(defaults.serviceLevel)}
+                onChange={(e) => setDefaults({ serviceLevel: Number(e.target.value) / 100 })}
+              />
+            </div>
+            {defaults.policy === "RS" && (
+              <div className="space-y-2">
+                <Label htmlFor="review-days">Review Every (days)</Label>
+                <Input
+                  id="review-days"
+                  type="number"
+                  min={1}
+                  max={MAX_REVIEW_DAYS}
+                  value={defaults.reviewDays}
+                  onChange={(e) => setDefaults({ reviewDays: Number(e.target.value) })}
+                />
+              </div>
+            )}
+          </div>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="holding-cost">Holding Cost (BWP per unit per year)</Label>
+              <Input
+                id="holding-cost"
+                type="number"
+                min={0}
+                value={defaults.holdingCost}
+                onChange={(e) => setDefaults({ holdingCost: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ordering-cost">Ordering Cost (BWP per order)</Label>
+              <Input
+                id="ordering-cost"
+                type="number"
+                min={0}
+                value={defaults.orderingCost}
+                onChange={(e) => setDefaults({ orderingCost: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="moq">Minimum Order Quantity</Label>
+              <Input
+                id="moq"
+                type="number"
+                min={0}
+                value={defaults.moq}
+                onChange={(e) => setDefaults({ moq: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            The service level is the chance of not running out while waiting for a delivery. Order quantities balance
+            ordering and holding costs, and are raised to the minimum order quantity when smaller.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Category and Product Settings</CardTitle>
+          <CardDescription>Leave a box empty to use the category&apos;s or the default value.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Select value={newScope} onValueChange={(value) => { setNewScope(value as InventoryOverrideScope); setNewName("") }}>
+              <SelectTrigger className="sm:w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="category">Category</SelectItem>
+                <SelectItem value="product">Product</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={newName} onValueChange={setNewName}>
+              <SelectTrigger className="sm:w-[260px]">
+                <SelectValue placeholder={`Choose a ${newScope}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {names.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={addOverride} disabled={!newName}>Add</Button>
+          </div>
+
+          {settings.overrides.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Service %</TableHead>
+                  <TableHead>Holding</TableHead>
+                  <TableHead>Ordering</TableHead>
+                  <TableHead>MOQ</TableHead>
+                  <TableHead>Review days</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {settings.overrides.map((override, index) => (
+                  <TableRow key={`${override.scope}:${override.name}`}>
+                    <TableCell>
+                      <Badge variant="outline" className="mr-2 capitalize">{override.scope}</Badge>
+                      {override.name}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={override.policy ?? INHERIT}
+                        onValueChange={(value) => setOverride(index, {
+                          policy: value === INHERIT ? undefined : value as InventoryPolicyType
+                        })}
+                      >
+                        <SelectTrigger className="w-[120px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={INHERIT}>Default</SelectItem>
+                          <SelectItem value="sQ">(s,Q)</SelectItem>
+                          <SelectItem value="RS">(R,S)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        className="w-20"
+                        placeholder={String(toPercent(defaults.serviceLevel))}
+                        value={override.serviceLevel === undefined ? "" : toPercent(override.serviceLevel)}
+                        onChange={(e) => {
+                          const percent = optionalNumber(e.target.value)
+                          setOverride(index, { serviceLevel: percent === undefined ? undefined : percent / 100 })
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        className="w-20"
+                        placeholder={String(defaults.holdingCost)}
+                        value={override.holdingCost ?? ""}
+                        onChange={(e) => setOverride(index, { holdingCost: optionalNumber(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        className="w-20"
+                        placeholder={String(defaults.orderingCost)}
+                        value={override.orderingCost ?? ""}
+                        onChange={(e) => setOverride(index, { orderingCost: optionalNumber(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        className="w-20"
+                        placeholder={String(defaults.moq)}
+                        value={override.moq ?? ""}
+                        onChange={(e) => setOverride(index, { moq: optionalNumber(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        className="w-20"
+                        placeholder={String(defaults.reviewDays)}
+                        value={override.reviewDays ?? ""}
+                        onChange={(e) => setOverride(index, { reviewDays: optionalNumber(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => removeOverride(index)} aria-label={`Remove ${override.name}`}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>{saving ? "Saving..." : "Save Inventory Settings"}</Button>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import axios from "axios"
+import { format } from "date-fns"
+import { Play, Trophy } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table"
+import {
+  BACKTEST_MODEL_LABELS,
+  type BacktestModel,
+  type Leaderboard,
+  type ModelScore,
+  type SeriesBacktest
+} from "@/lib/ml/backtesting"
+
+interface ForecastSources {
+  total: BacktestModel | null
+  products: Array<{ product: string; model: BacktestModel }>
+  updatedAt: string
+}
+
+const formatScore = (value: number | null | undefined, suffix = "") =>
+  value === null || value === undefined ? "—" : `${value.toFixed(2)}${suffix}`
+
+const formatBias = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(1)}`
+
+function ScoreCells({ score }: { score: ModelScore | undefined }) {
+  return (
+    <>
+      <TableCell className="text-right">{formatScore(score?.mase)}</TableCell>
+      <TableCell className="text-right">{formatScore(score?.mape, "%")}</TableCell>
+      <TableCell className="text-right">{formatScore(score?.smape, "%")}</TableCell>
+      <TableCell className="text-right">{score ? formatBias(score.bias) : "—"}</TableCell>
+    </>
+  )
+}
+
+function SeriesTable({
+  series,
+  label,
+  forecastModelOf
+}: {
+  series: SeriesBacktest[]
+  label: string
+  // The model the app currently forecasts this series with, when it forecasts it at all
+  forecastModelOf: (series: SeriesBacktest) => BacktestModel | null
+}) {
+  if (series.length === 0) {
+    return <p className="text-sm text-muted-foreground">Not enough history to backtest any {label.toLowerCase()}.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead>Forecast from</TableHead>
+          <TableHead className="text-right">MASE</TableHead>
+          <TableHead>Best model</TableHead>
+          <TableHead className="text-right">MASE</TableHead>
+          <TableHead className="text-right">MAPE</TableHead>
+          <TableHead className="text-right">sMAPE</TableHead>
+          <TableHead className="text-right">Bias (units/day)</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {series.map((item) => {
+          const forecastModel = forecastModelOf(item)
+          const forecastScore = item.scores.find(score => score.model === forecastModel)
+          const best = item.scores[0]
+          return (
+            <TableRow key={`${item.level}-${item.key}`}>
+              <TableCell className="font-medium">{item.key}</TableCell>
+              <TableCell>
+                {forecastModel ? (
+                  <Badge variant={forecastModel === item.best ? "default" : "outline"}>
+                    {BACKTEST_MODEL_LABELS[forecastModel]}
+                  </Badge>
+                ) : (
+                  <span className="text-muted-foreground">Not forecast</span>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{formatScore(forecastScore?.mase)}</TableCell>
+              <TableCell>{best ? BACKTEST_MODEL_LABELS[best.model] : "—"}</TableCell>
+              <ScoreCells score={best} />
+            </TableRow>
+          )
+        })}
+      </TableBody>
+    </Table>
+  )
+}
+
+export function ModelAccuracyPage() {
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null)
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null)
+  const [forecasts, setForecasts] = useState<ForecastSources | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchLeaderboard()
+  }, [])
+
+  const fetchLeaderboard = async () => {
+    setLoading(true)
+    try {
+      const res = await axios.get('/api/backtest')
+      setLeaderboard(res.data.leaderboard)
+      setUpdatedAt(res.data.updatedAt)
+      setForecasts(res.data.forecasts)
+    } catch (err) {
+      console.error("Failed to fetch model accuracy", err)
+      setError("Failed to load model accuracy.")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runBacktest = async () => {
+    setRunning(true)
+    setError(null)
+    try {
+      const res = await axios.post('/api/backtest')
+      setLeaderboard(res.data.leaderboard)
+      setUpdatedAt(res.data.updatedAt)
+    } catch (err) {
+      const details = axios.isAxiosError(err) ? err.response?.data : undefined
+      console.error("Failed to run backtest", err)
+      setError(details?.message ?? "Failed to run the backtest.")
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const productModels = new Map((forecasts?.products ?? []).map(item => [item.product, item.model]))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Model Accuracy</h1>
+          <p className="text-muted-foreground">
+            How well each forecasting model would have predicted your own sales, week by week.
+          </p>
+        </div>
+        <Button onClick={runBacktest} disabled={running}>
+          <Play className="mr-2 h-4 w-4" />
+          {running ? "Running backtest..." : leaderboard ? "Re-run Backtest" : "Run Backtest"}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading model accuracy...</p>
+      ) : !leaderboard ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>No backtest yet</CardTitle>
+            <CardDescription>
+              Run a backtest to replay your sales history through every model. Each model is refitted on an
+              expanding window of history and scored on the week that followed, several times over.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Leaderboard</CardTitle>
+              <CardDescription>
+                Averaged over your top products and stores:{" "}
+                {leaderboard.minFolds === leaderboard.maxFolds
+                  ? leaderboard.maxFolds
+                  : `${leaderboard.minFolds}-${leaderboard.maxFolds}`} rolling origins, each
+                forecasting {leaderboard.horizonDays} days ahead.
+                {updatedAt && ` Last run ${format(new Date(updatedAt), "dd MMM yyyy HH:mm")}.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead className="text-right">Mean MASE</TableHead>
+                    <TableHead className="text-right">Mean sMAPE</TableHead>
+                    <TableHead className="text-right">Mean bias (units/day)</TableHead>
+                    <TableHead className="text-right">Most accurate for</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leaderboard.models.map((entry, i) => (
+                    <TableRow key={entry.model}>
+                      <TableCell>{i === 0 ? <Trophy className="h-4 w-4 text-yellow-500" /> : i + 1}</TableCell>
+                      <TableCell className="font-medium">{BACKTEST_MODEL_LABELS[entry.model]}</TableCell>
+                      <TableCell className="text-right">{formatScore(entry.meanMase)}</TableCell>
+                      <TableCell className="text-right">{formatScore(entry.meanSmape, "%")}</TableCell>
+                      <TableCell className="text-right">{formatBias(entry.meanBias)}</TableCell>
+                      <TableCell className="text-right">{entry.wins} of {entry.series}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="mt-4 text-xs text-muted-foreground">
+                MASE below 1 beats simply repeating the same weekday from last week. MAPE skips days without
+                sales. Positive bias means the model forecasts too high.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Where Each Forecast Comes From</CardTitle>
+              <CardDescription>
+                The model behind each forecast you see in Insights, next to the model that tested best.
+                {!forecasts && " Open Insights to generate forecasts."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="products">
+                <TabsList>
+                  <TabsTrigger value="products">Products</TabsTrigger>
+                  <TabsTrigger value="stores">Stores</TabsTrigger>
+                </TabsList>
+                <TabsContent value="products">
+                  <SeriesTable
+                    series={leaderboard.total ? [leaderboard.total, ...leaderboard.products] : leaderboard.products}
+                    label="Product"
+                    forecastModelOf={(series) =>
+                      series.level === "total" ? forecasts?.total ?? null : productModels.get(series.key) ?? null
+                    }
+                  />
+                </TabsContent>
+                <TabsContent value="stores">
+                  <SeriesTable series={leaderboard.stores} label="Store" forecastModelOf={() => null} />
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
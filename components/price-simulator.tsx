@@ -0,0 +1,144 @@
+"use client"
+
+import { useState } from "react"
+import { AlertTriangle } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { simulatePrice, type ProductPricing } from "@/lib/ml/pricing"
+
+interface PriceSimulatorProps {
+  // Only products with an elasticity estimate can be simulated
+  products: ProductPricing[]
+}
+
+const formatChange = (change: number) => `${change >= 0 ? "+" : ""}${(change * 100).toFixed(1)}%`
+
+export function PriceSimulator({ products }: PriceSimulatorProps) {
+  const [productName, setProductName] = useState(products[0]?.product ?? "")
+  const pricing = products.find(item => item.product === productName) ?? products[0]
+  const [price, setPrice] = useState(pricing ? String(pricing.current_price) : "")
+  const [competitionPrice, setCompetitionPrice] = useState(pricing ? String(pricing.competition_price) : "")
+
+  if (!pricing || pricing.elasticity === null) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>What-if Price Simulator</CardTitle>
+          <CardDescription>
+            No product has enough price changes in its history to estimate how sales respond to price.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  const selectProduct = (name: string) => {
+    const next = products.find(item => item.product === name)
+    setProductName(name)
+    if (next) {
+      setPrice(String(next.current_price))
+      setCompetitionPrice(String(next.competition_price))
+    }
+  }
+
+  const proposedPrice = Number(price)
+  const proposedCompetitionPrice = Number(competitionPrice)
+  const valid = proposedPrice > 0 && proposedCompetitionPrice >= 0
+  const simulation = valid
+    ? simulatePrice(
+        { price: pricing.current_price, competitionPrice: pricing.competition_price, dailyUnits: pricing.daily_units },
+        { elasticity: pricing.elasticity, crossElasticity: pricing.cross_elasticity },
+        proposedPrice,
+        proposedCompetitionPrice
+      )
+    : null
+  const outsideHistory = valid && (proposedPrice < pricing.min_price || proposedPrice > pricing.max_price)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>What-if Price Simulator</CardTitle>
+        <CardDescription>
+          Projected daily sales at a new price, from the product&apos;s measured price elasticity and its sales over
+          the last four weeks.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Product</Label>
+            <Select value={pricing.product} onValueChange={selectProduct}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {products.map((item) => (
+                  <SelectItem key={item.product} value={item.product}>{item.product}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="proposed-price">Our price (BWP)</Label>
+            <Input
+              id="proposed-price"
+              type="number"
+              min={0}
+              step={0.5}
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="competition-price">Competition price (BWP)</Label>
+            <Input
+              id="competition-price"
+              type="number"
+              min={0}
+              step={0.5}
+              value={competitionPrice}
+              disabled={pricing.cross_elasticity === null}
+              onChange={(e) => setCompetitionPrice(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {simulation && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-muted-foreground">Units per day</p>
+              <p className="text-2xl font-bold">{simulation.dailyUnits.toFixed(1)}</p>
+              <p className="text-sm text-muted-foreground">
+                {formatChange(simulation.unitsChange)} from {pricing.daily_units.toFixed(1)} now
+              </p>
+            </div>
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-muted-foreground">Revenue per day</p>
+              <p className="text-2xl font-bold">BWP {simulation.dailyRevenue.toFixed(2)}</p>
+              <p className={`text-sm ${simulation.revenueChange >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatChange(simulation.revenueChange)} · about BWP {(simulation.dailyRevenue * 30).toFixed(0)} over 30 days
+              </p>
+            </div>
+          </div>
+        )}
+
+        {(outsideHistory || !pricing.reliable) && (
+          <div className="flex items-start gap-2 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+            <div>
+              {outsideHistory && (
+                <p>
+                  Prices have only ranged from BWP {pricing.min_price.toFixed(2)} to BWP {pricing.max_price.toFixed(2)},
+                  so this projection goes beyond what the data has seen.
+                </p>
+              )}
+              {!pricing.reliable && pricing.note && <p>{pricing.note}</p>}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
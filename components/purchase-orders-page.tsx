@@ -0,0 +1,375 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import axios from "axios"
+import { format } from "date-fns"
+import { FileDown, FileText, PackageCheck, Send, Trash2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table"
+import type { PurchaseOrderLine, PurchaseOrderStatus } from "@/lib/data/purchase-orders"
+
+interface PurchaseOrderItem {
+  _id: string
+  number: string
+  supplier: string
+  status: PurchaseOrderStatus
+  lines: PurchaseOrderLine[]
+  leadTimeDays: number
+  notes: string
+  createdBy: string | null
+  approvedBy: string | null
+  createdAt: string
+  sentAt: string | null
+  expectedAt: string | null
+  receivedAt: string | null
+}
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  received: "Received"
+}
+
+const STATUS_BADGES: Record<PurchaseOrderStatus, "outline" | "default" | "secondary"> = {
+  draft: "outline",
+  sent: "default",
+  received: "secondary"
+}
+
+// Radix Select cannot hold an empty value, so "every status" gets its own
+const ALL_STATUSES = "all"
+
+const lineKey = (line: { store: string; product: string }) => `${line.store}:${line.product}`
+
+const formatDay = (date: string | null) => (date ? format(new Date(date), "dd MMM yyyy") : "—")
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (axios.isAxiosError(err) ? err.response?.data?.message ?? err.response?.data?.error : undefined) ?? fallback
+
+function PurchaseOrderCard({ order, onChange }: { order: PurchaseOrderItem; onChange: () => void }) {
+  // Edited values as typed, keyed by store and product; drafts edit quantities and costs, sent orders what arrived
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+  const [unitCosts, setUnitCosts] = useState<Record<string, string>>({})
+  const [notes, setNotes] = useState(order.notes)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isDraft = order.status === "draft"
+  const isSent = order.status === "sent"
+  const quantityOf = (line: PurchaseOrderLine) =>
+    quantities[lineKey(line)] ?? String(isSent ? line.quantity : line.receivedQuantity ?? line.quantity)
+  const unitCostOf = (line: PurchaseOrderLine) =>
+    unitCosts[lineKey(line)] ?? (line.unitCost === null ? "" : String(line.unitCost))
+
+  const total = order.lines.reduce((sum, line) => {
+    const quantity = isDraft ? Number(quantityOf(line)) || 0 : line.quantity
+    const unitCost = isDraft ? Number(unitCostOf(line)) || 0 : line.unitCost ?? 0
+    return sum + quantity * unitCost
+  }, 0)
+  const edited = Object.keys(quantities).length > 0 || Object.keys(unitCosts).length > 0 || notes !== order.notes
+
+  const update = async (body: Record<string, unknown>, fallback: string) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await axios.patch(`/api/purchase-orders/${order._id}`, body)
+      setQuantities({})
+      setUnitCosts({})
+      onChange()
+      return true
+    } catch (err) {
+      console.error(fallback, err)
+      setError(errorMessage(err, fallback))
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const draftChanges = () => ({
+    lines: order.lines.map(line => ({
+      store: line.store,
+      product: line.product,
+      quantity: quantityOf(line),
+      unitCost: unitCostOf(line)
+    })),
+    notes
+  })
+
+  const handleApprove = async () => {
+    // Unsaved edits are saved first so the supplier gets what is on screen
+    if (edited && !(await update(draftChanges(), "Failed to save purchase order."))) return
+    await update({ status: "sent" }, "Failed to approve purchase order.")
+  }
+
+  const handleReceive = () => update({
+    status: "received",
+    received: order.lines.map(line => ({ store: line.store, product: line.product, quantity: quantityOf(line) }))
+  }, "Failed to receive purchase order.")
+
+  const handleDelete = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      await axios.delete(`/api/purchase-orders/${order._id}`)
+      onChange()
+    } catch (err) {
+      console.error("Failed to delete purchase order", err)
+      setError(errorMessage(err, "Failed to delete purchase order."))
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              {order.number} · {order.supplier}
+              <Badge variant={STATUS_BADGES[order.status]}>{STATUS_LABELS[order.status]}</Badge>
+            </CardTitle>
+            <CardDescription>
+              Drafted {formatDay(order.createdAt)}
+              {order.sentAt && ` · sent ${formatDay(order.sentAt)} by ${order.approvedBy ?? "unknown"}`}
+              {isSent && ` · expected ${formatDay(order.expectedAt)}`}
+              {order.receivedAt && ` · received ${formatDay(order.receivedAt)}`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/purchase-orders/${order._id}/export?format=pdf`} download>
+                <FileText className="mr-2 h-4 w-4" />
+                PDF
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/purchase-orders/${order._id}/export?format=csv`} download>
+                <FileDown className="mr-2 h-4 w-4" />
+                CSV
+              </a>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Store</TableHead>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Position</TableHead>
+              <TableHead className="text-right">Reorder at</TableHead>
+              <TableHead className="text-right">Quantity</TableHead>
+              <TableHead className="text-right">Unit cost (BWP)</TableHead>
+              {!isDraft && <TableHead className="text-right">Received</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {order.lines.map((line) => (
+              <TableRow key={lineKey(line)}>
+                <TableCell>{line.store}</TableCell>
+                <TableCell>
+                  <div className="font-medium">{line.product}</div>
+                  <div className="text-xs text-muted-foreground">{line.category}</div>
+                </TableCell>
+                <TableCell className="text-right">{line.stockPosition}</TableCell>
+                <TableCell className="text-right">{line.reorderPoint}</TableCell>
+                <TableCell className="text-right">
+                  {isDraft ? (
+                    <div>
+                      <Input
+                        type="number"
+                        min={0}
+                        className="ml-auto w-24 text-right"
+                        value={quantityOf(line)}
+                        onChange={(e) => setQuantities(current => ({ ...current, [lineKey(line)]: e.target.value }))}
+                      />
+                      {Number(quantityOf(line)) !== line.recommendedQuantity && (
+                        <div className="text-xs text-muted-foreground">Recommended {line.recommendedQuantity}</div>
+                      )}
+                    </div>
+                  ) : line.quantity}
+                </TableCell>
+                <TableCell className="text-right">
+                  {isDraft ? (
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      className="ml-auto w-24 text-right"
+                      placeholder="—"
+                      value={unitCostOf(line)}
+                      onChange={(e) => setUnitCosts(current => ({ ...current, [lineKey(line)]: e.target.value }))}
+                    />
+                  ) : line.unitCost?.toFixed(2) ?? "—"}
+                </TableCell>
+                {!isDraft && (
+                  <TableCell className="text-right">
+                    {isSent ? (
+                      <Input
+                        type="number"
+                        min={0}
+                        className="ml-auto w-24 text-right"
+                        value={quantityOf(line)}
+                        onChange={(e) => setQuantities(current => ({ ...current, [lineKey(line)]: e.target.value }))}
+                      />
+                    ) : line.receivedQuantity ?? "—"}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex justify-end text-sm font-medium">Total: BWP {total.toFixed(2)}</div>
+
+        {isDraft ? (
+          <Textarea
+            placeholder="Notes for the supplier"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        ) : order.notes && <p className="text-sm text-muted-foreground">{order.notes}</p>}
+      </CardContent>
+      {order.status !== "received" && (
+        <CardFooter className="flex justify-end gap-2">
+          {isDraft && (
+            <>
+              <Button variant="ghost" onClick={handleDelete} disabled={busy}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => update(draftChanges(), "Failed to save purchase order.")}
+                disabled={busy || !edited}
+              >
+                Save Changes
+              </Button>
+              <Button onClick={handleApprove} disabled={busy}>
+                <Send className="mr-2 h-4 w-4" />
+                Approve &amp; Send
+              </Button>
+            </>
+          )}
+          {isSent && (
+            <Button onClick={handleReceive} disabled={busy}>
+              <PackageCheck className="mr-2 h-4 w-4" />
+              Mark Received
+            </Button>
+          )}
+        </CardFooter>
+      )}
+    </Card>
+  )
+}
+
+export function PurchaseOrdersPage() {
+  const [orders, setOrders] = useState<PurchaseOrderItem[]>([])
+  const [status, setStatus] = useState<string>(ALL_STATUSES)
+  const [loading, setLoading] = useState(true)
+  const [drafting, setDrafting] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchOrders = async () => {
+    try {
+      const res = await axios.get('/api/purchase-orders')
+      setOrders(res.data?.orders ?? [])
+    } catch (err) {
+      console.error("Failed to fetch purchase orders", err)
+      setError("Failed to fetch purchase orders.")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchOrders()
+  }, [])
+
+  const handleDraft = async () => {
+    setDrafting(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const res = await axios.post('/api/purchase-orders')
+      setMessage(res.data.drafted > 0
+        ? `Drafted ${res.data.drafted} purchase order${res.data.drafted === 1 ? "" : "s"}, one per supplier.`
+        : "Nothing new to order: every item below its reorder point is already on a draft or sent order.")
+      await fetchOrders()
+    } catch (err) {
+      console.error("Failed to draft purchase orders", err)
+      setError(errorMessage(err, "Failed to draft purchase orders."))
+    } finally {
+      setDrafting(false)
+    }
+  }
+
+  const shown = orders.filter(order => status === ALL_STATUSES || order.status === status)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Purchase Orders</h1>
+          <p className="text-muted-foreground">
+            Orders drafted per supplier from items below their reorder point. Sent orders count as stock on order, and
+            received ones are added to expected stock until your next stock count.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+              {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleDraft} disabled={drafting}>
+            {drafting ? "Drafting..." : "Draft from Reorder Points"}
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <Alert className="bg-green-50 border-green-200">
+          <AlertDescription className="text-green-800">{message}</AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading purchase orders...</p>
+      ) : shown.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No purchase orders yet.</p>
+      ) : (
+        shown.map((order) => (
+          <PurchaseOrderCard key={`${order._id}:${order.status}`} order={order} onChange={fetchOrders} />
+        ))
+      )}
+    </div>
+  )
+}
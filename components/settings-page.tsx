@@ -13,6 +13,9 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { Check } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ForecastCalendarSettings } from "@/components/forecast-calendar-settings"
+import { CustomerSegmentationSettings } from "@/components/customer-segmentation-settings"
+import { InventoryPolicySettings } from "@/components/inventory-policy-settings"
 
 export function SettingsPage() {
   const supabase = createClient()
@@ -94,8 +97,11 @@ export function SettingsPage() {
       </div>
 
       <Tabs defaultValue="profile">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="profile">Profile</TabsTrigger>
+          <TabsTrigger value="forecasting">Forecasting</TabsTrigger>
+          <TabsTrigger value="segmentation">Segmentation</TabsTrigger>
+          <TabsTrigger value="inventory">Inventory</TabsTrigger>
           <TabsTrigger value="api">API Settings</TabsTrigger>
           <TabsTrigger value="notifications">Notifications</TabsTrigger>
         </TabsList>
@@ -193,6 +199,18 @@ export function SettingsPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="forecasting" className="space-y-4">
+          <ForecastCalendarSettings />
+        </TabsContent>
+
+        <TabsContent value="segmentation" className="space-y-4">
+          <CustomerSegmentationSettings />
+        </TabsContent>
+
+        <TabsContent value="inventory" className="space-y-4">
+          <InventoryPolicySettings />
+        </TabsContent>
+
         <TabsContent value="api" className="space-y-4">
           <Card>
             <CardHeader>
@@ -0,0 +1,31 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+// Radix Select does not allow an empty string as an item value
+export const ALL_STORES = "__all__"
+
+interface StoreSelectProps {
+  stores: string[]
+  // A store name, or ALL_STORES
+  value: string
+  onValueChange: (value: string) => void
+  className?: string
+}
+
+// Narrows the inventory views to one store
+export function StoreSelect({ stores, value, onValueChange, className }: StoreSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className={className ?? "w-[180px]"}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_STORES}>All stores</SelectItem>
+        {stores.map((store) => (
+          <SelectItem key={store} value={store}>{store}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
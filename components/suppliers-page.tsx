@@ -0,0 +1,183 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import axios from "axios"
+import { AlertTriangle } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table"
+import {
+  KEY_PRODUCT_REVENUE_SHARE,
+  MIN_RELIABLE_IN_STOCK_RATE,
+  SUPPLIER_SCORE_WEIGHTS,
+  type SupplierAnalysis,
+  type SupplyRisk
+} from "@/lib/ml/suppliers"
+
+const RISK_BADGES: Record<SupplyRisk, string> = {
+  high: "bg-red-100 text-red-800 hover:bg-red-100",
+  medium: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  low: "bg-gray-100 text-gray-800 hover:bg-gray-100"
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+export function SuppliersPage() {
+  const [analysis, setAnalysis] = useState<SupplierAnalysis | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchSuppliers = async () => {
+      try {
+        const res = await axios.get('/api/suppliers')
+        setAnalysis(res.data)
+      } catch (err) {
+        console.error("Failed to fetch suppliers", err)
+        setError((axios.isAxiosError(err) ? err.response?.data?.message : undefined) ?? "Failed to fetch suppliers.")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchSuppliers()
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Suppliers</h1>
+        <p className="text-muted-foreground">
+          How reliably each supplier delivers, from the lead times and stock levels recorded in your data.
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && <p className="text-sm text-muted-foreground">Loading suppliers...</p>}
+
+      {analysis && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Supplier Scorecard</CardTitle>
+              <CardDescription>
+                Scores out of 100: {SUPPLIER_SCORE_WEIGHTS.inStock * 100}% for how often their products are in stock,
+                {" "}{SUPPLIER_SCORE_WEIGHTS.speed * 100}% for lead time against your fastest supplier and
+                {" "}{SUPPLIER_SCORE_WEIGHTS.consistency * 100}% for how steady their lead times are.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                    <TableHead className="text-right">Lead time</TableHead>
+                    <TableHead className="text-right">Variability</TableHead>
+                    <TableHead className="text-right">In stock</TableHead>
+                    <TableHead className="text-right">Revenue share</TableHead>
+                    <TableHead className="text-right">Products</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analysis.suppliers.map((supplier) => (
+                    <TableRow key={supplier.supplier}>
+                      <TableCell>{supplier.rank}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{supplier.supplier}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {supplier.categories.join(", ")} · {supplier.stores} store{supplier.stores === 1 ? "" : "s"}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{supplier.score.toFixed(1)}</TableCell>
+                      <TableCell className="text-right">
+                        {supplier.lead_time.toFixed(1)} ± {supplier.lead_time_spread.toFixed(1)} days
+                      </TableCell>
+                      <TableCell className="text-right">{percent(supplier.lead_time_cv)}</TableCell>
+                      <TableCell className={`text-right ${supplier.in_stock_rate < MIN_RELIABLE_IN_STOCK_RATE ? "text-red-600" : ""}`}>
+                        {percent(supplier.in_stock_rate)}
+                        <div className="text-xs text-muted-foreground">{supplier.stock_out_days} stock-out days</div>
+                      </TableCell>
+                      <TableCell className="text-right">{percent(supplier.revenue_share)}</TableCell>
+                      <TableCell className="text-right">
+                        {supplier.products.length}
+                        {supplier.single_source_products > 0 && (
+                          <div className="text-xs text-muted-foreground">{supplier.single_source_products} only from them</div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="mt-4 text-xs text-muted-foreground">
+                In stock is the share of store-product days with stock left, a stand-in for fill rate. Variability is the
+                spread of lead times as a share of the average.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-yellow-500" />
+                Single-Source Products
+              </CardTitle>
+              <CardDescription>
+                Products only one supplier delivers. They are high risk when they bring in at least
+                {" "}{percent(KEY_PRODUCT_REVENUE_SHARE)} of revenue and their supplier is unreliable.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {analysis.single_source.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every product has more than one supplier.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Risk</TableHead>
+                      <TableHead className="text-right">Revenue share</TableHead>
+                      <TableHead className="text-right">In stock</TableHead>
+                      <TableHead className="text-right">Lead time</TableHead>
+                      <TableHead>Could also supply it</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analysis.single_source.map((item) => (
+                      <TableRow key={item.product}>
+                        <TableCell>
+                          <div className="font-medium">{item.product}</div>
+                          <div className="text-xs text-muted-foreground">{item.category}</div>
+                        </TableCell>
+                        <TableCell>{item.supplier}</TableCell>
+                        <TableCell>
+                          <Badge className={`capitalize ${RISK_BADGES[item.risk]}`}>{item.risk}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{percent(item.revenue_share)}</TableCell>
+                        <TableCell className="text-right">{percent(item.in_stock_rate)}</TableCell>
+                        <TableCell className="text-right">{item.lead_time.toFixed(1)} days</TableCell>
+                        <TableCell>
+                          {item.alternatives.length > 0
+                            ? item.alternatives.join(", ")
+                            : <span className="text-muted-foreground">No other supplier of {item.category}</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 "use client"
 
 import {
-  LineChart as RechartsLineChart,
+  ComposedChart,
+  Area,
   Line,
   BarChart as RechartsBarChart,
   Bar,
@@ -25,22 +26,58 @@ interface ChartProps {
   className?: string
 }
 
+// A shaded range between two keys of each row, e.g. a forecast's prediction interval
+export interface ChartBand {
+  lower: string
+  upper: string
+  color: string
+  name?: string
+}
+
+interface LineChartProps extends ChartProps {
+  // Drawn behind the lines, in order, so list wider bands first
+  bands?: ChartBand[]
+}
+
+// Bands pass [lower, upper] pairs to the tooltip
+const formatTooltipValue = (valueFormatter?: (value: number) => string) =>
+  (value: number | number[]) => {
+    const format = (v: number) => valueFormatter ? valueFormatter(v) : String(v)
+    return Array.isArray(value) ? value.map(format).join(" – ") : format(value)
+  }
+
 export function LineChart({ 
   data, 
   categories, 
   index, 
   colors, 
   valueFormatter, 
-  className 
-}: ChartProps) {
+  className,
+  bands = []
+}: LineChartProps) {
   return (
     <ResponsiveContainer width="100%" height="100%">
-      <RechartsLineChart data={data}>
+      <ComposedChart data={data}>
         <CartesianGrid strokeDasharray="3 3" />
         <XAxis dataKey={index} />
         <YAxis tickFormatter={valueFormatter} />
-        <Tooltip formatter={valueFormatter} />
+        <Tooltip formatter={formatTooltipValue(valueFormatter)} />
         <Legend />
+        {bands.map((band) => (
+          <Area
+            key={`${band.lower}-${band.upper}`}
+            type="monotone"
+            dataKey={(row: Record<string, number | null | undefined>) =>
+              row[band.lower] == null || row[band.upper] == null ? null : [row[band.lower], row[band.upper]]
+            }
+            name={band.name ?? `${band.lower} – ${band.upper}`}
+            stroke="none"
+            fill={band.color}
+            fillOpacity={0.15}
+            activeDot={false}
+            isAnimationActive={false}
+          />
+        ))}
         {categories.map((category, idx) => (
           <Line
             key={category}
@@ -50,7 +87,7 @@ export function LineChart({
             dot={false}
           />
         ))}
-      </RechartsLineChart>
+      </ComposedChart>
     </ResponsiveContainer>
   )
 }
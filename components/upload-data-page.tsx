@@ -1,86 +1,381 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef, useCallback } from "react"
 import axios from "axios"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Upload, CheckCircle2, AlertCircle } from "lucide-react"
+import { Upload, CheckCircle2, AlertCircle, RotateCcw } from "lucide-react"
 import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useRouter } from "next/navigation"
+import { ColumnMappingWizard } from "@/components/column-mapping-wizard"
+import { UploadHistory } from "@/components/upload-history"
+import { DataHealthCard } from "@/components/data-health-card"
+import { DuplicatePreview } from "@/components/duplicate-preview"
+import type { RejectedRow } from "@/lib/upload/validation"
+import type { ColumnMapping, DatasetField } from "@/lib/upload/column-mapping"
+import { DATASETS, DATASET_TYPES, type DatasetType } from "@/lib/upload/datasets"
+import type { ImportMode } from "@/lib/upload/duplicates"
+import type { ImportPreview } from "@/lib/upload/batches"
+
+const ACCEPTED_EXTENSIONS = [".csv", ".xlsx", ".xls"]
+
+// Only the start of a CSV is needed to detect its columns
+const INSPECT_BYTES = 256 * 1024
+const PROGRESS_POLL_MS = 1000
+
+interface BatchProgress {
+  _id: string
+  fileName: string
+  fileSize: number
+  dataType: DatasetType
+  status: string
+  bytesRead: number
+  totalRows: number | null
+  processedRows: number
+}
+
+interface MappingStep {
+  headers: string[]
+  sheet?: string
+  mapping: ColumnMapping
+  suggestedMapping: ColumnMapping
+  scores: Partial<Record<DatasetField, number>>
+  sample: Record<string, unknown>[]
+}
+
+interface DuplicateStep {
+  batchId: string
+  mode: ImportMode
+  naturalKey: DatasetField[]
+  preview: ImportPreview | null
+  checking: boolean
+}
 
 export function UploadDataPage() {
+  const [dataType, setDataType] = useState<DatasetType>("sales")
   const [uploadProgress, setUploadProgress] = useState(0)
   const [uploadStatus, setUploadStatus] = useState<"idle" | "uploading" | "success" | "error">("idle")
   const [uploadedFile, setUploadedFile] = useState<File | null>(null)
   const [dataPreview, setDataPreview] = useState<any[]>([])
+  const [sheetOptions, setSheetOptions] = useState<string[]>([])
+  const [selectedSheet, setSelectedSheet] = useState<string>("")
+  const [uploadError, setUploadError] = useState<string | null>(null)
+  const [rejectedRows, setRejectedRows] = useState<RejectedRow[]>([])
+  const [rejectedCount, setRejectedCount] = useState(0)
+  const [mappingStep, setMappingStep] = useState<MappingStep | null>(null)
+  const [duplicateStep, setDuplicateStep] = useState<DuplicateStep | null>(null)
+  const [processedRows, setProcessedRows] = useState(0)
+  const [resumableBatch, setResumableBatch] = useState<BatchProgress | null>(null)
+  const [historyKey, setHistoryKey] = useState(0)
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null)
 
   useEffect(() => {
-    fetchDataPreview()
+    return () => stopPolling()
   }, [])
 
+  const fetchDataPreview = useCallback(async () => {
+    try {
+      const res = await axios.get('/api/upload', { params: { type: dataType } })
+      if (res.data?.data?.length > 0) {
+        setDataPreview(res.data.data)
+        setUploadStatus("success")
+      } else {
+        setDataPreview([])
+      }
+    } catch (err) {
+      console.error("Failed to fetch preview", err)
+      setDataPreview([])
+    }
+  }, [dataType])
+
+  // Each dataset has its own stored rows, so switching resets the upload steps
+  useEffect(() => {
+    setMappingStep(null)
+    setDuplicateStep(null)
+    setSheetOptions([])
+    setResumableBatch(null)
+    fetchDataPreview()
+  }, [fetchDataPreview])
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
 
     // Validate file type
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    const fileName = file.name.toLowerCase()
+    if (!ACCEPTED_EXTENSIONS.some(ext => fileName.endsWith(ext))) {
       setUploadStatus("error")
-      alert("Please upload a CSV file only")
+      setUploadError("Please upload a CSV or Excel (.xlsx, .xls) file")
       return
     }
 
+    setSheetOptions([])
+    setSelectedSheet("")
+    setMappingStep(null)
+    setDuplicateStep(null)
+    setResumableBatch(null)
     setUploadedFile(file)
-    setUploadStatus("uploading")
-    setUploadProgress(0)
+
+    // Offer to continue an earlier import of the same file that did not finish
+    try {
+      const res = await axios.get('/api/upload/batches', { params: { status: "incomplete" } })
+      const unfinished = (res.data?.batches ?? []).find((batch: BatchProgress) =>
+        batch.dataType === dataType && batch.fileName === file.name && batch.fileSize === file.size && batch.processedRows > 0
+      )
+      if (unfinished) {
+        setResumableBatch(unfinished)
+        setUploadStatus("idle")
+        return
+      }
+    } catch (err) {
+      console.error("Failed to check unfinished uploads", err)
+    }
+
+    await inspectFile(file)
+  }
+
+  // Detect the file's columns and decide whether the user needs to map them
+  const inspectFile = async (file: File, sheet?: string) => {
+    setUploadedFile(file)
+    setUploadError(null)
+    setRejectedRows([])
+    setRejectedCount(0)
+    setResumableBatch(null)
 
     const formData = new FormData()
-    formData.append("file", file)
+    const isCsv = file.name.toLowerCase().endsWith(".csv")
+    formData.append("file", isCsv ? file.slice(0, INSPECT_BYTES) : file, file.name)
+    formData.append("type", dataType)
+    if (sheet) {
+      formData.append("sheet", sheet)
+    }
 
     try {
-      const response = await axios.post('/api/upload', formData, {
+      const response = await axios.post('/api/upload/inspect', formData, {
         headers: { "Content-Type": "multipart/form-data" },
-        onUploadProgress: (progressEvent) => {
-          const progress = Math.round((progressEvent.loaded * 100) / (progressEvent.total ?? 1))
-          setUploadProgress(progress)
-        },
+      })
+
+      if (response.data?.requiresSheetSelection) {
+        // Workbook has several sheets, wait for the user to pick one
+        setSheetOptions(response.data.sheets)
+        setSelectedSheet(response.data.sheets[0])
+        setUploadStatus("idle")
+        return
+      }
+
+      setSheetOptions([])
+      const { headers, mapping, suggestedMapping, scores, sample, source, complete } = response.data
+
+      // Known layouts are imported straight away, the server applies the saved mapping
+      if (complete && (source === "saved" || source === "exact")) {
+        await startUpload(file, headers, response.data.sheet)
+      } else {
+        setMappingStep({ headers, sheet: response.data.sheet, mapping, suggestedMapping, scores, sample })
+        setUploadStatus("idle")
+      }
+    } catch (error) {
+      console.error("Inspect error:", error)
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined
+      setUploadStatus("error")
+      setUploadError(data?.message || data?.error || "Unknown error")
+    }
+  }
+
+  // Register the upload as a batch, then stream the file into it.
+  // When data is already stored, first preview how the file overlaps with it.
+  const startUpload = async (file: File, headers: string[], sheet?: string, mapping?: ColumnMapping) => {
+    try {
+      const response = await axios.post('/api/upload/batches', {
+        fileName: file.name,
+        fileSize: file.size,
+        headers,
+        sheet,
+        mapping,
+      }, { params: { type: dataType } })
+      const { batchId, mode, naturalKey } = response.data
+
+      if (dataPreview.length === 0) {
+        await uploadBatch(file, batchId)
+        return
+      }
+
+      setMappingStep(null)
+      await checkDuplicates(file, { batchId, mode, naturalKey, preview: null, checking: true })
+    } catch (error) {
+      console.error("Upload error:", error)
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined
+      setUploadStatus("error")
+      setUploadError(data?.message || data?.error || "Unknown error")
+    }
+  }
+
+  // Dry run of the import that only counts new, changed and identical rows
+  const checkDuplicates = async (file: File, step: DuplicateStep) => {
+    setDuplicateStep({ ...step, checking: true })
+    setUploadStatus("idle")
+    try {
+      const response = await axios.post('/api/upload', file, {
+        params: { batchId: step.batchId, dryRun: "1" },
+        headers: { "Content-Type": "application/octet-stream" },
+      })
+      setDuplicateStep({ ...step, preview: response.data.preview, checking: false })
+    } catch (error) {
+      console.error("Duplicate check error:", error)
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined
+      setDuplicateStep(null)
+      setUploadStatus("error")
+      setUploadError(data?.error || "Unknown error")
+    }
+  }
+
+  const handleNaturalKeyChange = async (naturalKey: DatasetField[]) => {
+    if (!uploadedFile || !duplicateStep) return
+    try {
+      await axios.patch(`/api/upload/batches/${duplicateStep.batchId}`, { naturalKey })
+      await checkDuplicates(uploadedFile, { ...duplicateStep, naturalKey })
+    } catch (err) {
+      console.error("Failed to update duplicate key", err)
+    }
+  }
+
+  const handleDuplicateConfirm = async () => {
+    if (!uploadedFile || !duplicateStep) return
+    try {
+      await axios.patch(`/api/upload/batches/${duplicateStep.batchId}`, { mode: duplicateStep.mode })
+    } catch (error) {
+      console.error("Failed to set import mode", error)
+      setUploadStatus("error")
+      setUploadError("Could not set the import mode")
+      return
+    }
+    setDuplicateStep(null)
+    await uploadBatch(uploadedFile, duplicateStep.batchId)
+  }
+
+  // The batch has no rows yet, rolling it back just closes it in the history
+  const handleDuplicateCancel = async () => {
+    if (!duplicateStep) return
+    setDuplicateStep(null)
+    try {
+      await axios.delete(`/api/upload/batches/${duplicateStep.batchId}`)
+      setHistoryKey(key => key + 1)
+    } catch (err) {
+      console.error("Failed to cancel upload", err)
+    }
+  }
+
+  const stopPolling = () => {
+    if (pollRef.current) {
+      clearInterval(pollRef.current)
+      pollRef.current = null
+    }
+  }
+
+  // Server-side progress, so large files show rows imported rather than bytes sent
+  const pollProgress = (file: File, batchId: string) => {
+    stopPolling()
+    pollRef.current = setInterval(async () => {
+      try {
+        const res = await axios.get(`/api/upload/batches/${batchId}`)
+        const batch: BatchProgress = res.data.batch
+        const fraction = batch.totalRows
+          ? batch.processedRows / batch.totalRows
+          : batch.bytesRead / (batch.fileSize || file.size)
+        setProcessedRows(batch.processedRows)
+        setUploadProgress(Math.min(100, Math.round(fraction * 100)))
+      } catch (err) {
+        console.error("Failed to fetch upload progress", err)
+      }
+    }, PROGRESS_POLL_MS)
+  }
+
+  const uploadBatch = async (file: File, batchId: string) => {
+    setUploadedFile(file)
+    setUploadStatus("uploading")
+    setUploadProgress(0)
+    setProcessedRows(0)
+    setUploadError(null)
+    setRejectedRows([])
+    setRejectedCount(0)
+    setResumableBatch(null)
+    pollProgress(file, batchId)
+
+    try {
+      const response = await axios.post('/api/upload', file, {
+        params: { batchId },
+        headers: { "Content-Type": "application/octet-stream" },
       })
 
       if (response.status === 200) {
+        setMappingStep(null)
+        setRejectedRows(response.data.rejected ?? [])
+        setRejectedCount(response.data.rejectedCount ?? 0)
+        setUploadProgress(100)
         setUploadStatus("success")
         fetchDataPreview()
       } else {
         throw new Error(`Upload failed with status: ${response.status}`)
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Upload error:", error)
+      const data = axios.isAxiosError(error) ? error.response?.data : undefined
       setUploadStatus("error")
-      alert(`Upload failed: ${error.response?.data?.error || 'Unknown error'}`)
+      setUploadError(data?.error || "Unknown error")
+      setRejectedRows(data?.rejected ?? [])
+      setRejectedCount(data?.rejectedCount ?? 0)
+
+      // Rows committed before the failure are kept, so the import can pick up from there
+      try {
+        const res = await axios.get(`/api/upload/batches/${batchId}`)
+        if (res.data.batch.status !== "completed") {
+          setResumableBatch(res.data.batch)
+        }
+      } catch (err) {
+        console.error("Failed to fetch upload progress", err)
+      }
+    } finally {
+      stopPolling()
+      setHistoryKey(key => key + 1)
     }
   }
 
-  const fetchDataPreview = async () => {
+  // Discard the rows of the unfinished import before importing the file again
+  const handleStartOver = async () => {
+    if (!uploadedFile || !resumableBatch) return
     try {
-      const res = await axios.get('/api/upload')
-      if (res.data?.data?.length > 0) {
-        setDataPreview(res.data.data)
-        setUploadStatus("success")
-      } else {
-        setDataPreview([])
-      }
+      await axios.delete(`/api/upload/batches/${resumableBatch._id}`)
+      setHistoryKey(key => key + 1)
     } catch (err) {
-      console.error("Failed to fetch preview", err)
-      setDataPreview([])
+      console.error("Failed to roll back unfinished upload", err)
     }
+    await inspectFile(uploadedFile)
+  }
+
+  const handleResume = async () => {
+    if (!uploadedFile || !resumableBatch) return
+    await uploadBatch(uploadedFile, resumableBatch._id)
+  }
+
+  const handleSheetImport = async () => {
+    if (!uploadedFile || !selectedSheet) return
+    await inspectFile(uploadedFile, selectedSheet)
+  }
+
+  const handleMappingConfirm = async () => {
+    if (!uploadedFile || !mappingStep) return
+    await startUpload(uploadedFile, mappingStep.headers, mappingStep.sheet, mappingStep.mapping)
   }
 
   const handleDeleteData = async () => {
     try {
-      await axios.delete('/api/upload')
+      await axios.delete('/api/upload', { params: { type: dataType } })
       setDataPreview([])
       setUploadStatus("idle")
       setUploadedFile(null)
+      setHistoryKey(key => key + 1)
     } catch (err) {
       console.error("Failed to delete data", err)
     }
@@ -105,7 +400,7 @@ export function UploadDataPage() {
       <div>
         <h1 className="text-2xl font-bold tracking-tight">Upload Data</h1>
         <p className="text-muted-foreground">
-          Upload your business data CSV file for analysis and insights.
+          Upload your business data CSV or Excel file for analysis and insights.
         </p>
       </div>
 
@@ -113,18 +408,37 @@ export function UploadDataPage() {
         <CardHeader>
           <CardTitle>Data Upload</CardTitle>
           <CardDescription>
-            Upload your business data in CSV format with the following columns:
-            Date, Store, Product, Category, Units_Sold, Price_per_Unit_BWP, Revenue_BWP,
-            Competition_Price_BWP, Promotion_Active, Customer_Retention_Score,
-            Stock_Level, Supplier, Lead_Time_Days, Customer_Demographic, Payment_Method
+            Upload your business data in CSV or Excel format. Sales data is required; inventory snapshots
+            and customer records are optional and make stock and customer insights more accurate.
+            PredictIQ needs the following fields for {DATASETS[dataType].label.toLowerCase()} and will help
+            you match them to your own column names: {DATASETS[dataType].fields.join(", ")}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-6">
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+              <span className="text-sm font-medium">Dataset</span>
+              <Select
+                value={dataType}
+                onValueChange={(value) => setDataType(value as DatasetType)}
+                disabled={uploadStatus === "uploading"}
+              >
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATASET_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{DATASETS[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">{DATASETS[dataType].description}</span>
+            </div>
+
             <div className="border-2 border-dashed border-gray-300 rounded-lg p-12 text-center">
               <input
                 type="file"
-                accept=".csv"
+                accept={ACCEPTED_EXTENSIONS.join(",")}
                 onChange={handleFileUpload}
                 className="hidden"
                 id="file-upload"
@@ -132,7 +446,7 @@ export function UploadDataPage() {
               <label htmlFor="file-upload" className="cursor-pointer">
                 <Upload className="mx-auto h-12 w-12 text-gray-400" />
                 <p className="mt-4 text-sm text-gray-600">Click to upload or drag and drop</p>
-                <p className="text-xs text-gray-500">CSV file up to 10MB</p>
+                <p className="text-xs text-gray-500">CSV or Excel file up to 10MB</p>
               </label>
             </div>
 
@@ -140,17 +454,99 @@ export function UploadDataPage() {
               <div className="space-y-2">
                 <div className="flex items-center justify-between text-sm">
                   <span>{uploadedFile?.name}</span>
-                  <span>{uploadProgress}%</span>
+                  <span>{processedRows.toLocaleString()} rows imported · {uploadProgress}%</span>
                 </div>
                 <Progress value={uploadProgress} className="h-2" />
               </div>
             )}
 
+            {resumableBatch && uploadedFile && uploadStatus !== "uploading" && (
+              <Alert>
+                <RotateCcw className="h-4 w-4" />
+                <AlertDescription>
+                  <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                    <span>
+                      The import of {resumableBatch.fileName} stopped after{" "}
+                      {resumableBatch.processedRows.toLocaleString()} rows. Resume to import the rest.
+                    </span>
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={handleStartOver}>
+                        Start Over
+                      </Button>
+                      <Button onClick={handleResume}>Resume Import</Button>
+                    </div>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {sheetOptions.length > 0 && (
+              <div className="flex flex-col gap-3 rounded-md border p-4 sm:flex-row sm:items-center sm:justify-between">
+                <div className="text-sm">
+                  <p className="font-medium">{uploadedFile?.name} has {sheetOptions.length} sheets</p>
+                  <p className="text-muted-foreground">Choose the sheet that contains your sales data.</p>
+                </div>
+                <div className="flex gap-2">
+                  <Select value={selectedSheet} onValueChange={setSelectedSheet}>
+                    <SelectTrigger className="w-[200px]">
+                      <SelectValue placeholder="Select sheet" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sheetOptions.map((sheet) => (
+                        <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleSheetImport} disabled={!selectedSheet}>
+                    Import Sheet
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {mappingStep && uploadedFile && uploadStatus !== "uploading" && (
+              <ColumnMappingWizard
+                fileName={uploadedFile.name}
+                fields={DATASETS[dataType].fields}
+                headers={mappingStep.headers}
+                mapping={mappingStep.mapping}
+                suggestedMapping={mappingStep.suggestedMapping}
+                scores={mappingStep.scores}
+                sample={mappingStep.sample}
+                onChange={(mapping) => setMappingStep({ ...mappingStep, mapping })}
+                onConfirm={handleMappingConfirm}
+                onCancel={() => setMappingStep(null)}
+              />
+            )}
+
+            {duplicateStep && uploadedFile && uploadStatus !== "uploading" && (
+              duplicateStep.preview ? (
+                <DuplicatePreview
+                  fileName={uploadedFile.name}
+                  fields={DATASETS[dataType].fields}
+                  allowReplaceRange={DATASETS[dataType].dateField !== null}
+                  preview={duplicateStep.preview}
+                  mode={duplicateStep.mode}
+                  naturalKey={duplicateStep.naturalKey}
+                  checking={duplicateStep.checking}
+                  onModeChange={(mode) => setDuplicateStep({ ...duplicateStep, mode })}
+                  onNaturalKeyChange={handleNaturalKeyChange}
+                  onConfirm={handleDuplicateConfirm}
+                  onCancel={handleDuplicateCancel}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Comparing {uploadedFile.name} with your stored data...
+                </p>
+              )
+            )}
+
             {uploadStatus === "success" && (
               <Alert className="bg-green-50 border-green-200">
                 <CheckCircle2 className="h-4 w-4 text-green-600" />
                 <AlertDescription className="text-green-800">
                   File uploaded successfully. Data is now ready for processing.
+                  {rejectedCount > 0 && ` ${rejectedCount} rows were rejected and not imported.`}
                 </AlertDescription>
               </Alert>
             )}
@@ -159,11 +555,48 @@ export function UploadDataPage() {
               <Alert variant="destructive">
                 <AlertCircle className="h-4 w-4" />
                 <AlertDescription>
-                  Error uploading file. Please ensure you're uploading a valid CSV file.
+                  {uploadError
+                    ? `Upload failed: ${uploadError}`
+                    : "Error uploading file. Please ensure you're uploading a valid CSV or Excel file."}
                 </AlertDescription>
               </Alert>
             )}
 
+            {rejectedRows.length > 0 && (
+              <div>
+                <h3 className="text-lg font-medium mb-1">Rejected Rows</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  {rejectedCount > rejectedRows.length
+                    ? `Showing the first ${rejectedRows.length} of ${rejectedCount} rejected rows.`
+                    : `${rejectedCount} rows failed validation.`}
+                </p>
+                <div className="rounded-md border max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">Row</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Problems</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rejectedRows.map((rejected) => (
+                        <TableRow key={rejected.row}>
+                          <TableCell>{rejected.row}</TableCell>
+                          <TableCell>{String(rejected.data.Date ?? "")}</TableCell>
+                          <TableCell>{String(rejected.data.Product ?? "")}</TableCell>
+                          <TableCell className="whitespace-normal text-red-600">
+                            {rejected.errors.join("; ")}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
             {dataPreview.length > 0 && (
               <div className="mt-6">
                 <h3 className="text-lg font-medium mb-4">Data Preview</h3>
@@ -188,8 +621,11 @@ export function UploadDataPage() {
                   </Table>
                 </div>
                 <div className="mt-4 flex justify-end space-x-4">
+                  <Button variant="outline" onClick={() => router.push('/dashboard/data')}>
+                    Explore All Rows
+                  </Button>
                   <Button variant="destructive" onClick={handleDeleteData}>
-                    Delete Data
+                    Delete All My {DATASETS[dataType].label}
                   </Button>
                   <Button onClick={handleProcessData} disabled={uploadStatus !== "success"}>
                     Process Data
@@ -200,6 +636,10 @@ export function UploadDataPage() {
           </div>
         </CardContent>
       </Card>
+
+      <DataHealthCard dataType={dataType} refreshKey={historyKey} />
+
+      <UploadHistory refreshKey={historyKey} onRolledBack={fetchDataPreview} />
     </div>
   )
 }
\ No newline at end of file
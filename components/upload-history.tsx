@@ -0,0 +1,177 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import axios from "axios"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import type { ImportMode } from "@/lib/upload/duplicates"
+import { DATASETS, type DatasetType } from "@/lib/upload/datasets"
+
+export interface UploadHistoryItem {
+  _id: string
+  fileName: string
+  dataType: DatasetType
+  uploadedBy: string | null
+  status: "pending" | "processing" | "completed" | "failed" | "rolled_back"
+  mode?: ImportMode
+  checksum: string | null
+  totalRows: number | null
+  insertedCount: number
+  rejectedCount: number
+  // Why a failed import stopped
+  error: string | null
+  createdAt: string
+}
+
+interface UploadHistoryProps {
+  // Bump to reload the list, e.g. after a new upload finishes
+  refreshKey: number
+  onRolledBack: () => void
+}
+
+const STATUS_LABELS: Record<UploadHistoryItem["status"], string> = {
+  pending: "Pending",
+  processing: "Importing",
+  completed: "Completed",
+  failed: "Failed",
+  rolled_back: "Rolled back",
+}
+
+export function UploadHistory({ refreshKey, onRolledBack }: UploadHistoryProps) {
+  const [uploads, setUploads] = useState<UploadHistoryItem[]>([])
+  const [rollingBack, setRollingBack] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchUploads()
+  }, [refreshKey])
+
+  const fetchUploads = async () => {
+    try {
+      const res = await axios.get('/api/upload/batches')
+      setUploads(res.data?.batches ?? [])
+    } catch (err) {
+      console.error("Failed to fetch upload history", err)
+      setUploads([])
+    }
+  }
+
+  const handleRollback = async (upload: UploadHistoryItem) => {
+    setRollingBack(upload._id)
+    setError(null)
+    try {
+      await axios.delete(`/api/upload/batches/${upload._id}`)
+      await fetchUploads()
+      onRolledBack()
+    } catch (err) {
+      console.error("Failed to roll back upload", err)
+      setError(`Could not roll back ${upload.fileName}`)
+    } finally {
+      setRollingBack(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>My Uploads</CardTitle>
+        <CardDescription>
+          Every file you have imported. Rolling back an upload removes the rows it added and restores the rows it updated.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+        {uploads.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No uploads yet.</p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">Rejected</TableHead>
+                  <TableHead>Checksum</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {uploads.map((upload) => (
+                  <TableRow key={upload._id}>
+                    <TableCell>
+                      <div className="font-medium">{upload.fileName}</div>
+                      <div className="text-xs text-muted-foreground">{DATASETS[upload.dataType]?.label}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{format(new Date(upload.createdAt), "dd MMM yyyy HH:mm")}</div>
+                      {upload.uploadedBy && (
+                        <div className="text-xs text-muted-foreground">{upload.uploadedBy}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{upload.insertedCount.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{upload.rejectedCount.toLocaleString()}</TableCell>
+                    <TableCell className="font-mono text-xs" title={upload.checksum ?? undefined}>
+                      {upload.checksum ? upload.checksum.slice(0, 12) : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={upload.status === "completed" ? "default" : upload.status === "failed" ? "destructive" : "secondary"}>
+                        {STATUS_LABELS[upload.status]}
+                      </Badge>
+                      {upload.status === "failed" && upload.error && (
+                        <div className="mt-1 text-xs text-muted-foreground">{upload.error}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {upload.status !== "rolled_back" && upload.status !== "processing" && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" disabled={rollingBack === upload._id}>
+                              {rollingBack === upload._id ? "Rolling back..." : "Roll back"}
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Roll back {upload.fileName}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                This deletes the {upload.insertedCount.toLocaleString()} rows imported from this file.
+                                {upload.mode === "upsert"
+                                  ? " Rows it updated are put back as they were, unless a later upload has changed them since."
+                                  : upload.mode === "replace_range"
+                                    ? " Rows it replaced from earlier uploads are not restored."
+                                    : " Data from your other uploads is not affected."}
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleRollback(upload)}>Roll back</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,23 @@
+import { Db } from "mongodb"
+import type { Anomaly, AnomalyStatus } from "@/lib/ml/anomalies"
+
+// What a user decided about one detected anomaly; anomalies without a review are open
+export interface AnomalyReview {
+  userId: string
+  anomalyId: string
+  status: AnomalyStatus
+  reviewedBy: string | null
+  updatedAt: Date
+}
+
+export const anomalyReviews = (db: Db) => db.collection<AnomalyReview>("anomaly_reviews")
+
+// Each anomaly with the status its review gave it
+export async function withReviewStatus(db: Db, userId: string, anomalies: Anomaly[]) {
+  const reviews = await anomalyReviews(db)
+    .find({ userId, anomalyId: { $in: anomalies.map(anomaly => anomaly.id) } })
+    .toArray()
+  const statuses = new Map(reviews.map(review => [review.anomalyId, review.status]))
+
+  return anomalies.map(anomaly => ({ ...anomaly, status: statuses.get(anomaly.id) ?? "open" as AnomalyStatus }))
+}
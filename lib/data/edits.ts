@@ -0,0 +1,169 @@
+import { Db, ObjectId } from "mongodb"
+import type { DatasetField } from "@/lib/upload/column-mapping"
+import { DATASETS, datasetCollection, type DatasetType } from "@/lib/upload/datasets"
+
+// Text columns whose values can be renamed or merged across many rows at once
+export const BULK_EDIT_FIELDS: DatasetField[] = [
+  "Store",
+  "Product",
+  "Category",
+  "Supplier",
+  "Customer_Demographic",
+  "Payment_Method"
+]
+
+// Bulk entries keep the ids of at most this many changed rows, to stay under Mongo's document limit
+const MAX_AUDITED_ROW_IDS = 10000
+
+export type AuditAction = "edit_row" | "bulk_replace"
+
+export interface AuditEntry {
+  _id: ObjectId
+  userId: string
+  editedBy: string | null
+  dataType: DatasetType
+  action: AuditAction
+  field: DatasetField | null
+  // Row edits: the changed fields of the row. Bulk edits: the values that were replaced and the new value.
+  before: Record<string, unknown>
+  after: Record<string, unknown>
+  rowIds: ObjectId[]
+  rowIdsTruncated: boolean
+  matchedCount: number
+  createdAt: Date
+}
+
+export class DataEditError extends Error {
+  constructor(message: string, public details: string[] = []) {
+    super(message)
+    this.name = "DataEditError"
+  }
+}
+
+export const auditLog = (db: Db) => db.collection<AuditEntry>("data_audit_log")
+
+export function bulkEditFieldsOf(dataType: DatasetType) {
+  return BULK_EDIT_FIELDS.filter(field => DATASETS[dataType].fields.includes(field))
+}
+
+// Analytics are cached per user; drop them so the next dashboard load recomputes from corrected data
+export async function invalidateResults(db: Db, userId: string) {
+  await db.collection("ml_results").deleteOne({ userId })
+}
+
+export async function editRow(
+  db: Db,
+  userId: string,
+  editedBy: string | null,
+  dataType: DatasetType,
+  rowId: ObjectId,
+  changes: Record<string, unknown>
+) {
+  const { fields, schema } = DATASETS[dataType]
+  const collection = db.collection(datasetCollection(dataType))
+
+  const row = await collection.findOne({ _id: rowId, userId })
+  if (!row) {
+    throw new DataEditError("Row not found")
+  }
+
+  const editable = Object.fromEntries(
+    Object.entries(changes).filter(([field]) => (fields as string[]).includes(field))
+  )
+  const merged = { ...Object.fromEntries(fields.map(field => [field, row[field]])), ...editable }
+
+  // The edited row must pass the same checks as an uploaded one
+  const result = schema.safeParse(merged)
+  if (!result.success) {
+    throw new DataEditError(
+      "Row is not valid",
+      result.error.issues.map(issue => `${issue.path.join(".")} ${issue.message}`.trim())
+    )
+  }
+
+  const validated = result.data as Record<string, unknown>
+  const changedFields = fields.filter(field => validated[field] !== row[field])
+  if (changedFields.length === 0) {
+    return { row, entry: null }
+  }
+
+  const after = Object.fromEntries(changedFields.map(field => [field, validated[field]]))
+  const before = Object.fromEntries(changedFields.map(field => [field, row[field]]))
+  const now = new Date()
+
+  await collection.updateOne({ _id: rowId, userId }, { $set: { ...after, updatedAt: now } })
+
+  const entry: AuditEntry = {
+    _id: new ObjectId(),
+    userId,
+    editedBy,
+    dataType,
+    action: "edit_row",
+    field: null,
+    before,
+    after,
+    rowIds: [rowId],
+    rowIdsTruncated: false,
+    matchedCount: 1,
+    createdAt: now
+  }
+  await auditLog(db).insertOne(entry)
+  await invalidateResults(db, userId)
+
+  return { row: { ...row, ...after }, entry }
+}
+
+// Rename one or more values of a text column to a single value, e.g. merge two spellings of a store
+export async function bulkReplace(
+  db: Db,
+  userId: string,
+  editedBy: string | null,
+  dataType: DatasetType,
+  field: DatasetField,
+  from: string[],
+  to: string
+) {
+  if (!bulkEditFieldsOf(dataType).includes(field)) {
+    throw new DataEditError(`${field} cannot be bulk edited`)
+  }
+
+  const value = to.trim()
+  const replaced = Array.from(new Set(from)).filter(current => current !== value)
+  if (!value || replaced.length === 0) {
+    throw new DataEditError("Choose the values to replace and a different new value")
+  }
+
+  const collection = db.collection(datasetCollection(dataType))
+  const filter = { userId, [field]: { $in: replaced } }
+
+  const rowIds = (await collection
+    .find(filter, { projection: { _id: 1 } })
+    .limit(MAX_AUDITED_ROW_IDS + 1)
+    .toArray())
+    .map(row => row._id)
+
+  const now = new Date()
+  const result = await collection.updateMany(filter, { $set: { [field]: value, updatedAt: now } })
+
+  const entry: AuditEntry = {
+    _id: new ObjectId(),
+    userId,
+    editedBy,
+    dataType,
+    action: "bulk_replace",
+    field,
+    before: { [field]: replaced },
+    after: { [field]: value },
+    rowIds: rowIds.slice(0, MAX_AUDITED_ROW_IDS),
+    rowIdsTruncated: rowIds.length > MAX_AUDITED_ROW_IDS,
+    matchedCount: result.modifiedCount,
+    createdAt: now
+  }
+
+  if (result.modifiedCount > 0) {
+    await auditLog(db).insertOne(entry)
+    await invalidateResults(db, userId)
+  }
+
+  return { modifiedCount: result.modifiedCount, entry }
+}
@@ -0,0 +1,160 @@
+import Papa from "papaparse"
+import { format } from "date-fns"
+import { orderTotal, type PurchaseOrder } from "@/lib/data/purchase-orders"
+
+export type PurchaseOrderExportFormat = "csv" | "pdf"
+
+const money = (value: number | null) => (value === null ? "" : value.toFixed(2))
+const day = (date: Date | null) => (date ? format(new Date(date), "dd/MM/yyyy") : "")
+
+// One row per line, with the order's details repeated so the file imports cleanly into a spreadsheet or ERP
+export function purchaseOrderCsv(order: PurchaseOrder) {
+  return Papa.unparse(order.lines.map(line => ({
+    PO_Number: order.number,
+    Supplier: order.supplier,
+    Status: order.status,
+    Store: line.store,
+    Product: line.product,
+    Category: line.category,
+    Quantity: line.quantity,
+    Unit_Cost_BWP: money(line.unitCost),
+    Line_Total_BWP: money(line.unitCost === null ? null : line.unitCost * line.quantity),
+    Received_Quantity: line.receivedQuantity ?? "",
+    Sent: day(order.sentAt),
+    Expected: day(order.expectedAt),
+    Received: day(order.receivedAt)
+  })))
+}
+
+interface PdfText {
+  x: number
+  y: number
+  text: string
+  size: number
+  bold?: boolean
+  // Right-align at x instead of starting there
+  alignRight?: boolean
+}
+
+// A4 in points
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 50
+const ROW_HEIGHT = 16
+
+// The standard fonts only cover Latin-1; anything else prints as "?"
+const pdfString = (text: string) =>
+  text.replace(/[^\x20-\xff]/g, "?").replace(/[\\()]/g, match => `\\${match}`)
+
+// Helvetica is about half an em wide on average; digits are exactly 0.556 em
+const textWidth = (text: string, size: number) => text.length * size * (/^[\d.,\s-]*$/.test(text) ? 0.556 : 0.5)
+
+const fit = (text: string, width: number, size: number) =>
+  textWidth(text, size) <= width ? text : `${text.slice(0, Math.max(1, Math.floor(width / (size * 0.5)) - 3))}...`
+
+// Writes pages of text with the standard Helvetica fonts, which every PDF reader has, so no fonts are embedded
+function pdfDocument(pages: PdfText[][]) {
+  const objects: string[] = []
+  const pageIds = Array.from(pages.keys(), index => 5 + index * 2)
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>"
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+
+  pages.forEach((texts, index) => {
+    const content = texts.map(({ x, y, text, size, bold, alignRight }) => {
+      const left = alignRight ? x - textWidth(text, size) : x
+      return `BT /${bold ? "F2" : "F1"} ${size} Tf ${left.toFixed(1)} ${y.toFixed(1)} Td (${pdfString(text)}) Tj ET`
+    }).join("\n")
+
+    objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`
+  })
+
+  let pdf = "%PDF-1.4\n"
+  const offsets: number[] = []
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, "latin1")
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+
+  const xref = Buffer.byteLength(pdf, "latin1")
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  pdf += offsets.slice(1).map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("")
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  return Buffer.from(pdf, "latin1")
+}
+
+// A printable order: the supplier and dates, then one row per line with a total
+export function purchaseOrderPdf(order: PurchaseOrder) {
+  const received = order.status === "received"
+  const columns = [
+    { title: "Store", x: MARGIN },
+    { title: "Product", x: MARGIN + 115 },
+    { title: "Qty", x: received ? 360 : 390, right: true },
+    ...(received ? [{ title: "Received", x: 415, right: true }] : []),
+    { title: "Unit cost", x: 475, right: true },
+    { title: "Total (BWP)", x: PAGE_WIDTH - MARGIN, right: true }
+  ]
+
+  const pages: PdfText[][] = [[]]
+  let y = PAGE_HEIGHT - MARGIN
+  const add = (text: PdfText) => pages[pages.length - 1].push(text)
+
+  add({ x: MARGIN, y, text: `Purchase Order ${order.number}`, size: 18, bold: true })
+  y -= 28
+  const details = [
+    ["Supplier", order.supplier],
+    ["Status", order.status.charAt(0).toUpperCase() + order.status.slice(1)],
+    ["Created", day(order.createdAt)],
+    ["Sent", day(order.sentAt)],
+    ["Expected", day(order.expectedAt)],
+    ["Received", day(order.receivedAt)],
+    ["Approved by", order.approvedBy ?? ""]
+  ].filter(([, value]) => value)
+  details.forEach(([label, value]) => {
+    add({ x: MARGIN, y, text: label, size: 10, bold: true })
+    add({ x: MARGIN + 80, y, text: value, size: 10 })
+    y -= 14
+  })
+
+  const header = () => {
+    y -= 12
+    columns.forEach(column => add({ x: column.x, y, text: column.title, size: 10, bold: true, alignRight: column.right }))
+    y -= ROW_HEIGHT
+  }
+  header()
+
+  order.lines.forEach(line => {
+    if (y < MARGIN + ROW_HEIGHT) {
+      pages.push([])
+      y = PAGE_HEIGHT - MARGIN
+      header()
+    }
+    const cells = [
+      fit(line.store, 110, 10),
+      fit(line.product, 150, 10),
+      String(line.quantity),
+      ...(received ? [String(line.receivedQuantity ?? "")] : []),
+      money(line.unitCost),
+      money(line.unitCost === null ? null : line.unitCost * line.quantity)
+    ]
+    cells.forEach((text, index) => add({ x: columns[index].x, y, text, size: 10, alignRight: columns[index].right }))
+    y -= ROW_HEIGHT
+  })
+
+  y -= 4
+  add({ x: 475, y, text: "Total", size: 10, bold: true, alignRight: true })
+  add({ x: PAGE_WIDTH - MARGIN, y, text: orderTotal(order).toFixed(2), size: 10, bold: true, alignRight: true })
+
+  if (order.notes) {
+    y -= 28
+    add({ x: MARGIN, y, text: "Notes", size: 10, bold: true })
+    add({ x: MARGIN + 80, y, text: fit(order.notes, PAGE_WIDTH - 2 * MARGIN - 80, 10), size: 10 })
+  }
+
+  return pdfDocument(pages)
+}
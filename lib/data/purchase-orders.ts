@@ -0,0 +1,309 @@
+import { Db, MongoServerError, ObjectId } from "mongodb"
+import _ from "lodash"
+import type { OrderedStock } from "@/lib/ml/data-processor"
+
+// Drafts can be edited or deleted; approving one sends it, and it is received when the stock arrives
+export type PurchaseOrderStatus = "draft" | "sent" | "received"
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ["draft", "sent", "received"]
+
+// A store and product below its reorder point, as the analysis reports it in needsReorder
+export interface ReorderItem {
+  name: string
+  store: string
+  category: string
+  supplier: string
+  recommendedOrder: number
+  unitCost: number | null
+  reorderPoint: number
+  stockPosition: number
+  leadTime: number
+}
+
+export interface PurchaseOrderLine {
+  store: string
+  product: string
+  category: string
+  quantity: number
+  // Recommended when the order was drafted, for comparison after edits
+  recommendedQuantity: number
+  unitCost: number | null
+  reorderPoint: number
+  stockPosition: number
+  // Units that arrived; null until the order is received
+  receivedQuantity: number | null
+}
+
+export interface PurchaseOrder {
+  _id: ObjectId
+  userId: string
+  // PO-0001, numbered per user
+  number: string
+  supplier: string
+  status: PurchaseOrderStatus
+  lines: PurchaseOrderLine[]
+  // Average lead time of the lines when drafted, in days
+  leadTimeDays: number
+  notes: string
+  createdBy: string | null
+  approvedBy: string | null
+  createdAt: Date
+  updatedAt: Date
+  sentAt: Date | null
+  // When the supplier should deliver: sent plus the lead time
+  expectedAt: Date | null
+  receivedAt: Date | null
+}
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+    this.name = "PurchaseOrderError"
+  }
+}
+
+export const purchaseOrders = (db: Db) => db.collection<PurchaseOrder>("purchase_orders")
+
+// Last PO number handed out per user; numbers are never reused, even after a draft is deleted
+const purchaseOrderCounters = (db: Db) => db.collection<{ _id: string; seq: number }>("purchase_order_counters")
+
+const orderNumber = (seq: number) => `PO-${String(seq).padStart(4, "0")}`
+
+// Reserves `count` consecutive numbers for the user and returns the first
+async function reserveOrderNumbers(db: Db, userId: string, count: number) {
+  const counters = purchaseOrderCounters(db)
+  let highest = 0
+  if (!(await counters.findOne({ _id: userId }))) {
+    // Users with orders from before the counter continue after their highest number
+    const existing = await purchaseOrders(db).find({ userId }, { projection: { number: 1 } }).toArray()
+    highest = _.max(existing.map(order => Number(order.number.replace(/^PO-/, "")) || 0)) ?? 0
+  }
+
+  // Seeding and incrementing in one update, so concurrent drafts on a new counter cannot share a number;
+  // the seed is ignored once the counter exists
+  const counter = await counters.findOneAndUpdate(
+    { _id: userId },
+    [{ $set: { seq: { $add: [{ $ifNull: ["$seq", highest] }, count] } } }],
+    { upsert: true, returnDocument: "after" }
+  )
+  return (counter?.seq ?? highest + count) - count + 1
+}
+
+// Created once per server process rather than on every draft; a failed attempt is retried on the next draft
+let orderNumberIndex: Promise<string> | null = null
+
+function ensureOrderNumberIndex(db: Db) {
+  orderNumberIndex ??= purchaseOrders(db)
+    .createIndex({ userId: 1, number: 1 }, { unique: true })
+    .catch(error => {
+      orderNumberIndex = null
+      throw error
+    })
+  return orderNumberIndex
+}
+
+const lineKey = (line: { store: string; product: string }) => `${line.store}\u0000${line.product}`
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// One draft per supplier from the items below their reorder point. Items already on a draft or sent order are
+// left out, so drafting again does not order the same stock twice.
+export async function draftPurchaseOrders(db: Db, userId: string, createdBy: string | null, items: ReorderItem[]) {
+  const open = await purchaseOrders(db)
+    .find({ userId, status: { $in: ["draft", "sent"] } }, { projection: { lines: 1 } })
+    .toArray()
+  const ordered = new Set(open.flatMap(order => order.lines.map(lineKey)))
+
+  const pending = items.filter(item => item.recommendedOrder > 0 && !ordered.has(lineKey({ store: item.store, product: item.name })))
+  if (pending.length === 0) return []
+
+  const bySupplier = Object.entries(_.groupBy(pending, item => item.supplier || "Unknown supplier"))
+    .sort(([a], [b]) => a.localeCompare(b))
+  await ensureOrderNumberIndex(db)
+  const first = await reserveOrderNumbers(db, userId, bySupplier.length)
+  const now = new Date()
+
+  const orders: PurchaseOrder[] = bySupplier
+    .map(([supplier, supplierItems], index) => ({
+      _id: new ObjectId(),
+      userId,
+      number: orderNumber(first + index),
+      supplier,
+      status: "draft",
+      lines: _.sortBy(supplierItems, ["store", "name"]).map(item => ({
+        store: item.store,
+        product: item.name,
+        category: item.category,
+        quantity: item.recommendedOrder,
+        recommendedQuantity: item.recommendedOrder,
+        unitCost: item.unitCost,
+        reorderPoint: item.reorderPoint,
+        stockPosition: item.stockPosition,
+        receivedQuantity: null
+      })),
+      leadTimeDays: _.round(_.meanBy(supplierItems, "leadTime"), 1),
+      notes: "",
+      createdBy,
+      approvedBy: null,
+      createdAt: now,
+      updatedAt: now,
+      sentAt: null,
+      expectedAt: null,
+      receivedAt: null
+    }))
+
+  try {
+    await purchaseOrders(db).insertMany(orders)
+  } catch (error) {
+    // A number already taken, e.g. by orders numbered before the counter existed
+    if (error instanceof MongoServerError && error.code === 11000) {
+      throw new PurchaseOrderError("Purchase order numbers clashed with an existing order; try again", 409)
+    }
+    throw error
+  }
+  return orders
+}
+
+async function findOrder(db: Db, userId: string, orderId: ObjectId) {
+  const order = await purchaseOrders(db).findOne({ _id: orderId, userId })
+  if (!order) {
+    throw new PurchaseOrderError("Purchase order not found", 404)
+  }
+  return order
+}
+
+// Applies a change only while the order is as it was read, so concurrent requests cannot both apply one
+async function updateUnchanged(
+  db: Db,
+  order: PurchaseOrder,
+  update: Partial<PurchaseOrder>,
+  { sameVersion = false } = {}
+) {
+  const updated = await purchaseOrders(db).findOneAndUpdate(
+    { _id: order._id, userId: order.userId, status: order.status, ...(sameVersion ? { updatedAt: order.updatedAt } : {}) },
+    { $set: update },
+    { returnDocument: "after" }
+  )
+  if (!updated) {
+    throw new PurchaseOrderError("This purchase order was changed by another request; reload it and try again", 409)
+  }
+  return updated
+}
+
+const wholeUnits = (value: unknown) => {
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? Math.round(number) : null
+}
+
+// Changes the quantities and unit costs of a draft's lines; lines set to 0 units are removed
+export async function updateDraft(
+  db: Db,
+  userId: string,
+  orderId: ObjectId,
+  changes: { lines?: Array<{ store: string; product: string; quantity: unknown; unitCost?: unknown }>; notes?: unknown }
+) {
+  const order = await findOrder(db, userId, orderId)
+  if (order.status !== "draft") {
+    throw new PurchaseOrderError("Only draft purchase orders can be edited")
+  }
+
+  const edits = new Map((changes.lines ?? []).map(line => [lineKey(line), line]))
+  const lines = order.lines.flatMap(line => {
+    const edit = edits.get(lineKey(line))
+    if (!edit) return [line]
+
+    const quantity = wholeUnits(edit.quantity)
+    if (quantity === null) {
+      throw new PurchaseOrderError(`Quantity of ${line.product} at ${line.store} must be a whole number of units`)
+    }
+    const unitCost = edit.unitCost === undefined || edit.unitCost === null || edit.unitCost === ""
+      ? null
+      : Number(edit.unitCost)
+    if (unitCost !== null && !(unitCost >= 0)) {
+      throw new PurchaseOrderError(`Unit cost of ${line.product} must be a positive amount`)
+    }
+    return quantity > 0 ? [{ ...line, quantity, unitCost }] : []
+  })
+  if (lines.length === 0) {
+    throw new PurchaseOrderError("A purchase order needs at least one line; delete it instead")
+  }
+
+  // The new lines are built from the ones read, so another edit in between would be lost
+  return updateUnchanged(db, order, {
+    lines,
+    notes: typeof changes.notes === "string" ? changes.notes.slice(0, 1000) : order.notes,
+    updatedAt: new Date()
+  }, { sameVersion: true })
+}
+
+// Approves a draft and marks it sent to the supplier
+export async function approveOrder(db: Db, userId: string, approvedBy: string | null, orderId: ObjectId) {
+  const order = await findOrder(db, userId, orderId)
+  if (order.status !== "draft") {
+    throw new PurchaseOrderError("Only draft purchase orders can be approved")
+  }
+
+  const now = new Date()
+  return updateUnchanged(db, order, {
+    status: "sent",
+    approvedBy,
+    sentAt: now,
+    expectedAt: new Date(now.getTime() + order.leadTimeDays * DAY_MS),
+    updatedAt: now
+  })
+}
+
+// Marks a sent order received. Lines default to arriving in full; `received` records short or over deliveries.
+export async function receiveOrder(
+  db: Db,
+  userId: string,
+  orderId: ObjectId,
+  received: Array<{ store: string; product: string; quantity: unknown }> = []
+) {
+  const order = await findOrder(db, userId, orderId)
+  if (order.status !== "sent") {
+    throw new PurchaseOrderError("Only sent purchase orders can be received")
+  }
+
+  const deliveries = new Map(received.map(line => [lineKey(line), line.quantity]))
+  const lines = order.lines.map(line => {
+    if (!deliveries.has(lineKey(line))) return { ...line, receivedQuantity: line.quantity }
+
+    const quantity = wholeUnits(deliveries.get(lineKey(line)))
+    if (quantity === null) {
+      throw new PurchaseOrderError(`Received quantity of ${line.product} at ${line.store} must be a whole number of units`)
+    }
+    return { ...line, receivedQuantity: quantity }
+  })
+
+  const now = new Date()
+  return updateUnchanged(db, order, { status: "received", lines, receivedAt: now, updatedAt: now })
+}
+
+export async function deleteDraft(db: Db, userId: string, orderId: ObjectId) {
+  const order = await findOrder(db, userId, orderId)
+  if (order.status !== "draft") {
+    throw new PurchaseOrderError("Only draft purchase orders can be deleted")
+  }
+  const result = await purchaseOrders(db).deleteOne({ _id: orderId, userId, status: "draft" })
+  if (result.deletedCount === 0) {
+    throw new PurchaseOrderError("This purchase order was changed by another request; reload it and try again", 409)
+  }
+}
+
+// Stock on sent and received orders, for the inventory analysis to count as on order or newly arrived
+export async function orderedStock(db: Db, userId: string): Promise<OrderedStock[]> {
+  const orders = await purchaseOrders(db)
+    .find({ userId, status: { $in: ["sent", "received"] } }, { projection: { lines: 1, receivedAt: 1 } })
+    .toArray()
+
+  return orders.flatMap(order => order.lines.map(line => ({
+    store: line.store,
+    product: line.product,
+    units: order.receivedAt ? line.receivedQuantity ?? line.quantity : line.quantity,
+    receivedAt: order.receivedAt
+  })))
+}
+
+export const orderTotal = (order: Pick<PurchaseOrder, "lines">) =>
+  _.sumBy(order.lines, line => line.quantity * (line.unitCost ?? 0))
@@ -0,0 +1,117 @@
+import type { Db, Document } from "mongodb"
+import { DateTime } from "luxon"
+import type { DatasetField } from "@/lib/upload/column-mapping"
+import { DATASETS, datasetCollection, type DatasetType } from "@/lib/upload/datasets"
+
+// Text columns the explorer offers as exact-match filters, where the dataset has them
+export const FILTER_FIELDS = ["Store", "Product", "Category", "Supplier"] as const
+
+export type FilterField = typeof FILTER_FIELDS[number]
+
+export const PAGE_SIZES = [25, 50, 100]
+
+const DEFAULT_PAGE_SIZE = 50
+
+export interface RowQuery {
+  page: number
+  pageSize: number
+  filters: Partial<Record<FilterField, string>>
+  // ISO dates, inclusive, applied to the dataset's dateField
+  from: string | null
+  to: string | null
+  sort: DatasetField | null
+  order: "asc" | "desc"
+}
+
+export function filterFieldsOf(dataType: DatasetType): FilterField[] {
+  return FILTER_FIELDS.filter(field => (DATASETS[dataType].fields as string[]).includes(field))
+}
+
+const isoDate = (value: string | null) =>
+  value && DateTime.fromISO(value).isValid ? value : null
+
+export function parseRowQuery(params: URLSearchParams, dataType: DatasetType): RowQuery {
+  const pageSize = Number(params.get("pageSize"))
+  const sort = params.get("sort")
+
+  return {
+    page: Math.max(1, Math.floor(Number(params.get("page")) || 1)),
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_PAGE_SIZE,
+    filters: Object.fromEntries(
+      filterFieldsOf(dataType)
+        .map(field => [field, params.get(field.toLowerCase())])
+        .filter(([, value]) => value)
+    ),
+    from: isoDate(params.get("from")),
+    to: isoDate(params.get("to")),
+    sort: sort && (DATASETS[dataType].fields as string[]).includes(sort) ? sort as DatasetField : null,
+    order: params.get("order") === "desc" ? "desc" : "asc"
+  }
+}
+
+// Sortable copy of each dd/MM/yyyy field, named `_${field}`
+const dateStages = (dataType: DatasetType): Document[] => {
+  const { dateFields } = DATASETS[dataType]
+  if (dateFields.length === 0) return []
+
+  return [{
+    $addFields: Object.fromEntries(dateFields.map(field => [
+      `_${field}`,
+      { $dateFromString: { dateString: `$${field}`, format: "%d/%m/%Y", onError: null, onNull: null } }
+    ]))
+  }]
+}
+
+// Stages selecting the user's rows that match the query's filters and date range
+export function matchStages(userId: string, dataType: DatasetType, query: RowQuery): Document[] {
+  const stages: Document[] = [{ $match: { userId, ...query.filters } }, ...dateStages(dataType)]
+  const { dateField } = DATASETS[dataType]
+
+  if (dateField && (query.from || query.to)) {
+    const range: Document = {}
+    if (query.from) range.$gte = DateTime.fromISO(query.from, { zone: "utc" }).toJSDate()
+    if (query.to) range.$lte = DateTime.fromISO(query.to, { zone: "utc" }).toJSDate()
+    stages.push({ $match: { [`_${dateField}`]: range } })
+  }
+
+  return stages
+}
+
+export async function findRows(db: Db, userId: string, dataType: DatasetType, query: RowQuery) {
+  const { dateFields } = DATASETS[dataType]
+  const sortKey = query.sort
+    ? (dateFields.includes(query.sort) ? `_${query.sort}` : query.sort)
+    : "_id"
+  const direction = query.order === "desc" ? -1 : 1
+
+  const [result] = await db.collection(datasetCollection(dataType)).aggregate([
+    ...matchStages(userId, dataType, query),
+    {
+      $facet: {
+        // _id breaks ties so pages do not overlap when many rows share the sort value
+        rows: [
+          { $sort: sortKey === "_id" ? { _id: direction } : { [sortKey]: direction, _id: 1 } },
+          { $skip: (query.page - 1) * query.pageSize },
+          { $limit: query.pageSize },
+          ...(dateFields.length > 0 ? [{ $project: Object.fromEntries(dateFields.map(field => [`_${field}`, 0])) }] : [])
+        ],
+        total: [{ $count: "count" }]
+      }
+    }
+  ]).toArray()
+
+  return {
+    rows: result?.rows ?? [],
+    total: result?.total[0]?.count ?? 0
+  }
+}
+
+// Distinct values of text columns, for the explorer's filter and bulk edit dropdowns
+export async function distinctValues(db: Db, userId: string, dataType: DatasetType, fields: DatasetField[]) {
+  const collection = db.collection(datasetCollection(dataType))
+  const values = await Promise.all(fields.map(field => collection.distinct(field, { userId })))
+
+  return Object.fromEntries(
+    fields.map((field, i) => [field, values[i].map(String).sort((a, b) => a.localeCompare(b))])
+  ) as Partial<Record<DatasetField, string[]>>
+}
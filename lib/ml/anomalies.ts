@@ -0,0 +1,118 @@
+import _ from 'lodash';
+
+export type AnomalyMetric = 'units_sold' | 'price';
+export type AnomalySeverity = 'high' | 'medium' | 'low';
+export type AnomalyStatus = 'open' | 'acknowledged' | 'dismissed';
+
+export const ANOMALY_STATUSES: AnomalyStatus[] = ['open', 'acknowledged', 'dismissed'];
+
+export const ANOMALY_METRIC_LABELS: Record<AnomalyMetric, string> = {
+  units_sold: 'Units sold',
+  price: 'Price'
+};
+
+// The baseline for a day is the median of the same weekday over up to this many earlier weeks
+export const BASELINE_WEEKS = 8;
+// Days with fewer earlier same-weekday values than this are not scored
+export const MIN_BASELINE_WEEKS = 4;
+
+// Robust z-scores from this far out are anomalies; 3.5 is the usual cut-off for MAD-based scores
+export const ANOMALY_THRESHOLD = 3.5;
+const MEDIUM_SEVERITY_SCORE = 6;
+const HIGH_SEVERITY_SCORE = 10;
+
+// Scales the median absolute deviation to a standard deviation for normally distributed values
+const MAD_TO_STD = 1.4826;
+
+export interface Anomaly {
+  id: string;
+  metric: AnomalyMetric;
+  product: string;
+  date: string;
+  value: number;
+  // Median of the same weekday over the baseline weeks
+  expected: number;
+  // Expected value plus or minus the threshold's worth of robust spread
+  lower: number;
+  upper: number;
+  score: number;
+  direction: 'high' | 'low';
+  severity: AnomalySeverity;
+  explanation: string;
+}
+
+export interface SeriesAnomaly {
+  index: number;
+  value: number;
+  expected: number;
+  spread: number;
+  score: number;
+}
+
+export interface BaselineOptions {
+  // Spreads below this share of the expected value are raised to it, so a perfectly steady series
+  // does not flag every small change
+  minRelativeSpread: number;
+  minSpread: number;
+}
+
+// Units can move by a tenth from one week to the next without being unusual, prices by a twentieth
+export const UNITS_BASELINE: BaselineOptions = { minRelativeSpread: 0.1, minSpread: 1 };
+export const PRICE_BASELINE: BaselineOptions = { minRelativeSpread: 0.05, minSpread: 0.01 };
+
+// Anomalies shown in the feed, most recent first
+export const MAX_FEED_ANOMALIES = 100;
+
+export function anomalySeverity(score: number): AnomalySeverity {
+  const size = Math.abs(score);
+  return size >= HIGH_SEVERITY_SCORE ? 'high' : size >= MEDIUM_SEVERITY_SCORE ? 'medium' : 'low';
+}
+
+// FNV-1a, so the same anomaly keeps the same id between runs and its review sticks to it
+export function anomalyId(metric: AnomalyMetric, product: string, date: string) {
+  let hash = 0x811c9dc5;
+  for (const char of `${metric}|${product}|${date}`) {
+    hash ^= char.codePointAt(0) as number;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${metric}-${date.split('/').reverse().join('')}-${hash.toString(16).padStart(8, '0')}`;
+}
+
+// Median of the same weekday in earlier weeks and the scaled median absolute deviation around it.
+// Days without a value (null) are skipped, both as the day scored and in its baseline.
+export function seasonalBaseline(values: (number | null)[], index: number, options: BaselineOptions) {
+  const history = _.range(1, BASELINE_WEEKS + 1)
+    .map(week => values[index - week * 7])
+    .filter((value): value is number => value !== null && value !== undefined);
+  if (history.length < MIN_BASELINE_WEEKS) return null;
+
+  const expected = median(history);
+  const mad = median(history.map(value => Math.abs(value - expected)));
+  const spread = Math.max(MAD_TO_STD * mad, options.minRelativeSpread * Math.abs(expected), options.minSpread);
+
+  return { expected, spread };
+}
+
+// Days whose value is further than the threshold from their weekday baseline, in robust standard deviations
+export function detectSeriesAnomalies(values: (number | null)[], options: BaselineOptions): SeriesAnomaly[] {
+  const anomalies: SeriesAnomaly[] = [];
+
+  values.forEach((value, index) => {
+    if (value === null) return;
+    const baseline = seasonalBaseline(values, index, options);
+    if (!baseline) return;
+
+    const score = (value - baseline.expected) / baseline.spread;
+    if (Math.abs(score) >= ANOMALY_THRESHOLD) {
+      anomalies.push({ index, value, expected: baseline.expected, spread: baseline.spread, score });
+    }
+  });
+
+  return anomalies;
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
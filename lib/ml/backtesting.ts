@@ -0,0 +1,256 @@
+import { DateTime } from 'luxon';
+import _ from 'lodash';
+import { PolynomialRegression } from 'ml-regression';
+import { calendarFlags, DEFAULT_FORECAST_CALENDAR, type CalendarFlags, type ForecastCalendar } from '@/lib/ml/calendar';
+import {
+  eligibleModels,
+  fitAndForecast,
+  FORECAST_MODEL_LABELS,
+  FORECAST_MODELS,
+  toDailySeries,
+  type ForecastModel
+} from '@/lib/ml/forecasting';
+import type { BusinessData } from '@/lib/ml/data-processor';
+
+// Every model the app forecasts with: the trailing moving average on the dashboard,
+// the smoothing models behind the overall forecast and the per-product polynomial trend
+export type BacktestModel = 'moving_average' | 'polynomial' | ForecastModel;
+
+export const BACKTEST_MODELS: BacktestModel[] = ['moving_average', 'polynomial', ...FORECAST_MODELS];
+
+export const BACKTEST_MODEL_LABELS: Record<BacktestModel, string> = {
+  moving_average: '7-day moving average',
+  polynomial: 'Polynomial regression',
+  ...FORECAST_MODEL_LABELS
+};
+
+export type BacktestLevel = 'total' | 'product' | 'store';
+
+// Each fold forecasts a week ahead from a later origin than the last
+const HORIZON_DAYS = 7;
+const FOLDS = 4;
+const FOLD_STEP_DAYS = 7;
+// Origins with less history than this are skipped
+const MIN_TRAINING_DAYS = 28;
+const MOVING_AVERAGE_WINDOW = 7;
+const POLYNOMIAL_DEGREE = 2;
+// MASE is scaled by the error of forecasting each day as the same weekday last week
+const SEASON_LENGTH = 7;
+// Backtest only the best-selling products and stores, as the forecasts do
+const MAX_BACKTEST_SERIES = 20;
+
+export interface AccuracyScores {
+  // Mean absolute percentage error over days with sales; null when no day had any
+  mape: number | null;
+  // Symmetric MAPE, skipping days where both actual and forecast are zero
+  smape: number | null;
+  // MAE relative to a seasonal naive forecast on the training data; below 1 beats "same day last week"
+  mase: number | null;
+  // Mean forecast minus actual in units; positive means the model over-forecasts
+  bias: number;
+  // Forecast days scored across all folds
+  points: number;
+}
+
+export interface ModelScore extends AccuracyScores {
+  model: BacktestModel;
+}
+
+export interface SeriesBacktest {
+  level: BacktestLevel;
+  // Product or store name; 'All sales' for the total
+  key: string;
+  historyDays: number;
+  folds: number;
+  // Best first, ranked by MASE
+  scores: ModelScore[];
+  best: BacktestModel | null;
+}
+
+export interface LeaderboardEntry {
+  model: BacktestModel;
+  // Averaged over every product and store the model could be fitted to
+  meanMase: number | null;
+  meanSmape: number | null;
+  meanBias: number;
+  // Products and stores where the model was the most accurate
+  wins: number;
+  series: number;
+}
+
+export interface Leaderboard {
+  horizonDays: number;
+  // Rolling origins that actually ran; short series get fewer than FOLDS
+  minFolds: number;
+  maxFolds: number;
+  // Most wins first, then lowest mean MASE
+  models: LeaderboardEntry[];
+  total: SeriesBacktest | null;
+  products: SeriesBacktest[];
+  stores: SeriesBacktest[];
+}
+
+interface Fold {
+  actual: number[];
+  forecast: number[];
+  scale: number | null;
+}
+
+// In-sample MAE of the naive forecast: same day last week, or yesterday when there is under two weeks
+function naiveScale(training: number[]) {
+  const lag = training.length > 2 * SEASON_LENGTH ? SEASON_LENGTH : 1;
+  const errors = training.slice(lag).map((value, i) => Math.abs(value - training[i]));
+  const scale = _.mean(errors);
+  return errors.length > 0 && scale > 0 ? scale : null;
+}
+
+function forecastWith(
+  model: BacktestModel,
+  training: number[],
+  flags: CalendarFlags[],
+  horizon: number
+): number[] | null {
+  if (model === 'moving_average') {
+    const level = _.mean(training.slice(-MOVING_AVERAGE_WINDOW));
+    return Array(horizon).fill(level);
+  }
+
+  if (model === 'polynomial') {
+    const timePoints = _.range(training.length);
+    const regression = new PolynomialRegression(timePoints, training, POLYNOMIAL_DEGREE);
+    return _.range(horizon).map(i => Math.max(0, regression.predict(training.length + i)));
+  }
+
+  if (!eligibleModels(training).includes(model)) return null;
+  return fitAndForecast(training, flags, model, horizon).forecast;
+}
+
+function scoreFolds(folds: Fold[]): AccuracyScores {
+  const pairs = folds.flatMap(fold => fold.actual.map((actual, i) => ({ actual, forecast: fold.forecast[i] })));
+  const selling = pairs.filter(pair => pair.actual !== 0);
+  const nonZero = pairs.filter(pair => pair.actual !== 0 || pair.forecast !== 0);
+  const scaled = folds.filter(fold => fold.scale !== null);
+
+  return {
+    mape: selling.length > 0
+      ? 100 * _.mean(selling.map(pair => Math.abs(pair.forecast - pair.actual) / Math.abs(pair.actual)))
+      : null,
+    smape: nonZero.length > 0
+      ? 100 * _.mean(nonZero.map(pair =>
+        2 * Math.abs(pair.forecast - pair.actual) / (Math.abs(pair.actual) + Math.abs(pair.forecast))
+      ))
+      : null,
+    mase: scaled.length > 0
+      ? _.mean(scaled.map(fold =>
+        _.mean(fold.actual.map((actual, i) => Math.abs(fold.forecast[i] - actual))) / (fold.scale as number)
+      ))
+      : null,
+    bias: pairs.length > 0 ? _.mean(pairs.map(pair => pair.forecast - pair.actual)) : 0,
+    points: pairs.length
+  };
+}
+
+// Rolling-origin evaluation: each model is refitted on an expanding window of history and
+// forecasts the week after it, for up to FOLDS origins ending at the last day of data.
+// `values` are consecutive days starting at `start`, with days without sales as zero.
+export function rollingOriginBacktest(
+  values: number[],
+  start: DateTime,
+  calendar: ForecastCalendar = DEFAULT_FORECAST_CALENDAR
+): { folds: number; scores: ModelScore[] } {
+  const origins = _.range(FOLDS)
+    .map(k => values.length - HORIZON_DAYS - k * FOLD_STEP_DAYS)
+    .filter(origin => origin >= MIN_TRAINING_DAYS)
+    .reverse();
+  const flags = calendarFlags(start, values.length, calendar);
+
+  const scores = BACKTEST_MODELS.flatMap(model => {
+    const folds = origins.flatMap(origin => {
+      const training = values.slice(0, origin);
+      const forecast = forecastWith(model, training, flags, HORIZON_DAYS);
+      if (!forecast) return [];
+      return [{ actual: values.slice(origin, origin + HORIZON_DAYS), forecast, scale: naiveScale(training) }];
+    });
+    // A model that could not be fitted at every origin is not comparable with the rest
+    if (folds.length === 0 || folds.length < origins.length) return [];
+    return [{ model, ...scoreFolds(folds) }];
+  });
+
+  return { folds: origins.length, scores: rankScores(scores) };
+}
+
+// Lowest MASE first; series that never sold fall back to sMAPE, then absolute bias
+function rankScores(scores: ModelScore[]) {
+  return _.sortBy(scores, [
+    score => score.mase ?? Infinity,
+    score => score.smape ?? Infinity,
+    score => Math.abs(score.bias)
+  ]);
+}
+
+function backtestSeries(
+  level: BacktestLevel,
+  key: string,
+  rows: BusinessData[],
+  calendar: ForecastCalendar
+): SeriesBacktest | null {
+  const totals: Record<string, number> = {};
+  rows.forEach(row => {
+    totals[row.Date] = (totals[row.Date] ?? 0) + row.Units_Sold;
+  });
+  const { start, values } = toDailySeries(totals);
+  const { folds, scores } = rollingOriginBacktest(values, start, calendar);
+  if (folds === 0) return null;
+
+  return { level, key, historyDays: values.length, folds, scores, best: scores[0]?.model ?? null };
+}
+
+function topGroups(data: BusinessData[], field: 'Product' | 'Store') {
+  const groups = _.groupBy(data, field);
+  return _.orderBy(Object.keys(groups), key => _.sumBy(groups[key], 'Revenue_BWP'), 'desc')
+    .slice(0, MAX_BACKTEST_SERIES)
+    .map(key => ({ key, rows: groups[key] }));
+}
+
+// Backtests every model on total sales and on each top product and store, and ranks the models overall
+export function buildLeaderboard(
+  data: BusinessData[],
+  calendar: ForecastCalendar = DEFAULT_FORECAST_CALENDAR
+): Leaderboard {
+  const total = backtestSeries('total', 'All sales', data, calendar);
+  const products = topGroups(data, 'Product')
+    .map(({ key, rows }) => backtestSeries('product', key, rows, calendar))
+    .filter((series): series is SeriesBacktest => series !== null);
+  const stores = topGroups(data, 'Store')
+    .map(({ key, rows }) => backtestSeries('store', key, rows, calendar))
+    .filter((series): series is SeriesBacktest => series !== null);
+
+  const allSeries = [...products, ...stores];
+  const folds = [total, ...allSeries].filter((series): series is SeriesBacktest => series !== null).map(series => series.folds);
+  const models = BACKTEST_MODELS.map(model => {
+    const scores = allSeries.flatMap(series => series.scores.filter(score => score.model === model));
+    const mases = scores.map(score => score.mase).filter((mase): mase is number => mase !== null);
+    const smapes = scores.map(score => score.smape).filter((smape): smape is number => smape !== null);
+
+    return {
+      model,
+      meanMase: mases.length > 0 ? _.mean(mases) : null,
+      meanSmape: smapes.length > 0 ? _.mean(smapes) : null,
+      meanBias: scores.length > 0 ? _.meanBy(scores, 'bias') : 0,
+      wins: allSeries.filter(series => series.best === model).length,
+      series: scores.length
+    };
+  }).filter(entry => entry.series > 0);
+
+  return {
+    horizonDays: HORIZON_DAYS,
+    minFolds: _.min(folds) ?? 0,
+    maxFolds: _.max(folds) ?? 0,
+    // Wins first: a model that only fits some series (e.g. multiplicative needs every day to sell)
+    // would otherwise be averaged over the easier ones
+    models: _.sortBy(models, [entry => -entry.wins, entry => entry.meanMase ?? Infinity]),
+    total,
+    products,
+    stores
+  };
+}
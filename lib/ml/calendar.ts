@@ -0,0 +1,170 @@
+import { DateTime } from 'luxon';
+
+export type PaydayRule = 'last_weekday' | 'day_of_month';
+
+export const PAYDAY_RULES: PaydayRule[] = ['last_weekday', 'day_of_month'];
+
+// Days that move demand away from the usual weekday pattern, set per user
+export interface ForecastCalendar {
+  // Botswana public holidays, with Sunday holidays observed on the Monday
+  publicHolidays: boolean;
+  // Further ISO dates treated as holidays, e.g. a local festival or a store closure
+  extraHolidays: string[];
+  payday: {
+    // Month-end payday on the last working day, or a fixed day moved back to the working day before it
+    rule: PaydayRule;
+    dayOfMonth: number;
+    // Days from payday onwards that see the payday spike
+    windowDays: number;
+  };
+}
+
+export const DEFAULT_FORECAST_CALENDAR: ForecastCalendar = {
+  publicHolidays: true,
+  extraHolidays: [],
+  payday: {
+    rule: 'last_weekday',
+    dayOfMonth: 25,
+    windowDays: 3
+  }
+};
+
+const MAX_PAYDAY_WINDOW_DAYS = 10;
+
+export interface CalendarFlags {
+  holiday: boolean;
+  payday: boolean;
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number) {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return DateTime.fromObject({ year, month, day });
+}
+
+// ISO dates of Botswana's public holidays in a year, as set by the Public Holidays Act
+export function botswanaPublicHolidays(year: number): string[] {
+  const date = (month: number, day: number) => DateTime.fromObject({ year, month, day });
+  const easter = easterSunday(year);
+  const presidentsDay = date(7, 1).plus({ days: (8 - date(7, 1).weekday) % 7 + 14 });
+
+  const fixed = [
+    date(1, 1),   // New Year's Day
+    date(1, 2),   // New Year holiday
+    date(5, 1),   // Labour Day
+    date(7, 1),   // Sir Seretse Khama Day
+    date(9, 30),  // Botswana Day
+    date(10, 1),  // Botswana Day holiday
+    date(12, 25), // Christmas Day
+    date(12, 26)  // Boxing Day
+  ];
+  const moveable = [
+    easter.minus({ days: 2 }),  // Good Friday
+    easter.minus({ days: 1 }),  // Holy Saturday
+    easter.plus({ days: 1 }),   // Easter Monday
+    easter.plus({ days: 39 }),  // Ascension Day
+    presidentsDay,              // President's Day, the third Monday of July
+    presidentsDay.plus({ days: 1 })
+  ];
+
+  const holidays = new Set([...fixed, ...moveable].map(day => day.toISODate() as string));
+
+  // A holiday on a Sunday is observed on the next day that is not already a holiday
+  fixed.filter(day => day.weekday === 7).forEach(day => {
+    let observed = day.plus({ days: 1 });
+    while (holidays.has(observed.toISODate() as string)) {
+      observed = observed.plus({ days: 1 });
+    }
+    holidays.add(observed.toISODate() as string);
+  });
+
+  return Array.from(holidays).sort();
+}
+
+// Settings from the client or the database, with anything invalid replaced by the default
+export function sanitiseForecastCalendar(value: unknown): ForecastCalendar {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<ForecastCalendar>;
+  const payday = (input.payday && typeof input.payday === 'object' ? input.payday : {}) as Partial<ForecastCalendar['payday']>;
+  const defaults = DEFAULT_FORECAST_CALENDAR;
+
+  const dayOfMonth = Math.floor(Number(payday.dayOfMonth));
+  const windowDays = Math.floor(Number(payday.windowDays));
+
+  return {
+    publicHolidays: typeof input.publicHolidays === 'boolean' ? input.publicHolidays : defaults.publicHolidays,
+    extraHolidays: Array.isArray(input.extraHolidays)
+      ? Array.from(new Set(input.extraHolidays.map(String).filter(day => DateTime.fromISO(day).isValid))).sort()
+      : defaults.extraHolidays,
+    payday: {
+      rule: PAYDAY_RULES.includes(payday.rule as PaydayRule) ? payday.rule as PaydayRule : defaults.payday.rule,
+      dayOfMonth: dayOfMonth >= 1 && dayOfMonth <= 31 ? dayOfMonth : defaults.payday.dayOfMonth,
+      windowDays: windowDays >= 0 && windowDays <= MAX_PAYDAY_WINDOW_DAYS ? windowDays : defaults.payday.windowDays
+    }
+  };
+}
+
+// Holiday and payday flags for consecutive days starting at `start`
+export function calendarFlags(start: DateTime, days: number, calendar: ForecastCalendar): CalendarFlags[] {
+  const holidays = new Set(calendar.extraHolidays);
+  const paydays = new Map<string, DateTime>();
+
+  // Public holidays are added a year at a time, as the days reach it
+  const years = new Set<number>();
+  const ensureYear = (year: number) => {
+    if (calendar.publicHolidays && !years.has(year)) {
+      years.add(year);
+      botswanaPublicHolidays(year).forEach(day => holidays.add(day));
+    }
+  };
+
+  const isWorkingDay = (day: DateTime) => {
+    ensureYear(day.year);
+    return day.weekday <= 5 && !holidays.has(day.toISODate() as string);
+  };
+
+  const paydayOf = (month: DateTime) => {
+    const key = month.toFormat('yyyy-MM');
+    if (!paydays.has(key)) {
+      let day = calendar.payday.rule === 'last_weekday'
+        ? month.endOf('month').startOf('day')
+        : month.set({ day: Math.min(calendar.payday.dayOfMonth, month.daysInMonth as number) });
+      while (!isWorkingDay(day)) {
+        day = day.minus({ days: 1 });
+      }
+      paydays.set(key, day);
+    }
+    return paydays.get(key) as DateTime;
+  };
+
+  const windowDays = calendar.payday.windowDays;
+
+  return Array.from({ length: days }, (_, i) => {
+    const day = start.plus({ days: i }).startOf('day');
+    ensureYear(day.year);
+
+    // The window can run on from last month's payday into this month
+    const inPaydayWindow = windowDays > 0 && [day.startOf('month'), day.startOf('month').minus({ months: 1 })]
+      .some(month => {
+        const offset = day.diff(paydayOf(month), 'days').days;
+        return offset >= 0 && offset < windowDays;
+      });
+
+    return {
+      holiday: holidays.has(day.toISODate() as string),
+      payday: inPaydayWindow
+    };
+  });
+}
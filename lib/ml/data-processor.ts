@@ -1,9 +1,101 @@
 import { Parser } from 'papaparse';
 import * as math from 'mathjs';
-import { SimpleLinearRegression, PolynomialRegression } from 'ml-regression';
+import { SimpleLinearRegression, PolynomialRegression, MultivariateLinearRegression } from 'ml-regression';
 import { DateTime } from 'luxon';
 import _ from 'lodash';
 import * as tf from '@tensorflow/tfjs';
+import { calendarFlags, DEFAULT_FORECAST_CALENDAR, type ForecastCalendar } from '@/lib/ml/calendar';
+import { forecastDemand, predictionInterval, toDailySeries, type PredictionInterval } from '@/lib/ml/forecasting';
+import {
+  buildDemandModel,
+  DEMAND_FEATURES,
+  DEMAND_MODEL_VERSION,
+  demandFeatures,
+  demandModelSignature,
+  fitNormalisation,
+  normaliseFeatures,
+  type DemandModelMetadata,
+  type DemandModelStore
+} from '@/lib/ml/demand-model';
+import {
+  DEFAULT_SEGMENTATION_SETTINGS,
+  kMeansPlusPlus,
+  MAX_SEGMENTS,
+  MIN_SEGMENTS,
+  quintileScores,
+  rfmSegmentName,
+  seededRandom,
+  SEGMENTATION_SEED,
+  silhouetteScore,
+  valueTier,
+  type SegmentationSettings
+} from '@/lib/ml/segmentation';
+import {
+  DEFAULT_MARKET_BASKET_OPTIONS,
+  MAX_ASSOCIATION_RULES,
+  MAX_FREQUENT_ITEMSETS,
+  type MarketBasketOptions
+} from '@/lib/ml/market-basket';
+import {
+  ANOMALY_THRESHOLD,
+  anomalyId,
+  anomalySeverity,
+  detectSeriesAnomalies,
+  PRICE_BASELINE,
+  seasonalBaseline,
+  UNITS_BASELINE,
+  type Anomaly,
+  type AnomalyMetric,
+  type SeriesAnomaly
+} from '@/lib/ml/anomalies';
+import {
+  MIN_ELASTICITY_DAYS,
+  MIN_LOG_PRICE_SPREAD,
+  PRICING_BASELINE_DAYS,
+  type ProductPricing
+} from '@/lib/ml/pricing';
+import {
+  combineEffects,
+  consecutiveRuns,
+  matchedBaseline,
+  MAX_PROMOTION_EVENTS,
+  POST_PROMO_DAYS,
+  type PromotionAnalysis,
+  type PromotionDay,
+  type PromotionEvent
+} from '@/lib/ml/promotions';
+import {
+  computeInventoryPolicy,
+  DEFAULT_INVENTORY_PARAMETERS,
+  DEFAULT_INVENTORY_SETTINGS,
+  normalQuantile,
+  planStockTransfers,
+  positionAfterTransfers,
+  reorderQuantity,
+  resolveInventoryParameters,
+  type InventoryPolicy,
+  type InventorySettings,
+  type StockTransfer
+} from '@/lib/ml/inventory-policy';
+import {
+  fasterSuppliers,
+  rankSuppliers,
+  singleSourceRisk,
+  type SingleSourceProduct,
+  type SupplierAlternative,
+  type SupplierAnalysis,
+  type SupplierScore,
+  type SupplierStats,
+  type SupplyRisk
+} from '@/lib/ml/suppliers';
+import {
+  isStockOut,
+  MAX_STOCK_OUT_EVENTS,
+  unconstrainedDemand,
+  type StockDay,
+  type StockOutAnalysis,
+  type StockOutDay
+} from '@/lib/ml/stockouts';
 
 export interface BusinessData {
   Date: string;
@@ -23,14 +115,100 @@ export interface BusinessData {
   Payment_Method: string;
 }
 
+// Stock count for one product in one store, as exported from a stock-take or ERP
+export interface InventorySnapshot {
+  Date: string;
+  Store: string;
+  Product: string;
+  Stock_Level: number;
+  On_Order_Units: number;
+  Unit_Cost_BWP: number;
+  Supplier: string;
+  Lead_Time_Days: number;
+}
+
+// One loyalty or account customer, summarised by the POS
+export interface CustomerRecord {
+  Customer_ID: string;
+  Customer_Demographic: string;
+  Store: string;
+  Join_Date: string;
+  Last_Purchase_Date: string;
+  Total_Transactions: number;
+  Total_Spend_BWP: number;
+  Customer_Retention_Score: number;
+}
+
+// Units of one product on a purchase order line the user has sent to a store's supplier
+export interface OrderedStock {
+  store: string;
+  product: string;
+  units: number;
+  // Null while the order is on its way
+  receivedAt: Date | null;
+}
+
+// Optional datasets joined with sales when the user has uploaded them, and stock ordered through the app
+export interface RelatedData {
+  inventory?: InventorySnapshot[];
+  customers?: CustomerRecord[];
+  purchaseOrders?: OrderedStock[];
+}
+
+// Per-user settings and storage for an analysis run
+export interface AnalysisOptions {
+  calendar?: ForecastCalendar;
+  // Keeps the user's trained demand model between runs; without one it is retrained every time
+  modelStore?: DemandModelStore;
+  segmentation?: SegmentationSettings;
+  inventoryPolicy?: InventorySettings;
+}
+
+// Days at the end of each product's history held back to score its forecast
+const FORECAST_HOLDOUT_DAYS = 14
+// Products with less history than this are not forecast
+const MIN_FORECAST_HISTORY_DAYS = 28
+const FORECAST_HORIZON_DAYS = 30
+// Recent actuals returned alongside each product forecast, for charting
+const FORECAST_HISTORY_DAYS = 60
+// Forecast only the best-selling products to keep processing and the stored results small
+const MAX_FORECAST_PRODUCTS = 20
+// The demand model trains on the most recent rows, holding back the latest share of them to test on
+const MIN_DEMAND_MODEL_ROWS = 100
+const MAX_DEMAND_MODEL_ROWS = 5000
+const DEMAND_MODEL_TEST_SHARE = 0.2
+const DEMAND_MODEL_EPOCHS = 30
+// Customers scored when checking how well separated their segments are
+const SILHOUETTE_SAMPLE_SIZE = 1000
+// Joins a sorted itemset into a lookup key; product names never contain it
+const ITEM_KEY_SEPARATOR = '\u0000'
+// Z-score of the upper bound of a 95% forecast interval, to recover a forecast's daily spread from it
+const FORECAST_UPPER_95_Z = 1.96
+// Recent days of sales that split a product's forecast between its stores
+const STORE_SHARE_DAYS = 28
+
 export class AdvancedAnalytics {
-  static async processData(data: BusinessData[]) {
+  static async processData(
+    data: BusinessData[],
+    related: RelatedData = {},
+    options: AnalysisOptions = {}
+  ) {
+    const inventory = related.inventory ?? []
+    const customers = related.customers ?? []
+    const calendar = options.calendar ?? DEFAULT_FORECAST_CALENDAR
+
     // Sort data by date first
     const sortedData = data.sort((a, b) => 
       DateTime.fromFormat(a.Date, 'dd/MM/yyyy').toMillis() - 
       DateTime.fromFormat(b.Date, 'dd/MM/yyyy').toMillis()
     )
 
+    // Stock-out days cap sales at what was on the shelf, so demand models learn from history with the
+    // estimated lost units added back; revenue and other reported sales stay as recorded
+    const stockOuts = this.analyzeStockOuts(sortedData)
+    const demandData = stockOuts.decensored
+    const demandByDate = _.mapValues(_.groupBy(demandData, 'Date'), rows => _.sumBy(rows, row => Number(row.Units_Sold) || 0))
+
     // Group data by date for sales analysis
     const salesByDate = sortedData.reduce((acc, item) => {
       const date = item.Date
@@ -47,16 +225,16 @@ export class AdvancedAnalytics {
       return acc
     }, {} as Record<string, { totalSales: number; transactions: number; revenue: number }>)
 
-    // Calculate moving averages and predictions
-    const dates = Object.keys(salesByDate).sort()
+    // Calculate moving averages and predictions. Dates were added in order; sorting the dd/MM/yyyy strings would lose it
+    const dates = Object.keys(salesByDate)
     const salesValues = dates.map(date => salesByDate[date].totalSales)
     
-    // Calculate 7-day moving average
-    const movingAverage = this.calculateMovingAverage(salesValues, 7)
+    // Calculate 7-day moving average of demand
+    const movingAverage = this.calculateMovingAverage(dates.map(date => demandByDate[date]), 7)
     
-    // Simple exponential smoothing for predictions
-    const alpha = 0.2 // smoothing factor
-    const predictions = this.exponentialSmoothing(salesValues, alpha, 30)
+    // Seasonal forecast over consecutive days, with the model picked by backtest
+    const series = toDailySeries(demandByDate)
+    const demandForecast = forecastDemand(series.values, series.start, 30, calendar)
 
     // Group data by product for performance analysis
     const salesByProduct = sortedData.reduce((acc, item) => {
@@ -81,6 +259,26 @@ export class AdvancedAnalytics {
     const avgTicketSize = totalRevenue / Object.values(salesByDate)
       .reduce((sum, day) => sum + day.transactions, 0)
 
+    const productForecasts = await this.forecastProducts(
+      demandData.map(row => ({ ...row, DateObj: this.parseDate(row.Date) }))
+    )
+
+    const supplierAnalysis = this.analyzeSuppliers(sortedData, inventory)
+    const inventoryAnalysis = this.analyzeInventory(
+      demandData,
+      inventory,
+      options.inventoryPolicy ?? DEFAULT_INVENTORY_SETTINGS,
+      productForecasts,
+      related.purchaseOrders,
+      supplierAnalysis.suppliers
+    )
+
+    const segmentation = await this.performCustomerSegmentation(
+      sortedData,
+      customers,
+      options.segmentation ?? DEFAULT_SEGMENTATION_SETTINGS
+    )
+
     return {
       salesAnalysis: {
         overall_metrics: {
@@ -109,13 +307,53 @@ export class AdvancedAnalytics {
           actual: salesValues[i],
           moving_average: movingAverage[i]
         })),
-        forecast: predictions.map((value, i) => ({
+        forecast: demandForecast.forecast.map((value, i) => ({
           date: this.addDays(dates[dates.length - 1], i + 1),
-          predicted: value
-        }))
+          predicted: Math.round(value),
+          ...this.formatInterval(demandForecast.intervals[i])
+        })),
+        model: demandForecast.model,
+        backtest: demandForecast.backtest,
+        backtest_days: demandForecast.backtestDays,
+        calendar_effects: demandForecast.calendarEffects
       },
-      customerSegments: this.analyzeCustomerSegments(sortedData),
-      inventoryInsights: this.analyzeInventory(sortedData)
+      productForecasts,
+      demandModel: await this.explainDemandModel(demandData, calendar, options.modelStore),
+      customerSegments: segmentation.segments,
+      customerSegmentation: segmentation.summary,
+      pricing: this.analyzePricing(sortedData, demandData),
+      promotions: this.analyzePromotions(sortedData),
+      inventoryInsights: inventoryAnalysis.items,
+      inventoryTransfers: inventoryAnalysis.transfers,
+      stockOuts: stockOuts.analysis,
+      suppliers: supplierAnalysis,
+      needsReorder: inventoryAnalysis.items
+        .filter(item => item.reorder_quantity > 0)
+        .map(item => ({
+          name: item.product,
+          store: item.store,
+          category: item.product_category,
+          supplier: item.supplier,
+          recommendedOrder: item.reorder_quantity,
+          unitCost: item.unit_cost,
+          reorderPoint: item.policy.reorder_point,
+          stockPosition: item.metrics.stock_position,
+          leadTime: _.round(item.metrics.lead_time, 1)
+        })),
+      topCustomers: _.orderBy(customers, 'Total_Spend_BWP', 'desc')
+        .slice(0, 5)
+        .map(customer => ({
+          id: customer.Customer_ID,
+          demographic: customer.Customer_Demographic,
+          transactions: customer.Total_Transactions,
+          spend: customer.Total_Spend_BWP,
+          last_purchase: customer.Last_Purchase_Date
+        })),
+      datasets: {
+        sales: data.length,
+        inventory: inventory.length,
+        customers: customers.length
+      }
     }
   }
 
@@ -127,154 +365,164 @@ export class AdvancedAnalytics {
     })
   }
 
-  private static exponentialSmoothing(data: number[], alpha: number, horizon: number): number[] {
-    let lastValue = data[data.length - 1]
-    const predictions = []
-
-    for (let i = 0; i < horizon; i++) {
-      lastValue = alpha * data[data.length - 1] + (1 - alpha) * lastValue
-      predictions.push(Math.max(0, Math.round(lastValue)))
-    }
-
-    return predictions
-  }
-
   private static addDays(dateStr: string, days: number): string {
     return DateTime.fromFormat(dateStr, 'dd/MM/yyyy')
       .plus({ days })
       .toFormat('dd/MM/yyyy')
   }
 
-  private static analyzeCustomerSegments(data: BusinessData[]) {
-    // Group by customer demographic
-    const customerGroups = this.groupByDemographic(data)
-    
-    // Calculate RFM scores for each demographic
-    const segments = Object.entries(customerGroups).map(([demographic, purchases]) => {
-      const stats = {
-        lastPurchaseDate: purchases[purchases.length - 1].Date,
-        totalTransactions: purchases.length,
-        totalRevenue: purchases.reduce((sum, p) => sum + p.Revenue_BWP, 0)
-      };
-      // Recency: Days since last purchase
-      const lastPurchaseDate = DateTime.fromFormat(purchases[purchases.length - 1].Date, 'dd/MM/yyyy')
-      const today = DateTime.now()
-      const recency = Math.floor(today.diff(lastPurchaseDate, 'days').days)
-
-      // Frequency: Number of transactions
-      const frequency = purchases.length
-
-      // Monetary: Total revenue
-      const monetary = purchases.reduce((sum, p) => sum + p.Revenue_BWP, 0)
-
-      // Calculate scores (1-5 scale)
-      const rScore = this.calculateRFMScore(recency, 'desc') // Lower recency is better
-      const fScore = this.calculateRFMScore(frequency, 'asc') // Higher frequency is better
-      const mScore = this.calculateRFMScore(monetary, 'asc') // Higher monetary is better
-
-      // Calculate total RFM score
-      const totalScore = (rScore + fScore + mScore) / 3
-
-      // Determine segment based on score
-      const segment = totalScore >= 4 ? 'High-Value' :
-                     totalScore >= 3 ? 'Mid-Value' : 'Low-Value'
-
-      return {
-        demographic,
-        segment,
-        metrics: {
-          recency: `${recency} days`,
-          frequency,
-          monetary
-        },
-        score: totalScore
-      }
-    })
-
-    return segments.sort((a, b) => b.score - a.score)
-  }
-
-  // Add this helper method for RFM scoring
-  private static calculateRFMScore(value: number, direction: 'asc' | 'desc'): number {
-    // Create quintiles for scoring
-    const quintileSize = 20 // percentage
-    const score = direction === 'asc' 
-      ? Math.ceil((value / this.getMaxValue()) * 100 / quintileSize)
-      : Math.ceil((1 - value / this.getMaxValue()) * 100 / quintileSize)
-    
-    // Ensure score is between 1-5
-    return Math.max(1, Math.min(5, score))
-  }
-
-  // Helper to get max values for normalization
-  private static getMaxValue(): number {
-    // You might want to adjust these based on your data
-    return 1000 // example maximum value
-  }
-
-  private static analyzeInventory(data: BusinessData[]) {
-    // Group by product for detailed analysis
-    const productGroups = data.reduce((acc, item) => {
-      if (!acc[item.Product]) {
-        acc[item.Product] = []
-      }
-      acc[item.Product].push(item)
-      return acc
-    }, {} as Record<string, BusinessData[]>)
+  // Stock policy per store and product from forecast demand, lead-time variability and the user's costs and
+  // service targets, plus transfers that cover a store's shortfall from another store's surplus
+  private static analyzeInventory(
+    data: BusinessData[],
+    inventory: InventorySnapshot[] = [],
+    settings: InventorySettings = DEFAULT_INVENTORY_SETTINGS,
+    forecasts: Array<{ product: string; predictions: Array<{ predicted_sales: number; upper_95: number }> }> = [],
+    orders: OrderedStock[] = [],
+    suppliers: SupplierScore[] = []
+  ) {
+    const forecastsByProduct = new Map(forecasts.map(forecast => [forecast.product, forecast.predictions]))
+    const latest = <T extends { Date: string }>(rows: T[]) =>
+      _.maxBy(rows, row => DateTime.fromFormat(row.Date, 'dd/MM/yyyy').toMillis())
+    const spreadOf = (values: number[]) => {
+      const mean = _.mean(values)
+      return Math.sqrt(_.mean(values.map(value => Math.pow(value - mean, 2))))
+    }
 
-    // Calculate metrics for each product
-    const inventoryMetrics = Object.entries(productGroups).map(([product, items]) => {
-      // Calculate key metrics
-      const revenue = items.reduce((sum, item) => sum + item.Revenue_BWP, 0)
-      const currentStock = items[items.length - 1].Stock_Level
-      const avgDailySales = items.reduce((sum, item) => sum + item.Units_Sold, 0) / items.length
-      const avgLeadTime = items.reduce((sum, item) => sum + item.Lead_Time_Days, 0) / items.length
-      
-      // Calculate safety stock and reorder point
-      const standardDeviation = Math.sqrt(
-        items.reduce((sum, item) => 
-          sum + Math.pow(item.Units_Sold - avgDailySales, 2), 0
-        ) / items.length
+    const productItems = Object.entries(_.groupBy(data, 'Product')).map(([product, items]) => {
+      const category = items[0].Category
+      const snapshots = inventory.filter(snapshot => snapshot.Product === product)
+      const lastDay = DateTime.fromMillis(
+        Math.max(...items.map(item => DateTime.fromFormat(item.Date, 'dd/MM/yyyy').toMillis()))
       )
-      
-      const safetyStock = Math.ceil(1.96 * standardDeviation * Math.sqrt(avgLeadTime))
-      const reorderPoint = Math.ceil(avgDailySales * avgLeadTime + safetyStock)
-
-      return {
-        product,
-        revenue,
-        metrics: {
-          stock_level: currentStock,
-          reorder_point: reorderPoint,
-          avg_daily_sales: avgDailySales,
-          lead_time: avgLeadTime,
-          safety_stock: safetyStock,
-          stock_coverage: currentStock / avgDailySales // Days of inventory
+      const recentStart = lastDay.minus({ days: STORE_SHARE_DAYS - 1 })
+      const isRecent = (item: BusinessData) => DateTime.fromFormat(item.Date, 'dd/MM/yyyy') >= recentStart
+      const recentUnits = _.sumBy(items.filter(isRecent), 'Units_Sold')
+
+      const parameters = resolveInventoryParameters(settings, product, category)
+      const predictions = forecastsByProduct.get(product) ?? []
+
+      const stores = Object.entries(_.groupBy(items, 'Store')).map(([store, storeItems]) => {
+        // Stock counts are more reliable than the Stock_Level column on sales lines, so prefer the store's
+        // latest snapshot when inventory data has been uploaded; otherwise its latest sales line by date
+        const storeSnapshots = snapshots.filter(snapshot => snapshot.Store === store)
+        const latestSnapshot = latest(storeSnapshots)
+        const latestItem = latest(storeItems) as BusinessData
+        const counted = latestSnapshot ?? latestItem
+        const countedUntil = DateTime.fromFormat(counted.Date, 'dd/MM/yyyy').endOf('day')
+
+        // Sent purchase orders are on their way, and ones received after the count are not in it yet
+        const storeOrders = orders.filter(order => order.product === product && order.store === store)
+        const receivedUnits = _.sumBy(
+          storeOrders.filter(order => order.receivedAt && DateTime.fromJSDate(new Date(order.receivedAt)) > countedUntil),
+          'units'
+        )
+        const stockLevel = (Number(counted.Stock_Level) || 0) + receivedUnits
+        const onOrder = (latestSnapshot?.On_Order_Units ?? 0) + _.sumBy(storeOrders.filter(order => !order.receivedAt), 'units')
+
+        // Daily units in this store, with days without sales as zero
+        const { values: dailyUnits } = toDailySeries(
+          _.mapValues(_.groupBy(storeItems, 'Date'), rows => _.sumBy(rows, 'Units_Sold'))
+        )
+        const avgDailySales = _.mean(dailyUnits)
+
+        const leadTimes = (storeSnapshots.length > 0 ? storeSnapshots : storeItems).map(row => Number(row.Lead_Time_Days) || 0)
+        const avgLeadTime = _.mean(leadTimes)
+        const leadTimeSpread = spreadOf(leadTimes)
+
+        // The forecast is for the product across all stores, so each store plans on its share of recent sales.
+        // Treating store demand as independent, variance splits like the mean, so the spread scales with √share.
+        const share = recentUnits > 0 ? _.sumBy(storeItems.filter(isRecent), 'Units_Sold') / recentUnits : 0
+        const coverDays = Math.max(1, Math.ceil(avgLeadTime + (parameters.policy === 'RS' ? parameters.reviewDays : 0)))
+        const covered = predictions.slice(0, coverDays)
+        const demand = covered.length > 0
+          ? {
+              dailyDemand: share * _.meanBy(covered, 'predicted_sales'),
+              dailySpread: Math.sqrt(share) *
+                _.meanBy(covered, item => Math.max(0, item.upper_95 - item.predicted_sales) / FORECAST_UPPER_95_Z)
+            }
+          : { dailyDemand: avgDailySales, dailySpread: spreadOf(dailyUnits) }
+
+        const policy = computeInventoryPolicy(
+          { ...demand, leadTimeDays: avgLeadTime, leadTimeSpread },
+          parameters
+        )
+        const stockPosition = stockLevel + onOrder
+
+        return {
+          store,
+          product,
+          product_category: category,
+          supplier: latestSnapshot?.Supplier ?? latestItem.Supplier,
+          // Only inventory snapshots carry what a unit costs to buy
+          unit_cost: latestSnapshot ? Number(latestSnapshot.Unit_Cost_BWP) || null : null,
+          revenue: _.sumBy(storeItems, 'Revenue_BWP'),
+          metrics: {
+            stock_level: stockLevel,
+            // Units from purchase orders received since the stock count, included in stock_level
+            received_since_count: receivedUnits,
+            on_order: onOrder,
+            stock_position: stockPosition,
+            reorder_point: policy.reorder_point,
+            avg_daily_sales: avgDailySales,
+            forecast_daily_demand: _.round(demand.dailyDemand, 2),
+            demand_source: covered.length > 0 ? 'forecast' : 'history',
+            lead_time: avgLeadTime,
+            lead_time_spread: _.round(leadTimeSpread, 2),
+            safety_stock: policy.safety_stock,
+            // Days the stock position lasts at planned demand; null when the store is not selling it
+            stock_coverage: demand.dailyDemand > 0 ? _.round(stockPosition / demand.dailyDemand, 1) : null,
+            stock_source: latestSnapshot ? 'inventory' : 'sales'
+          },
+          policy
         }
-      }
-    })
+      })
 
-    // Calculate total revenue for percentage calculations
-    const totalRevenue = inventoryMetrics.reduce((sum, item) => sum + item.revenue, 0)
+      const transfers = planStockTransfers(product, stores.map(item => ({
+        store: item.store,
+        stock_level: item.metrics.stock_level,
+        on_order: item.metrics.on_order,
+        daily_demand: item.metrics.forecast_daily_demand,
+        policy: item.policy
+      })))
 
-    // Add percentages and sort for ABC classification
-    const enrichedMetrics = inventoryMetrics
-      .map(item => ({
-        ...item,
-        percentage: (item.revenue / totalRevenue) * 100
-      }))
-      .sort((a, b) => b.revenue - a.revenue)
+      return { product, revenue: _.sumBy(items, 'Revenue_BWP'), stores, transfers }
+    })
 
-    // Apply ABC classification
+    // ABC classes rank products by their revenue across all stores
+    const totalRevenue = _.sumBy(productItems, 'revenue')
     let cumulativePercent = 0
-    return enrichedMetrics.map(item => {
-      cumulativePercent += item.percentage
+    const abcClasses = new Map(_.orderBy(productItems, 'revenue', 'desc').map(item => {
+      cumulativePercent += (item.revenue / totalRevenue) * 100
+      return [item.product, cumulativePercent <= 70 ? 'A' : cumulativePercent <= 90 ? 'B' : 'C'] as const
+    }))
+
+    const transfers = productItems.flatMap(item => item.transfers)
+    const items = _.orderBy(productItems.flatMap(item => item.stores), 'revenue', 'desc').map(item => {
+      const transferIn = _.sumBy(transfers.filter(t => t.product === item.product && t.to_store === item.store), 'units')
+      const transferOut = _.sumBy(transfers.filter(t => t.product === item.product && t.from_store === item.store), 'units')
+      const metrics = { ...item.metrics, transfer_in: transferIn, transfer_out: transferOut }
+
       return {
         ...item,
-        category: cumulativePercent <= 70 ? 'A' :
-                 cumulativePercent <= 90 ? 'B' : 'C'
+        metrics,
+        // Units to order now, after planned transfers
+        reorder_quantity: reorderQuantity(item.policy, positionAfterTransfers(metrics)),
+        // Share of all revenue from this store's sales of the product
+        percentage: (item.revenue / totalRevenue) * 100,
+        category: abcClasses.get(item.product) as 'A' | 'B' | 'C',
+        recommendations: this.generateInventoryRecommendations({
+          metrics,
+          policy: item.policy,
+          transfers: transfers.filter(t => t.product === item.product && t.to_store === item.store),
+          supplier: item.supplier,
+          category: item.product_category,
+          alternatives: fasterSuppliers(suppliers, item.product, item.product_category, item.supplier, metrics.lead_time)
+        })
       }
     })
+
+    return { items, transfers }
   }
 
   private static parseDate(dateStr: string): Date {
@@ -283,50 +531,178 @@ export class AdvancedAnalytics {
     return new Date(year, month - 1, day);
   }
 
+  // One forecast per best-selling product, each scored on the days it was not fitted to
+  private static async forecastProducts(data: (BusinessData & { DateObj: Date })[]) {
+    const byProduct = _.groupBy(data, 'Product')
+    const products = _.orderBy(
+      Object.keys(byProduct),
+      product => _.sumBy(byProduct[product], 'Revenue_BWP'),
+      'desc'
+    ).slice(0, MAX_FORECAST_PRODUCTS)
+
+    const forecasts = await Promise.all(products.map(async product => {
+      const forecast = await this.predictSales(byProduct[product])
+      return forecast && { product, category: byProduct[product][0].Category, ...forecast }
+    }))
+
+    return forecasts.filter(forecast => forecast !== null)
+  }
+
   private static async predictSales(data: (BusinessData & { DateObj: Date })[]) {
     // Sort data by date
     const sortedData = data.sort((a, b) => a.DateObj.getTime() - b.DateObj.getTime());
-    
+
+    // Daily units, with days the product did not sell as zero
+    const firstDay = DateTime.fromJSDate(sortedData[0].DateObj).startOf('day');
+    const unitsByDay = new Map<number, number>();
+    sortedData.forEach(row => {
+      const day = Math.round(DateTime.fromJSDate(row.DateObj).startOf('day').diff(firstDay, 'days').days);
+      unitsByDay.set(day, (unitsByDay.get(day) ?? 0) + row.Units_Sold);
+    });
+
+    const dayCount = Math.max(...unitsByDay.keys()) + 1;
+    if (dayCount < MIN_FORECAST_HISTORY_DAYS) return null;
+
     // Prepare features for time series
-    const timePoints = sortedData.map((_, index) => index);
-    const sales = sortedData.map(row => row.Units_Sold);
+    const timePoints = _.range(dayCount);
+    const sales = timePoints.map(t => unitsByDay.get(t) ?? 0);
+    const dateOf = (t: number) => firstDay.plus({ days: t }).toFormat('dd/MM/yyyy');
 
-    // Fit polynomial regression for trend
+    // Score a fit on the earlier days against the most recent ones it has not seen
     const degree = 2;
-    const regression = new PolynomialRegression(timePoints, sales, degree);
+    const holdoutDays = Math.min(FORECAST_HOLDOUT_DAYS, Math.floor(dayCount / 4));
+    const trainingDays = dayCount - holdoutDays;
+    const holdoutRegression = new PolynomialRegression(
+      timePoints.slice(0, trainingDays),
+      sales.slice(0, trainingDays),
+      degree
+    );
+    const modelMetrics = this.calculateModelMetrics(
+      sales.slice(trainingDays),
+      timePoints.slice(trainingDays).map(t => Math.max(0, holdoutRegression.predict(t)))
+    );
 
-    // Make predictions for next 30 days
-    const predictions = [];
-    const lastDate = sortedData[sortedData.length - 1].DateObj;
+    // Fit polynomial regression for trend on the full history for the forecast itself
+    const regression = new PolynomialRegression(timePoints, sales, degree);
 
-    for (let i = 0; i < 30; i++) {
-      const predictionPoint = timePoints.length + i;
-      const predictedSales = Math.max(0, Math.round(regression.predict(predictionPoint)));
-      
-      const predictionDate = new Date(lastDate);
-      predictionDate.setDate(predictionDate.getDate() + i + 1);
-      
-      predictions.push({
-        date: DateTime.fromJSDate(predictionDate).toFormat('dd/MM/yyyy'),
-        predicted_sales: predictedSales
-      });
-    }
+    // Intervals from the spread of the fit's residuals, the same width on every day
+    const residualSpread = Math.sqrt(_.mean(timePoints.map(t => Math.pow(sales[t] - regression.predict(t), 2))));
 
-    // Calculate model metrics
-    const modelMetrics = this.calculateModelMetrics(sales, timePoints.map(t => regression.predict(t)));
+    // Make predictions for next 30 days
+    const predictions = _.range(FORECAST_HORIZON_DAYS).map(i => {
+      const predicted = Math.max(0, regression.predict(dayCount + i));
+      return {
+        date: dateOf(dayCount + i),
+        predicted_sales: Math.round(predicted),
+        ...this.formatInterval(predictionInterval(predicted, residualSpread))
+      };
+    });
 
     // Calculate feature importance using correlation analysis
     const featureImportance = this.calculateFeatureImportance(sortedData);
 
     return {
+      history: timePoints.slice(-FORECAST_HISTORY_DAYS).map(t => ({
+        date: dateOf(t),
+        actual: sales[t]
+      })),
       predictions,
+      model: 'polynomial' as const,
       model_metrics: {
         ...modelMetrics,
+        holdout_days: holdoutDays,
+        training_days: trainingDays,
         feature_importance: featureImportance
       }
     };
   }
 
+  // Feed-forward network predicting each row's units sold, explained by permutation importance.
+  // The saved model is reused while the rows and calendar it was trained on are unchanged.
+  private static async explainDemandModel(
+    data: BusinessData[],
+    calendar: ForecastCalendar,
+    modelStore?: DemandModelStore
+  ) {
+    if (data.length < MIN_DEMAND_MODEL_ROWS) return null;
+
+    const rows = data.slice(-MAX_DEMAND_MODEL_ROWS);
+    const features = demandFeatures(rows, calendar);
+    const signature = demandModelSignature(rows, features, calendar);
+
+    await tf.setBackend('cpu');
+    const saved = await modelStore?.load();
+    if (saved) {
+      saved.model.dispose();
+      if (saved.metadata.signature === signature) {
+        return this.formatDemandModel(saved.metadata);
+      }
+    }
+
+    // Rows are in date order, so the test rows are the most recent ones
+    const targets = rows.map(row => row.Units_Sold);
+    const testRows = Math.floor(rows.length * DEMAND_MODEL_TEST_SHARE);
+    const trainingRows = rows.length - testRows;
+    const normalisation = fitNormalisation(features.slice(0, trainingRows), targets.slice(0, trainingRows));
+    const scaledTargets = targets.map(target => [(target - normalisation.targetMean) / normalisation.targetStd]);
+
+    const x = tf.tensor2d(normaliseFeatures(features, normalisation));
+    const y = tf.tensor2d(scaledTargets);
+    const [trainX, testX] = tf.split(x, [trainingRows, testRows]);
+    const [trainY, testY] = tf.split(y, [trainingRows, testRows]);
+
+    const model = buildDemandModel(DEMAND_FEATURES.length);
+    await model.fit(trainX, trainY, { epochs: DEMAND_MODEL_EPOCHS, batchSize: 64, shuffle: true, verbose: 0 });
+
+    const predicted = tf.tidy(() => Array.from((model.predict(testX) as tf.Tensor).dataSync()))
+      .map(value => Math.max(0, value * normalisation.targetStd + normalisation.targetMean));
+    const { mse, rmse, r2, mae } = this.calculateModelMetrics(targets.slice(trainingRows), predicted);
+
+    // Increase in test error when each feature is shuffled, as a share of the total increase
+    const permutation = tf.tidy(() => this.estimateFeatureImportance(model, testX, testY, DEMAND_FEATURES));
+    const totalIncrease = _.sumBy(permutation, item => Math.max(0, item.importance));
+
+    const metadata: DemandModelMetadata = {
+      version: DEMAND_MODEL_VERSION,
+      signature,
+      features: DEMAND_FEATURES,
+      normalisation,
+      trainedAt: new Date().toISOString(),
+      trainingRows,
+      testRows,
+      metrics: { mse, rmse, mae, r2 },
+      featureImportance: permutation.map(item => ({
+        feature: item.feature,
+        importance: totalIncrease > 0 ? Math.max(0, item.importance) / totalIncrease : 0
+      }))
+    };
+
+    await modelStore?.save(model, metadata);
+    tf.dispose([x, y, trainX, testX, trainY, testY]);
+    model.dispose();
+
+    return this.formatDemandModel(metadata);
+  }
+
+  private static formatDemandModel(metadata: DemandModelMetadata) {
+    return {
+      trained_at: metadata.trainedAt,
+      training_rows: metadata.trainingRows,
+      test_rows: metadata.testRows,
+      metrics: metadata.metrics,
+      feature_importance: metadata.featureImportance
+    };
+  }
+
+  private static formatInterval(interval: PredictionInterval) {
+    return {
+      lower_80: Math.round(interval.lower80),
+      upper_80: Math.round(interval.upper80),
+      lower_95: Math.round(interval.lower95),
+      upper_95: Math.round(interval.upper95)
+    };
+  }
+
   private static calculateModelMetrics(actual: number[], predicted: number[]) {
     const mse = actual.reduce((sum, val, i) => sum + Math.pow(val - predicted[i], 2), 0) / actual.length;
     const rmse = Math.sqrt(mse);
@@ -353,7 +729,8 @@ export class AdvancedAnalytics {
 
       return {
         feature,
-        importance: Math.abs(correlation)
+        // A column that never changes (e.g. no promotions) has no correlation rather than NaN
+        importance: Math.abs(correlation) || 0
       };
     }).sort((a, b) => b.importance - a.importance);
   }
@@ -369,181 +746,665 @@ export class AdvancedAnalytics {
     return numerator / denominator;
   }
 
-  private static async performCustomerSegmentation(data: (BusinessData & { DateObj: Date })[]) {
-    // Group by customer demographic
-    const customerGroups = _.groupBy(data, 'Customer_Demographic');
-    
-    // Calculate RFM metrics for each customer segment
-    const customerMetrics = Object.entries(customerGroups).map(([demographic, purchases]) => {
-      const totalRevenue = _.sumBy(purchases, 'Revenue_BWP');
-      const avgRevenue = totalRevenue / purchases.length;
-      const totalUnits = _.sumBy(purchases, 'Units_Sold');
-      const avgRetention = _.meanBy(purchases, 'Customer_Retention_Score');
-      
-      return {
-        demographic,
-        metrics: {
-          monetary: avgRevenue,
-          frequency: purchases.length,
-          recency: this.calculateRecency(purchases),
-          avgUnits: totalUnits / purchases.length,
-          retentionScore: avgRetention
-        }
-      };
-    });
-
-    // Create feature vectors for clustering
-    const featureVectors = customerMetrics.map(cm => [
-      cm.metrics.monetary,
-      cm.metrics.frequency,
-      cm.metrics.recency,
-      cm.metrics.avgUnits,
-      cm.metrics.retentionScore
-    ]);
+  // RFM segmentation: quintile scores for each customer, or each demographic when there are no customer
+  // records, grouped by k-means with k from the user's settings or the best silhouette
+  private static async performCustomerSegmentation(
+    data: BusinessData[],
+    customers: CustomerRecord[],
+    settings: SegmentationSettings
+  ) {
+    const { unit, members } = this.rfmMembers(data, customers);
+    if (members.length === 0) return { segments: [], summary: null };
+
+    const recency = quintileScores(members.map(member => member.recencyDays), 'desc');
+    const frequency = quintileScores(members.map(member => member.frequency), 'asc');
+    const monetary = quintileScores(members.map(member => member.monetary), 'asc');
+    const points = members.map((_member, i) => [recency[i], frequency[i], monetary[i]]);
+
+    // Inertia for an elbow plot and silhouette for choosing, for every k the data allows
+    const maxK = Math.min(MAX_SEGMENTS, members.length - 1);
+    const candidates = [];
+    for (let k = MIN_SEGMENTS; k <= maxK; k++) {
+      const clustering = await this.kMeansClustering(points, k);
+      candidates.push({ k, ...clustering, silhouette: this.sampledSilhouette(points, clustering.assignments) });
+    }
 
-    // Normalize data for clustering
-    const featureTensor = tf.tensor2d(featureVectors);
-    const { mean, variance } = tf.moments(featureTensor, 0);
-    const stddev = tf.sqrt(variance);
-    const normalizedFeatures = featureTensor.sub(mean).div(stddev);
-    
-    // Perform k-means clustering (k=3)
-    const clusters = await this.kMeansClustering(normalizedFeatures.arraySync() as number[][], 3);
-    
-    // Generate segment insights
-    const segmentedCustomers = customerMetrics.map((customer, i) => ({
-      demographic: customer.demographic,
-      metrics: customer.metrics,
-      segment: clusters.assignments[i]
-    }));
+    const chosen = settings.k !== null
+      ? candidates.find(candidate => candidate.k === Math.min(settings.k as number, maxK))
+      : _.maxBy(candidates, 'silhouette');
+    // Too few to cluster: each one is its own segment
+    const assignments = chosen?.assignments ?? members.map((_member, i) => i);
+    const recordsByDemographic = _.groupBy(customers, 'Customer_Demographic');
+
+    const segments = _.uniq(assignments).map(cluster => {
+      const indices = _.range(members.length).filter(i => assignments[i] === cluster);
+      const inCluster = indices.map(i => members[i]);
+      const rfm = {
+        recency: _.mean(indices.map(i => recency[i])),
+        frequency: _.mean(indices.map(i => frequency[i])),
+        monetary: _.mean(indices.map(i => monetary[i]))
+      };
+      const score = (rfm.recency + rfm.frequency + rfm.monetary) / 3;
+      const name = rfmSegmentName(rfm.recency, rfm.frequency, rfm.monetary);
+      const demographics = _.orderBy(
+        Object.entries(_.countBy(inCluster, 'demographic')),
+        ([, count]) => count,
+        'desc'
+      ).map(([demographic]) => demographic);
+
+      // Customer records behind the segment: its own members, or everyone in its demographics
+      const records = unit === 'customer'
+        ? inCluster.map(member => member.record as CustomerRecord)
+        : demographics.flatMap(demographic => recordsByDemographic[demographic] ?? []);
 
-    const segments = _.groupBy(segmentedCustomers, 'segment');
-    const segmentInsights = Object.entries(segments).map(([segment, customers]) => {
-      const avgMonetary = _.meanBy(customers, c => c.metrics.monetary);
-      const avgFrequency = _.meanBy(customers, c => c.metrics.frequency);
-      const avgRetention = _.meanBy(customers, c => c.metrics.retentionScore);
-      
-      let segmentName = '';
-      if (avgMonetary > 80 && avgRetention > 7) {
-        segmentName = 'High-Value Loyal';
-      } else if (avgMonetary > 60 || avgFrequency > 10) {
-        segmentName = 'Regular Customers';
-      } else {
-        segmentName = 'Occasional Shoppers';
-      }
-      
       return {
-        segment: Number(segment),
-        name: segmentName,
-        size: customers.length,
-        avg_monetary: avgMonetary,
-        avg_frequency: avgFrequency,
-        avg_retention: avgRetention,
-        customers: customers.map(c => c.demographic)
+        cluster,
+        name,
+        segment: valueTier(score),
+        demographic: demographics.slice(0, 3).join(', '),
+        demographics,
+        size: inCluster.length,
+        share: inCluster.length / members.length,
+        metrics: {
+          recency: `${Math.round(_.meanBy(inCluster, 'recencyDays'))} days`,
+          frequency: _.meanBy(inCluster, 'frequency'),
+          monetary: _.meanBy(inCluster, 'monetary')
+        },
+        rfm,
+        score,
+        customers: records.length > 0 ? {
+          count: records.length,
+          average_spend: _.meanBy(records, 'Total_Spend_BWP'),
+          average_transactions: _.meanBy(records, 'Total_Transactions'),
+          average_retention: _.meanBy(records, 'Customer_Retention_Score')
+        } : null,
+        recommendations: this.generateCustomerRecommendations(name)
       };
     });
 
     return {
-      segments: segmentInsights,
-      recommendations: this.generateCustomerRecommendations(segmentInsights)
+      segments: _.orderBy(segments, 'score', 'desc'),
+      summary: {
+        unit,
+        k: segments.length,
+        chosen_by: !chosen ? 'too_few' : settings.k !== null ? 'setting' : 'silhouette',
+        seed: SEGMENTATION_SEED,
+        candidates: candidates.map(({ k, inertia, silhouette }) => ({ k, inertia, silhouette }))
+      }
     };
   }
 
-  private static async optimizeInventory(data: (BusinessData & { DateObj: Date })[]) {
-    // Group by product
-    const productGroups = _.groupBy(data, 'Product');
-    
-    // Calculate inventory metrics
-    const productMetrics = Object.entries(productGroups).map(([product, items]) => {
-      const salesArray = items.map(item => item.Units_Sold);
-      const avgSales = _.mean(salesArray);
-      const stdSales = math.std(salesArray) as unknown as number;
-      const avgLeadTime = _.meanBy(items, 'Lead_Time_Days');
-      const avgStock = _.meanBy(items, 'Stock_Level');
-      
-      // Calculate safety stock (service level of 95% - 1.65 sigma)
-      const safetyStock = Math.ceil(1.65 * stdSales * Math.sqrt(avgLeadTime));
-      
-      // Calculate reorder point
-      const reorderPoint = Math.ceil(avgSales * avgLeadTime + safetyStock);
-      
-      // Calculate economic order quantity (EOQ)
-      const annualDemand = avgSales * 365;
-      const holdingCost = 10; // Placeholder for holding cost
-      const orderingCost = 100; // Placeholder for ordering cost
-      const eoq = Math.ceil(Math.sqrt((2 * annualDemand * orderingCost) / holdingCost));
-      
+  // Recency in days, frequency and spend for each customer record, or for each demographic in sales.
+  // Recency counts back from the latest date in the data rather than today, so old uploads still score.
+  private static rfmMembers(data: BusinessData[], customers: CustomerRecord[]) {
+    const parse = (date: string) => DateTime.fromFormat(date, 'dd/MM/yyyy');
+    const withPurchases = customers.filter(customer => parse(customer.Last_Purchase_Date).isValid);
+
+    if (withPurchases.length > 0) {
+      const latest = DateTime.max(...withPurchases.map(customer => parse(customer.Last_Purchase_Date))) as DateTime;
       return {
-        product,
-        metrics: {
-          avg_daily_sales: avgSales,
-          std_sales: stdSales,
-          lead_time: avgLeadTime,
-          avg_stock: avgStock,
-          safety_stock: safetyStock,
-          reorder_point: reorderPoint,
-          economic_order_quantity: eoq
-        }
+        unit: 'customer' as const,
+        members: withPurchases.map(customer => ({
+          demographic: customer.Customer_Demographic,
+          recencyDays: Math.round(latest.diff(parse(customer.Last_Purchase_Date), 'days').days),
+          frequency: customer.Total_Transactions,
+          monetary: customer.Total_Spend_BWP,
+          record: customer
+        }))
       };
-    });
+    }
 
+    const byDemographic = this.groupByDemographic(data);
+    const latest = data.length > 0 ? parse(data[data.length - 1].Date) : DateTime.now();
     return {
-      inventory_metrics: productMetrics,
-      optimization_recommendations: this.generateInventoryRecommendations(productMetrics)
+      unit: 'demographic' as const,
+      members: Object.entries(byDemographic).map(([demographic, purchases]) => ({
+        demographic,
+        // Sales are in date order
+        recencyDays: Math.round(latest.diff(parse(purchases[purchases.length - 1].Date), 'days').days),
+        frequency: purchases.length,
+        monetary: _.sumBy(purchases, 'Revenue_BWP'),
+        record: null
+      }))
     };
   }
 
-  private static async analyzeMarketBasket(data: (BusinessData & { DateObj: Date })[]) {
-    // Group transactions by date and store (assuming these constitute a single transaction)
-    const transactionGroups = _.groupBy(data, item => 
+  // Silhouette is quadratic in the number of points, so large customer bases are scored on a seeded sample
+  private static sampledSilhouette(points: number[][], assignments: number[]) {
+    if (points.length <= SILHOUETTE_SAMPLE_SIZE) {
+      return silhouetteScore(points, assignments);
+    }
+    const random = seededRandom(SEGMENTATION_SEED);
+    const sample = _.sortBy(_.range(points.length), () => random()).slice(0, SILHOUETTE_SAMPLE_SIZE);
+    return silhouetteScore(sample.map(i => points[i]), sample.map(i => assignments[i]));
+  }
+
+  // Apriori over baskets of products: frequent itemsets of any size and the rules between them.
+  // A basket is everything one demographic bought in one store on one day, as sales rows have no receipt id.
+  static async analyzeMarketBasket(
+    data: BusinessData[],
+    options: MarketBasketOptions = DEFAULT_MARKET_BASKET_OPTIONS
+  ) {
+    const transactionGroups = _.groupBy(data, item =>
       `${item.Date}-${item.Store}-${item.Customer_Demographic}`);
-    
-    // Create transaction itemsets
-    const transactions = Object.values(transactionGroups).map(items => 
-      items.map(item => item.Product));
-    
-    // Find frequent itemsets and generate association rules
-    const minSupport = 0.05;
-    const minConfidence = 0.3;
-    
-    const itemCounts = this.countItems(transactions);
-    const frequentItems = this.findFrequentItems(itemCounts, transactions.length, minSupport);
-    const frequentItemsets = this.generateFrequentItemsets(transactions, frequentItems, minSupport);
-    const associationRules = this.generateAssociationRules(frequentItemsets, transactions, minConfidence);
+
+    // A product bought on several rows of a basket counts once
+    const transactions = Object.values(transactionGroups).map(items =>
+      new Set(items.map(item => item.Product)));
+
+    const frequentItemsets = this.generateFrequentItemsets(transactions, options.minSupport);
+    const associationRules = this.generateAssociationRules(frequentItemsets, options.minConfidence);
 
     return {
-      frequent_itemsets: frequentItemsets.map(({itemset, support}) => ({
-        items: itemset,
-        support: support
-      })),
-      association_rules: associationRules.map(rule => ({
+      transactions: transactions.length,
+      min_support: options.minSupport,
+      min_confidence: options.minConfidence,
+      total_itemsets: frequentItemsets.length,
+      total_rules: associationRules.length,
+      frequent_itemsets: _.orderBy(frequentItemsets, ['support', ({ itemset }) => itemset.length], ['desc', 'desc'])
+        .slice(0, MAX_FREQUENT_ITEMSETS)
+        .map(({ itemset, support, count }) => ({
+          items: itemset,
+          support,
+          count
+        })),
+      association_rules: associationRules.slice(0, MAX_ASSOCIATION_RULES).map(rule => ({
         antecedent: rule.antecedent,
         consequent: rule.consequent,
+        support: rule.support,
         confidence: rule.confidence,
         lift: rule.lift
       }))
     };
   }
 
-  private static async detectAnomalies(data: (BusinessData & { DateObj: Date })[]) {
-    // Prepare data for anomaly detection
-    const salesData = data.map(item => ({
-      date: item.Date,
-      product: item.Product,
-      units_sold: item.Units_Sold,
-      revenue: item.Revenue_BWP,
-      price: item.Price_per_Unit_BWP
+  // Unusual days per product, each judged against the same weekday in earlier weeks so a normal Saturday peak is not flagged
+  static detectAnomalies(data: BusinessData[], calendar: ForecastCalendar = DEFAULT_FORECAST_CALENDAR): Anomaly[] {
+    const anomalies = Object.entries(_.groupBy(data, 'Product')).flatMap(([product, rows]) => {
+      const byDate = _.groupBy(rows, 'Date');
+      const { start, values: units } = toDailySeries(
+        _.mapValues(byDate, items => _.sumBy(items, item => Number(item.Units_Sold) || 0))
+      );
+      const days = units.map((_value, i) => start.plus({ days: i }));
+      // Days without sales have no price, rather than a price of zero
+      const prices = days.map(day => {
+        const items = byDate[day.toFormat('dd/MM/yyyy')];
+        return items ? _.meanBy(items, item => Number(item.Price_per_Unit_BWP) || 0) : null;
+      });
+      const flags = calendarFlags(start, units.length, calendar);
+
+      const describe = (metric: AnomalyMetric, found: SeriesAnomaly): Anomaly => {
+        const day = days[found.index];
+        const date = day.toFormat('dd/MM/yyyy');
+        const items = byDate[date] ?? [];
+        const context = {
+          promotion: items.some(item => Number(item.Promotion_Active) > 0),
+          stockOut: items.length > 0 && items.every(item => Number(item.Stock_Level) === 0),
+          ...flags[found.index],
+          // How far the price was from its own baseline, for explaining a change in units
+          priceChange: metric === 'units_sold' ? this.relativeChange(prices, found.index) : null
+        };
+
+        return {
+          id: anomalyId(metric, product, date),
+          metric,
+          product,
+          date,
+          value: _.round(found.value, 2),
+          expected: _.round(found.expected, 2),
+          lower: _.round(Math.max(0, found.expected - ANOMALY_THRESHOLD * found.spread), 2),
+          upper: _.round(found.expected + ANOMALY_THRESHOLD * found.spread, 2),
+          score: _.round(found.score, 2),
+          direction: found.score > 0 ? 'high' : 'low',
+          severity: anomalySeverity(found.score),
+          explanation: this.explainAnomaly(metric, product, day, found, context)
+        };
+      };
+
+      return [
+        ...detectSeriesAnomalies(units, UNITS_BASELINE).map(found => describe('units_sold', found)),
+        ...detectSeriesAnomalies(prices, PRICE_BASELINE).map(found => describe('price', found))
+      ];
+    });
+
+    return _.orderBy(
+      anomalies,
+      [anomaly => DateTime.fromFormat(anomaly.date, 'dd/MM/yyyy').toMillis(), anomaly => Math.abs(anomaly.score)],
+      ['desc', 'desc']
+    );
+  }
+
+  // Change from the weekday baseline as a fraction, or null when the day has no baseline
+  private static relativeChange(values: (number | null)[], index: number) {
+    const value = values[index];
+    const baseline = seasonalBaseline(values, index, PRICE_BASELINE);
+    if (value === null || !baseline || baseline.expected === 0) return null;
+    return (value - baseline.expected) / baseline.expected;
+  }
+
+  private static explainAnomaly(
+    metric: AnomalyMetric,
+    product: string,
+    day: DateTime,
+    found: SeriesAnomaly,
+    context: { promotion: boolean; stockOut: boolean; holiday: boolean; payday: boolean; priceChange: number | null }
+  ) {
+    const weekday = day.toFormat('cccc');
+    const comparison = found.expected > 0
+      ? `${Math.round(Math.abs(found.value / found.expected - 1) * 100)}% ${found.value > found.expected ? 'above' : 'below'}`
+      : 'against';
+    const sentences = metric === 'units_sold'
+      ? [`${product} sold ${_.round(found.value, 2)} units on ${weekday} ${day.toFormat('dd/MM/yyyy')}, ${comparison} the usual ${_.round(found.expected, 1)} for a ${weekday}.`]
+      : [`${product} averaged P${found.value.toFixed(2)} on ${weekday} ${day.toFormat('dd/MM/yyyy')}, ${comparison} its usual P${found.expected.toFixed(2)}.`];
+
+    if (context.promotion) sentences.push('A promotion was running.');
+    if (context.priceChange !== null && Math.abs(context.priceChange) >= PRICE_BASELINE.minRelativeSpread) {
+      sentences.push(`The price was ${Math.round(Math.abs(context.priceChange) * 100)}% ${context.priceChange > 0 ? 'higher' : 'lower'} than usual.`);
+    }
+    if (context.stockOut) sentences.push('Stock was at zero, so some demand may have gone unmet.');
+    if (context.holiday) sentences.push('It was a public holiday.');
+    if (context.payday) sentences.push('It was a payday.');
+
+    return sentences.join(' ');
+  }
+
+  // Each product's price against the competition's, and how strongly its sales respond to both. Current units and
+  // revenue are what was sold; elasticities are fitted to `demand`, the sales with stock-outs de-censored, since
+  // units on an empty shelf stop responding to price.
+  private static analyzePricing(data: BusinessData[], demand: BusinessData[] = data): ProductPricing[] {
+    const toDays = (rows: BusinessData[]) => _.sortBy(
+      Object.entries(_.groupBy(rows, 'Date')).map(([date, items]) => ({
+        time: this.parseDate(date).getTime(),
+        units: _.sumBy(items, item => Number(item.Units_Sold) || 0),
+        price: _.meanBy(items, item => Number(item.Price_per_Unit_BWP) || 0),
+        competitionPrice: _.meanBy(items, item => Number(item.Competition_Price_BWP) || 0),
+        // Share of the product's stores running a promotion that day
+        promotion: _.meanBy(items, item => (Number(item.Promotion_Active) > 0 ? 1 : 0))
+      })),
+      'time'
+    );
+    const demandByProduct = _.groupBy(demand, 'Product');
+
+    const products = Object.entries(_.groupBy(data, 'Product')).map(([product, rows]) => {
+      const days = toDays(rows);
+      const recent = days.slice(-PRICING_BASELINE_DAYS);
+      const price = _.meanBy(recent, 'price');
+      const competitionPrice = _.meanBy(recent, 'competitionPrice');
+      const estimate = this.estimateElasticity(
+        toDays(demandByProduct[product] ?? rows).filter(day => day.units > 0 && day.price > 0)
+      );
+
+      return {
+        product,
+        current_price: _.round(price, 2),
+        competition_price: _.round(competitionPrice, 2),
+        // Our price as a percentage of the competition's; above 100 means we are dearer
+        price_index: competitionPrice > 0 ? _.round((price / competitionPrice) * 100, 1) : null,
+        daily_units: _.round(_.meanBy(recent, 'units'), 2),
+        daily_revenue: _.round(_.meanBy(recent, day => day.units * day.price), 2),
+        min_price: _.round(_.minBy(days, 'price')?.price ?? price, 2),
+        max_price: _.round(_.maxBy(days, 'price')?.price ?? price, 2),
+        ...estimate
+      };
+    });
+
+    return _.orderBy(products, 'daily_revenue', 'desc');
+  }
+
+  // Log-log regression of daily units on our price and the competition's, so each coefficient is an elasticity.
+  // Promotion days are a control, so that discounts during promotions are not mistaken for the effect of price alone.
+  private static estimateElasticity(days: { units: number; price: number; competitionPrice: number; promotion: number }[]) {
+    const unestimated = (note: string) => ({
+      elasticity: null,
+      elasticity_low: null,
+      elasticity_high: null,
+      cross_elasticity: null,
+      r2: null,
+      observations: days.length,
+      reliable: false,
+      note
+    });
+    const spread = (values: number[]) => {
+      const mean = _.mean(values);
+      return Math.sqrt(_.mean(values.map(value => Math.pow(value - mean, 2))));
+    };
+
+    if (days.length < MIN_ELASTICITY_DAYS) {
+      return unestimated(`Only ${days.length} days of sales; at least ${MIN_ELASTICITY_DAYS} are needed.`);
+    }
+
+    const logPrices = days.map(day => Math.log(day.price));
+    if (spread(logPrices) < MIN_LOG_PRICE_SPREAD) {
+      return unestimated('The price has barely changed, so its effect on sales cannot be measured yet.');
+    }
+
+    // Terms that never vary cannot be separated from the intercept, so they are left out
+    const withCompetition = days.every(day => day.competitionPrice > 0) &&
+      spread(days.map(day => Math.log(day.competitionPrice))) >= MIN_LOG_PRICE_SPREAD;
+    const withPromotion = spread(days.map(day => day.promotion)) > 0;
+
+    const x = days.map((day, i) => [
+      logPrices[i],
+      ...(withCompetition ? [Math.log(day.competitionPrice)] : []),
+      ...(withPromotion ? [day.promotion] : [])
+    ]);
+    const y = days.map(day => Math.log(day.units));
+    const regression = new MultivariateLinearRegression(x, y.map(value => [value]));
+
+    const elasticity = regression.weights[0][0];
+    const standardError = regression.stdErrors[0];
+    const predicted = x.map(row => regression.predict(row)[0]);
+    const meanY = _.mean(y);
+    const totalSquares = _.sumBy(y, value => Math.pow(value - meanY, 2));
+    const residualSquares = _.sum(y.map((value, i) => Math.pow(value - predicted[i], 2)));
+    // Clearly negative: the 95% range stays below zero
+    const reliable = Number.isFinite(standardError) && elasticity + 1.96 * standardError < 0;
+
+    return {
+      elasticity: _.round(elasticity, 3),
+      elasticity_low: Number.isFinite(standardError) ? _.round(elasticity - 1.96 * standardError, 3) : null,
+      elasticity_high: Number.isFinite(standardError) ? _.round(elasticity + 1.96 * standardError, 3) : null,
+      cross_elasticity: withCompetition ? _.round(regression.weights[1][0], 3) : null,
+      r2: totalSquares > 0 ? _.round(1 - residualSquares / totalSquares, 3) : null,
+      observations: days.length,
+      reliable,
+      note: reliable
+        ? null
+        : elasticity >= 0
+          ? 'Sales rose with the price, most likely because something else moved both.'
+          : 'Too noisy to be sure: the likely range includes no effect at all.'
+    };
+  }
+
+  // Each run of promotion days for a product in a store, against matched baselines: the same store and weekday in
+  // the surrounding weeks, on days clear of promotions in the product's category and of the days just after them
+  private static analyzePromotions(data: BusinessData[]): PromotionAnalysis {
+    const dayNumber = (date: string) => Math.round(this.parseDate(date).getTime() / 86400000);
+    const dates = new Map<number, string>();
+    const categories = new Map<string, string>();
+    const series = new Map<string, Map<number, PromotionDay>>();
+
+    data.forEach(row => {
+      const day = dayNumber(row.Date);
+      const key = `${row.Store}${ITEM_KEY_SEPARATOR}${row.Product}`;
+      dates.set(day, row.Date);
+      categories.set(row.Product, row.Category);
+      if (!series.has(key)) series.set(key, new Map());
+
+      const days = series.get(key) as Map<number, PromotionDay>;
+      const existing = days.get(day) ?? { units: 0, revenue: 0, promotion: false };
+      days.set(day, {
+        units: existing.units + (Number(row.Units_Sold) || 0),
+        revenue: existing.revenue + (Number(row.Revenue_BWP) || 0),
+        promotion: existing.promotion || Number(row.Promotion_Active) > 0
+      });
+    });
+
+    const keys = [...series.keys()].map(key => {
+      const [store, product] = key.split(ITEM_KEY_SEPARATOR);
+      const promoDays = [...(series.get(key) as Map<number, PromotionDay>)]
+        .filter(([, day]) => day.promotion)
+        .map(([day]) => day)
+        .sort((a, b) => a - b);
+      return { key, store, product, category: categories.get(product) as string, promoDays };
+    });
+
+    // Days unfit for a baseline: a series' own promotion days and the days after them, and any day its category was promoted in the store
+    const aftermath = new Map<string, Set<number>>();
+    const categoryPromoted = new Map<string, Set<number>>();
+    keys.forEach(({ key, store, category, promoDays }) => {
+      const categoryKey = `${store}${ITEM_KEY_SEPARATOR}${category}`;
+      if (!categoryPromoted.has(categoryKey)) categoryPromoted.set(categoryKey, new Set());
+      promoDays.forEach(day => (categoryPromoted.get(categoryKey) as Set<number>).add(day));
+      aftermath.set(key, new Set(promoDays.flatMap(day => _.range(day, day + POST_PROMO_DAYS + 1))));
+    });
+    const isClean = (key: string, store: string, category: string) => (day: number) =>
+      !(aftermath.get(key) as Set<number>).has(day) &&
+      !(categoryPromoted.get(`${store}${ITEM_KEY_SEPARATOR}${category}`) as Set<number>).has(day);
+
+    // Actual minus baseline summed over days, skipping days that are unobserved or have no baseline
+    const changeOver = (key: string, days: number[], clean: (day: number) => boolean) => {
+      const daySeries = series.get(key) as Map<number, PromotionDay>;
+      return days.reduce((total, day) => {
+        const actual = daySeries.get(day);
+        const baseline = actual ? matchedBaseline(daySeries, day, clean) : null;
+        if (!actual || !baseline) return total;
+        return {
+          units: total.units + actual.units,
+          baselineUnits: total.baselineUnits + baseline.units,
+          revenue: total.revenue + actual.revenue - baseline.revenue
+        };
+      }, { units: 0, baselineUnits: 0, revenue: 0 });
+    };
+
+    const events: PromotionEvent[] = keys.flatMap(({ key, store, product, category, promoDays }) => {
+      const daySeries = series.get(key) as Map<number, PromotionDay>;
+      const clean = isClean(key, store, category);
+      const siblings = keys.filter(other => other.store === store && other.category === category && other.key !== key);
+
+      return consecutiveRuns(promoDays).map(({ start, end }) => {
+        const days = _.range(start, end + 1);
+        const promoted = changeOver(key, days, clean);
+        // Stops at the next promotion, which is its own event
+        const afterDays = _.takeWhile(_.range(end + 1, end + POST_PROMO_DAYS + 1), day => !daySeries.get(day)?.promotion);
+        const after = changeOver(key, afterDays, clean);
+        const categoryChanges = siblings.map(sibling => {
+          const siblingSeries = series.get(sibling.key) as Map<number, PromotionDay>;
+          const unpromoted = days.filter(day => !siblingSeries.get(day)?.promotion);
+          return changeOver(sibling.key, unpromoted, isClean(sibling.key, store, sibling.category));
+        });
+
+        const incrementalUnits = promoted.units - promoted.baselineUnits;
+        const categoryUnits = _.sumBy(categoryChanges, change => change.units - change.baselineUnits);
+        const categoryRevenue = _.sumBy(categoryChanges, 'revenue');
+        const afterUnits = after.units - after.baselineUnits;
+
+        return {
+          product,
+          category,
+          store,
+          start: dates.get(start) as string,
+          end: dates.get(end) as string,
+          promo_days: days.length,
+          units: _.round(promoted.units, 2),
+          baseline_units: _.round(promoted.baselineUnits, 2),
+          incremental_units: _.round(incrementalUnits, 2),
+          incremental_revenue: _.round(promoted.revenue, 2),
+          lift: promoted.baselineUnits > 0 ? _.round(promoted.units / promoted.baselineUnits - 1, 3) : null,
+          category_units_change: _.round(categoryUnits, 2),
+          category_revenue_change: _.round(categoryRevenue, 2),
+          post_promo_units_change: _.round(afterUnits, 2),
+          post_promo_revenue_change: _.round(after.revenue, 2),
+          net_incremental_units: _.round(incrementalUnits + categoryUnits + afterUnits, 2),
+          net_incremental_revenue: _.round(promoted.revenue + categoryRevenue + after.revenue, 2)
+        };
+      });
+    });
+
+    const products = Object.entries(_.groupBy(events, 'product')).map(([product, productEvents]) => ({
+      product,
+      category: productEvents[0].category,
+      events: productEvents.length,
+      ...combineEffects(productEvents)
     }));
 
-    // Detect sales anomalies using z-score
-    const salesAnomalies = this.detectSalesAnomalies(salesData);
-    
-    // Detect price anomalies
-    const priceAnomalies = this.detectPriceAnomalies(salesData);
+    return {
+      summary: { events: events.length, ...combineEffects(events) },
+      products: _.orderBy(products, 'net_incremental_revenue', 'desc'),
+      events: _.orderBy(events, event => dayNumber(event.start), 'desc').slice(0, MAX_PROMOTION_EVENTS)
+    };
+  }
+
+  // Sales with the units lost to stock-outs added back, for anything that models demand rather than reports sales
+  static decensorSales(data: BusinessData[]): BusinessData[] {
+    return this.analyzeStockOuts(data).decensored;
+  }
+
+  // Stock-out days per store and product, the sales they lost against comparable days with stock, and the
+  // history with those lost units added back, so forecasts see demand rather than what the shelf could supply
+  private static analyzeStockOuts(data: BusinessData[]): { analysis: StockOutAnalysis; decensored: BusinessData[] } {
+    const dayNumber = (date: string) => Math.round(this.parseDate(date).getTime() / 86400000);
+    const dayKey = (row: BusinessData) => [row.Store, row.Product, row.Date].join(ITEM_KEY_SEPARATOR);
+    const categories = new Map<string, string>();
+    const series = new Map<string, Map<number, StockDay>>();
+
+    const storeDays = Object.values(_.groupBy(data, dayKey));
+    storeDays.forEach(lines => {
+      const { Store: store, Product: product, Category: category, Date: date } = lines[0];
+      const key = `${store}${ITEM_KEY_SEPARATOR}${product}`;
+      categories.set(product, category);
+      if (!series.has(key)) series.set(key, new Map());
+
+      (series.get(key) as Map<number, StockDay>).set(dayNumber(date), {
+        units: _.sumBy(lines, line => Number(line.Units_Sold) || 0),
+        revenue: _.sumBy(lines, line => Number(line.Revenue_BWP) || 0),
+        price: _.meanBy(lines, line => Number(line.Price_per_Unit_BWP) || 0),
+        promotion: lines.some(line => Number(line.Promotion_Active) > 0),
+        stockOut: isStockOut(lines)
+      });
+    });
+
+    const dates = new Map(data.map(row => [dayNumber(row.Date), row.Date]));
+    const events: StockOutDay[] = [...series].flatMap(([key, days]) => {
+      const [store, product] = key.split(ITEM_KEY_SEPARATOR);
+      return [...days].filter(([, day]) => day.stockOut).map(([number, day]) => {
+        const demand = unconstrainedDemand(days, number);
+        const lostUnits = demand ? Math.max(0, demand.units - day.units) : 0;
+        return {
+          store,
+          product,
+          category: categories.get(product) as string,
+          date: dates.get(number) as string,
+          units_sold: day.units,
+          expected_units: demand ? _.round(demand.units, 2) : null,
+          lost_units: _.round(lostUnits, 2),
+          lost_revenue: _.round(lostUnits * (day.price || (demand?.price ?? 0)), 2)
+        };
+      });
+    });
+
+    // The lost units of a day are added to its last line
+    const lostByDay = new Map(events.map(event => [
+      [event.store, event.product, event.date].join(ITEM_KEY_SEPARATOR),
+      event.lost_units
+    ]));
+    const decensored = [...data].reverse().map(row => {
+      const lost = lostByDay.get(dayKey(row));
+      if (!lost) return row;
+      lostByDay.delete(dayKey(row));
+      return { ...row, Units_Sold: (Number(row.Units_Sold) || 0) + lost };
+    }).reverse();
+
+    const lostRevenue = _.round(_.sumBy(events, 'lost_revenue'), 2);
+    const revenue = _.sumBy(data, row => Number(row.Revenue_BWP) || 0);
+    const observedDays = _.countBy(storeDays, lines => lines[0].Product);
+
+    const products = Object.entries(_.groupBy(events, 'product')).map(([product, productEvents]) => ({
+      product,
+      category: categories.get(product) as string,
+      stock_out_days: productEvents.length,
+      stock_out_rate: _.round(productEvents.length / observedDays[product], 4),
+      lost_units: _.round(_.sumBy(productEvents, 'lost_units'), 2),
+      lost_revenue: _.round(_.sumBy(productEvents, 'lost_revenue'), 2)
+    }));
+
+    return {
+      analysis: {
+        summary: {
+          stock_out_days: events.length,
+          unestimated_days: events.filter(event => event.expected_units === null).length,
+          lost_units: _.round(_.sumBy(events, 'lost_units'), 2),
+          lost_revenue: lostRevenue,
+          lost_revenue_share: revenue + lostRevenue > 0 ? _.round(lostRevenue / (revenue + lostRevenue), 4) : 0
+        },
+        products: _.orderBy(products, 'lost_revenue', 'desc'),
+        events: _.orderBy(events, event => dayNumber(event.date), 'desc').slice(0, MAX_STOCK_OUT_EVENTS)
+      },
+      decensored
+    };
+  }
+
+  // Scorecard per supplier from the lead times and stock levels recorded against the products it delivers,
+  // and the products only one supplier delivers
+  static analyzeSuppliers(data: BusinessData[], inventory: InventorySnapshot[] = []): SupplierAnalysis {
+    const supplied = data.filter(row => row.Supplier);
+    const totalRevenue = _.sumBy(data, row => Number(row.Revenue_BWP) || 0);
+    const revenueShare = (rows: BusinessData[]) =>
+      totalRevenue > 0 ? _.round(_.sumBy(rows, row => Number(row.Revenue_BWP) || 0) / totalRevenue, 4) : 0;
+    const snapshotsBySupplier = _.groupBy(inventory.filter(snapshot => snapshot.Supplier), 'Supplier');
+
+    // Each store-product day counts once, and is a stock-out when any of its lines shows no stock left
+    const stockDays = (rows: BusinessData[]) => {
+      const days = Object.values(_.groupBy(rows, row => [row.Store, row.Product, row.Date].join(ITEM_KEY_SEPARATOR)));
+      const stockOuts = days.filter(isStockOut).length;
+      return { observed: days.length, stockOuts, inStockRate: days.length > 0 ? _.round(1 - stockOuts / days.length, 4) : 1 };
+    };
+    const leadTimesOf = (rows: Array<{ Lead_Time_Days: number }>) =>
+      rows.map(row => Number(row.Lead_Time_Days) || 0).filter(days => days > 0);
+
+    // Products and the suppliers seen delivering them, in sales or stock counts
+    const productSuppliers = _.mapValues(
+      _.groupBy([...supplied, ...inventory.filter(snapshot => snapshot.Supplier)], 'Product'),
+      rows => _.uniq(rows.map(row => row.Supplier))
+    );
+    const singleSourced = Object.entries(productSuppliers).filter(([, suppliers]) => suppliers.length === 1);
+    const singleSourceCounts = _.countBy(singleSourced, ([, suppliers]) => suppliers[0]);
+
+    const stats: SupplierStats[] = Object.entries(_.groupBy(supplied, 'Supplier')).map(([supplier, rows]) => {
+      const leadTimes = leadTimesOf([...rows, ...(snapshotsBySupplier[supplier] ?? [])]);
+      const leadTime = leadTimes.length > 0 ? _.mean(leadTimes) : 0;
+      const spread = leadTimes.length > 0 ? Math.sqrt(_.mean(leadTimes.map(days => Math.pow(days - leadTime, 2)))) : 0;
+      const { observed, stockOuts, inStockRate } = stockDays(rows);
+
+      return {
+        supplier,
+        products: _.uniq(rows.map(row => row.Product)).sort(),
+        categories: _.uniq(rows.map(row => row.Category)).sort(),
+        stores: _.uniqBy(rows, 'Store').length,
+        revenue: _.round(_.sumBy(rows, row => Number(row.Revenue_BWP) || 0), 2),
+        revenue_share: revenueShare(rows),
+        lead_time: _.round(leadTime, 1),
+        lead_time_spread: _.round(spread, 2),
+        lead_time_cv: leadTime > 0 ? _.round(spread / leadTime, 3) : 0,
+        in_stock_rate: inStockRate,
+        stock_out_days: stockOuts,
+        observed_days: observed,
+        single_source_products: singleSourceCounts[supplier] ?? 0
+      };
+    });
+
+    const suppliers = rankSuppliers(stats);
+    const bySupplier = new Map(suppliers.map(item => [item.supplier, item]));
+    const productRows = _.groupBy(supplied, 'Product');
+
+    const singleSource = singleSourced
+      .filter(([product, [supplier]]) => productRows[product] && bySupplier.has(supplier))
+      .map(([product, [supplier]]): SingleSourceProduct => {
+        const rows = productRows[product];
+        const category = rows[0].Category;
+        const share = revenueShare(rows);
+        const { inStockRate } = stockDays(rows);
+        const leadTimes = leadTimesOf(rows);
+        const score = bySupplier.get(supplier) as SupplierScore;
+
+        return {
+          product,
+          category,
+          supplier,
+          revenue_share: share,
+          in_stock_rate: inStockRate,
+          lead_time: leadTimes.length > 0 ? _.round(_.mean(leadTimes), 1) : 0,
+          risk: singleSourceRisk(share, { in_stock_rate: inStockRate, lead_time_cv: score.lead_time_cv }),
+          alternatives: suppliers
+            .filter(item => item.supplier !== supplier && item.categories.includes(category))
+            .map(item => item.supplier)
+        };
+      });
 
+    const riskOrder: Record<SupplyRisk, number> = { high: 0, medium: 1, low: 2 };
     return {
-      sales_anomalies: salesAnomalies,
-      price_anomalies: priceAnomalies
+      suppliers,
+      single_source: _.orderBy(singleSource, [item => riskOrder[item.risk], 'revenue_share'], ['asc', 'desc'])
     };
   }
 
@@ -606,59 +1467,45 @@ export class AdvancedAnalytics {
       sum + Math.abs(val - predicted[i]), 0) / actual.length;
   }
 
-  private static async kMeansClustering(data: number[][], k: number) {
-    // Convert to tensor
+  private static async kMeansClustering(data: number[][], k: number, seed = SEGMENTATION_SEED) {
     const points = tf.tensor2d(data);
-    
-    // Randomly initialize centroids
-    let centroids = points.gather(tf.randomUniform([k], 0, data.length, 'int32'));
-    
-    const assignments: number[] = Array(data.length).fill(0);
-    let oldAssignments: number[] = [];
+
+    // Seeded k-means++ start, so the same data always gives the same clusters
+    let centroids = kMeansPlusPlus(data, k, seededRandom(seed));
+    let assignments: number[] = [];
+    let oldAssignments: number[] | null = null;
     let iterations = 0;
     const maxIterations = 100;
-    
+
     while (!_.isEqual(assignments, oldAssignments) && iterations < maxIterations) {
-      oldAssignments = [...assignments];
+      oldAssignments = assignments;
       iterations++;
-      
-      // Calculate distances
-      const expandedPoints = points.expandDims(1);
-      const expandedCentroids = centroids.expandDims(0);
-      
-      const distances = expandedPoints.sub(expandedCentroids).pow(2).sum(2);
-      
+
       // Assign points to nearest centroid
-      const newAssignments = distances.argMin(1).dataSync();
-      for (let i = 0; i < newAssignments.length; i++) {
-        assignments[i] = newAssignments[i];
-      }
-      
-      // Update centroids
-      const newCentroids = [];
-      for (let i = 0; i < k; i++) {
-        const clusterPoints = points.gather(
-          tf.tensor1d(
-            assignments.map((a, idx) => a === i ? idx : -1).filter(idx => idx !== -1),
-            'int32'
-          )
-        );
-        
-        if (clusterPoints.shape[0] > 0) {
-          newCentroids.push(clusterPoints.mean(0));
-        } else {
-          // If no points in cluster, keep old centroid
-          newCentroids.push(centroids.slice([i], [1]));
-        }
-      }
-      
-      centroids = tf.concat(newCentroids);
+      const nearest = tf.tidy(() => {
+        const distances = points.expandDims(1).sub(tf.tensor2d(centroids).expandDims(0)).pow(2).sum(2);
+        return distances.argMin(1);
+      });
+      assignments = Array.from(nearest.dataSync());
+      nearest.dispose();
+
+      // Move each centroid to the mean of its points; an empty cluster keeps its old centroid
+      centroids = centroids.map((centroid, cluster) => {
+        const clusterPoints = data.filter((_point, i) => assignments[i] === cluster);
+        return clusterPoints.length > 0
+          ? centroid.map((_value, j) => _.meanBy(clusterPoints, point => point[j]))
+          : centroid;
+      });
     }
-    
-    return {
-      assignments,
-      centroids: centroids.arraySync() as number[][]
-    };
+
+    points.dispose();
+
+    // Within-cluster sum of squares, for the elbow check
+    const inertia = _.sum(data.map((point, i) =>
+      _.sum(point.map((value, j) => Math.pow(value - centroids[assignments[i]][j], 2)))
+    ));
+
+    return { assignments, centroids, inertia };
   }
 
   private static estimateFeatureImportance(
@@ -713,74 +1560,96 @@ export class AdvancedAnalytics {
     return importance.sort((a, b) => b.importance - a.importance);
   }
 
-  private static calculateRecency(purchases: (BusinessData & { DateObj: Date })[]) {
-    const today = new Date();
-    const mostRecent = _.maxBy(purchases, 'DateObj')?.DateObj || today;
-    const daysDiff = Math.floor((today.getTime() - mostRecent.getTime()) / (1000 * 60 * 60 * 24));
-    return Math.max(0, daysDiff);
-  }
-
-  private static generateCustomerRecommendations(segments: any[]) {
-    return segments.map(segment => {
-      let recommendations = [];
-      
-      if (segment.name === 'High-Value Loyal') {
-        recommendations = [
+  private static generateCustomerRecommendations(segmentName: string) {
+    switch (segmentName) {
+      case 'Champions':
+        return [
           'Create exclusive loyalty program for VIP customers',
           'Offer early access to new products',
           'Implement personalized service approach',
           'Consider developing premium product lines'
         ];
-      } else if (segment.name === 'Regular Customers') {
-        recommendations = [
+      case 'Loyal Customers':
+        return [
           'Implement targeted promotional campaigns',
           'Create bundle offers to increase basket size',
           'Develop mid-tier loyalty incentives',
           'Focus on cross-selling complementary products'
         ];
-      } else {
-        recommendations = [
-          'Focus on retention through limited-time offers',
+      case 'New or Promising':
+        return [
+          'Welcome recent customers with an offer on their next visit',
+          'Recommend products popular with your loyal customers',
+          'Invite them to join your loyalty program'
+        ];
+      case 'At Risk':
+        return [
           'Implement win-back campaigns for inactive customers',
+          'Remind them of products they used to buy',
+          'Focus on retention through limited-time offers'
+        ];
+      default:
+        return [
           'Create awareness about product value',
-          'Test price-sensitive promotions'
+          'Test price-sensitive promotions',
+          'Limit spend on customers unlikely to return'
         ];
-      }
-      
-      return {
-        segment: segment.name,
-        recommendations
-      };
-    });
+    }
   }
 
-  private static generateInventoryRecommendations(productMetrics: any[]) {
-    return productMetrics.map(product => {
-      const recommendations = [];
-      const metrics = product.metrics;
-      
-      if (metrics.avg_stock < metrics.reorder_point) {
-        recommendations.push(`Increase stock levels to meet reorder point of ${metrics.reorder_point} units`);
-      }
-      
-      if (metrics.avg_stock > metrics.reorder_point + metrics.economic_order_quantity) {
-        recommendations.push('Current stock levels too high, consider reducing order quantities');
-      }
-      
-      recommendations.push(`Set optimal order quantity to ${metrics.economic_order_quantity} units`);
-      
-      if (metrics.lead_time > 7) {
-        recommendations.push('Consider finding suppliers with shorter lead times');
-      }
-      
-      return {
-        product: product.product,
-        recommendations
-      };
-    });
+  private static generateInventoryRecommendations({ metrics, policy, transfers, supplier, category, alternatives }: {
+    metrics: {
+      stock_level: number;
+      on_order: number;
+      transfer_in: number;
+      transfer_out: number;
+      lead_time: number;
+      lead_time_spread: number;
+    };
+    policy: InventoryPolicy;
+    transfers: StockTransfer[];
+    supplier: string;
+    category: string;
+    // Suppliers already in the data that deliver this product or its category faster
+    alternatives: SupplierAlternative[];
+  }) {
+    const recommendations: string[] = transfers.map(transfer =>
+      `Move ${transfer.units} units from ${transfer.from_store} before reordering`
+    );
+    // Planned transfers count towards the stock position, so only the shortfall they leave is ordered
+    const position = metrics.stock_level + metrics.on_order + metrics.transfer_in - metrics.transfer_out;
+    const quantity = reorderQuantity(policy, position);
+
+    if (quantity > 0) {
+      recommendations.push(policy.order_up_to !== null
+        ? `Order ${quantity} units to bring stock back up to ${policy.order_up_to}`
+        : `Order ${quantity} units now: stock is at or below the reorder point of ${policy.reorder_point} units`);
+    } else if (position > (policy.order_up_to ?? policy.reorder_point + policy.order_quantity)) {
+      recommendations.push('Stock is above what this policy needs; hold back the next order');
+    }
+
+    recommendations.push(policy.order_up_to !== null
+      ? `Every ${policy.review_days} days, order back up to ${policy.order_up_to} units`
+      : `Order ${policy.order_quantity} units whenever stock falls to ${policy.reorder_point}`);
+
+    if (metrics.lead_time > 7) {
+      const leadTime = _.round(metrics.lead_time, 1);
+      recommendations.push(alternatives.length > 0
+        ? `Faster suppliers you already buy from: ${alternatives.slice(0, 2).map(alternative =>
+            `${alternative.supplier} (${alternative.lead_time} days, ${alternative.same_product ? 'already delivers this product' : `delivers ${category}`})`
+          ).join(', ')}, against ${leadTime} days from ${supplier}`
+        : `No other supplier in your data delivers ${category} faster than ${supplier}'s ${leadTime} days; consider finding suppliers with shorter lead times`);
+    }
+    // Lead-time variability feeds straight into safety stock
+    if (metrics.lead_time_spread > metrics.lead_time / 4) {
+      recommendations.push('Delivery times vary widely; steadier deliveries would reduce safety stock');
+    }
+
+    return recommendations;
   }
 
-  private static countItems(transactions: string[][]) {
+
+  private static countItems(transactions: Set<string>[]) {
     const counts: Record<string, number> = {};
     
     transactions.forEach(transaction => {
@@ -792,173 +1661,89 @@ export class AdvancedAnalytics {
     return counts;
   }
 
-  private static findFrequentItems(
-    itemCounts: Record<string, number>,
-    totalTransactions: number,
-    minSupport: number
-  ) {
-    return Object.entries(itemCounts)
-      .filter(([_, count]) => count / totalTransactions >= minSupport)
-      .map(([item]) => item);
-  }
-
-  private static generateFrequentItemsets(
-    transactions: string[][],
-    frequentItems: string[],
-    minSupport: number
-  ) {
-    const result = [];
+  // Level by level: frequent k-itemsets are joined into (k+1)-candidates, which are counted in one pass
+  private static generateFrequentItemsets(transactions: Set<string>[], minSupport: number) {
+    const result: { itemset: string[]; support: number; count: number }[] = [];
     const totalTransactions = transactions.length;
-    
-    // Add single-item sets
-    const singleItemsets = frequentItems.map(item => ({
-      itemset: [item],
-      support: this.calculateSupport([item], transactions)
-    }));
-    result.push(...singleItemsets);
-    
-    // Generate pairs
-    for (let i = 0; i < frequentItems.length; i++) {
-      for (let j = i + 1; j < frequentItems.length; j++) {
-        const pair = [frequentItems[i], frequentItems[j]];
-        const support = this.calculateSupport(pair, transactions);
-        
-        if (support >= minSupport) {
-          result.push({
-            itemset: pair,
-            support
-          });
-        }
-      }
+    const isFrequent = (count: number) => totalTransactions > 0 && count / totalTransactions >= minSupport;
+
+    let level = Object.entries(this.countItems(transactions))
+      .filter(([, count]) => isFrequent(count))
+      .map(([item, count]) => ({ itemset: [item], count }));
+
+    while (level.length > 0) {
+      result.push(...level.map(({ itemset, count }) => ({ itemset, count, support: count / totalTransactions })));
+
+      const candidates = this.aprioriCandidates(level.map(({ itemset }) => itemset));
+      const counts = candidates.map(candidate =>
+        transactions.reduce((count, transaction) =>
+          candidate.every(item => transaction.has(item)) ? count + 1 : count, 0)
+      );
+
+      level = candidates
+        .map((itemset, i) => ({ itemset, count: counts[i] }))
+        .filter(({ count }) => isFrequent(count));
     }
-    
+
     return result;
   }
 
-  private static calculateSupport(itemset: string[], transactions: string[][]) {
-    let count = 0;
-    
-    transactions.forEach(transaction => {
-      if (itemset.every(item => transaction.includes(item))) {
-        count++;
+  // Joins itemsets that differ only in their last item, then drops any candidate with an infrequent subset
+  private static aprioriCandidates(itemsets: string[][]) {
+    const sorted = _.sortBy(itemsets.map(itemset => [...itemset].sort()), itemset => itemset.join(ITEM_KEY_SEPARATOR));
+    const frequent = new Set(sorted.map(itemset => itemset.join(ITEM_KEY_SEPARATOR)));
+    const candidates: string[][] = [];
+
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const a = sorted[i];
+        const b = sorted[j];
+        // Sorted, so once the prefixes differ no later itemset shares a's prefix
+        if (!_.isEqual(a.slice(0, -1), b.slice(0, -1))) break;
+
+        const candidate = [...a, b[b.length - 1]];
+        const allSubsetsFrequent = candidate.every((_item, k) =>
+          frequent.has(candidate.filter((_other, m) => m !== k).join(ITEM_KEY_SEPARATOR))
+        );
+        if (allSubsetsFrequent) candidates.push(candidate);
       }
-    });
-    
-    return count / transactions.length;
+    }
+
+    return candidates;
   }
 
+  // Every split of every frequent itemset into antecedent => consequent, best lift first
   private static generateAssociationRules(
     frequentItemsets: { itemset: string[]; support: number }[],
-    transactions: string[][],
     minConfidence: number
   ) {
-    const rules: { antecedent: string[]; consequent: string[]; confidence: number; lift: number }[] = [];
-    
-    // Find pairs and generate rules
-    const pairItemsets = frequentItemsets.filter(({itemset}) => itemset.length > 1);
-    
-    pairItemsets.forEach(({itemset, support}) => {
-      // Generate rules for each item in the itemset
-      for (let i = 0; i < itemset.length; i++) {
-        const antecedent = [itemset[i]];
-        const consequent = itemset.filter((_, idx) => idx !== i);
-        
-        // Calculate confidence
-        const antecedentSupport = this.calculateSupport(antecedent, transactions);
-        const confidence = support / antecedentSupport;
-        
+    const rules: { antecedent: string[]; consequent: string[]; support: number; confidence: number; lift: number }[] = [];
+
+    // Every subset of a frequent itemset is frequent, so its support is always here
+    const supportOf = new Map(frequentItemsets.map(({ itemset, support }) =>
+      [[...itemset].sort().join(ITEM_KEY_SEPARATOR), support]));
+    const support = (items: string[]) => supportOf.get([...items].sort().join(ITEM_KEY_SEPARATOR)) as number;
+
+    frequentItemsets.filter(({ itemset }) => itemset.length > 1).forEach(({ itemset, support: itemsetSupport }) => {
+      // Each bit mask picks the antecedent; the rest is the consequent
+      for (let mask = 1; mask < (1 << itemset.length) - 1; mask++) {
+        const antecedent = itemset.filter((_item, i) => mask & (1 << i));
+        const consequent = itemset.filter((_item, i) => !(mask & (1 << i)));
+        const confidence = itemsetSupport / support(antecedent);
+
         if (confidence >= minConfidence) {
-          // Calculate lift
-          const consequentSupport = this.calculateSupport(consequent, transactions);
-          const lift = confidence / consequentSupport;
-          
           rules.push({
             antecedent,
             consequent,
+            support: itemsetSupport,
             confidence,
-            lift
+            lift: confidence / support(consequent)
           });
         }
       }
     });
-    
-    return rules;
-  }
-
-  private static detectSalesAnomalies(
-    salesData: { date: string; product: string; units_sold: number; revenue: number; price: number }[]
-  ) {
-    // Group by product
-    const productGroups = _.groupBy(salesData, 'product');
-    
-    const anomalies: {
-      date: string;
-      product: string;
-      units_sold: number;
-      z_score: number;
-      type: string;
-    }[] = [];
-    
-    Object.entries(productGroups).forEach(([product, items]) => {
-      const unitsSold = items.map(item => item.units_sold);
-      const mean = _.mean(unitsSold);
-      const std = math.std(unitsSold) as unknown as number;
-      const threshold = 2.5; // Z-score threshold for anomalies
-      
-      items.forEach(item => {
-        const zScore = Math.abs((item.units_sold - mean) / std);
-        
-        if (zScore > threshold) {
-          anomalies.push({
-            date: item.date,
-            product: item.product,
-            units_sold: item.units_sold,
-            z_score: zScore,
-            type: item.units_sold > mean ? 'unusually high' : 'unusually low'
-          });
-        }
-      });
-    });
-    
-    return anomalies;
-  }
 
-  private static detectPriceAnomalies(
-    salesData: { date: string; product: string; units_sold: number; revenue: number; price: number }[]
-  ) {
-    // Group by product
-    const productGroups = _.groupBy(salesData, 'product');
-    
-    const anomalies: {
-      date: string;
-      product: string;
-      price: number;
-      z_score: number;
-      type: string;
-    }[] = [];
-    
-    Object.entries(productGroups).forEach(([product, items]) => {
-      const prices = items.map(item => item.price);
-      const mean = _.mean(prices);
-      const std = math.std(prices) as unknown as number;
-      const threshold = 2; // Z-score threshold for price anomalies
-      
-      items.forEach(item => {
-        const zScore = Math.abs((item.price - mean) / std);
-        
-        if (zScore > threshold) {
-          anomalies.push({
-            date: item.date,
-            product: item.product,
-            price: item.price,
-            z_score: zScore,
-            type: item.price > mean ? 'unusually high' : 'unusually low'
-          });
-        }
-      });
-    });
-    
-    return anomalies;
+    return _.orderBy(rules, ['lift', 'confidence', 'support'], ['desc', 'desc', 'desc']);
   }
 
   private static groupByDemographic(data: BusinessData[]) {
@@ -974,8 +1759,9 @@ export class AdvancedAnalytics {
     const competitiveProducts = priceComparisons.filter(p => p.is_price_competitive);
     const nonCompetitiveProducts = priceComparisons.filter(p => !p.is_price_competitive);
     
-    // Calculate promotion effectiveness
-    const promotionEffectiveness = this.calculatePromotionEffectiveness(data);
+    // Promotions pay off when they add revenue after cannibalisation and the post-promotion dip
+    const promotions = this.analyzePromotions(data);
+    const effective = promotions.summary.net_incremental_revenue > 0;
     
     // Generate insights
     const insights = [
@@ -999,93 +1785,47 @@ export class AdvancedAnalytics {
       },
       {
         area: 'Promotion Strategy',
-        insight: `Promotions ${promotionEffectiveness.effective ? 'are' : 'are not'} effective at driving sales (avg lift: ${promotionEffectiveness.avgLift.toFixed(2)}x)`,
-        recommendations: promotionEffectiveness.recommendations
+        insight: `${promotions.summary.events} promotions ${effective ? 'added' : 'lost'} P${Math.abs(promotions.summary.net_incremental_revenue).toFixed(2)} in net revenue`,
+        recommendations: effective
+          ? [
+              'Continue current promotion strategy',
+              `Focus promotions on high-impact products: ${promotions.products.slice(0, 3).map(p => p.product).join(', ')}`
+            ]
+          : [
+              'Review and revise promotion strategy',
+              'Test different promotion types or discount levels',
+              'Consider loyalty-based promotions instead of general discounts'
+            ]
       }
     ];
     
     return insights;
   }
-
-  private static calculatePromotionEffectiveness(data: (BusinessData & { DateObj: Date })[]) {
-    // Group by product
-    const productGroups = _.groupBy(data, 'Product');
-    
-    const promotionImpacts: Array<{
-      product: string;
-      avg_promo_sales: number;
-      avg_non_promo_sales: number;
-      lift: number;
-    }> = [];
-    
-    Object.entries(productGroups).forEach(([product, items]) => {
-      const promoItems = items.filter(item => item.Promotion_Active === 1);
-      const nonPromoItems = items.filter(item => item.Promotion_Active === 0);
-      
-      if (promoItems.length > 0 && nonPromoItems.length > 0) {
-        const avgPromoSales = _.meanBy(promoItems, 'Units_Sold');
-        const avgNonPromoSales = _.meanBy(nonPromoItems, 'Units_Sold');
-        const lift = avgPromoSales / avgNonPromoSales;
-        
-        promotionImpacts.push({
-          product,
-          avg_promo_sales: avgPromoSales,
-          avg_non_promo_sales: avgNonPromoSales,
-          lift
-        });
-      }
-    });
-    
-    const avgLift = _.meanBy(promotionImpacts, 'lift');
-    const effective = avgLift > 1.2; // Consider effective if 20% lift on average
-    
-    const recommendations = [];
-    if (effective) {
-      recommendations.push('Continue current promotion strategy');
-      
-      // Find most effective promotions
-      const mostEffective = _.orderBy(promotionImpacts, 'lift', 'desc').slice(0, 3);
-      if (mostEffective.length > 0) {
-        recommendations.push(`Focus promotions on high-impact products: ${mostEffective.map(p => p.product).join(', ')}`);
-      }
-    } else {
-      recommendations.push('Review and revise promotion strategy');
-      recommendations.push('Test different promotion types or discount levels');
-      recommendations.push('Consider loyalty-based promotions instead of general discounts');
-    }
-    
-    return {
-      effective,
-      avgLift,
-      productImpacts: promotionImpacts,
-      recommendations
-    };
-  }
 }
 
 export class RetailAnalytics {
-  static async analyzeData(data: BusinessData[]) {
+  static async analyzeData(data: BusinessData[], calendar: ForecastCalendar = DEFAULT_FORECAST_CALENDAR) {
     return {
       salesAnalysis: this.analyzeSales(data),
       customerSegments: this.segmentCustomers(data),
       inventoryInsights: this.analyzeInventory(data),
-      predictions: this.makePredictions(data),
+      predictions: this.makePredictions(data, calendar),
       competitiveAnalysis: this.analyzeCompetition(data)
     }
   }
 
   // 1. Moving Average for Sales Prediction
-  private static makePredictions(data: BusinessData[]) {
+  private static makePredictions(data: BusinessData[], calendar: ForecastCalendar) {
     const salesByDate = this.groupByDate(data)
-    const dates = Object.keys(salesByDate).sort()
+    const dates = _.sortBy(Object.keys(salesByDate), date => DateTime.fromFormat(date, 'dd/MM/yyyy').toMillis())
     const salesValues = dates.map(date => salesByDate[date].totalSales)
     
     // Calculate 7-day moving average
     const movingAverage = this.calculateMovingAverage(salesValues, 7)
     
-    // Simple exponential smoothing for predictions
-    const alpha = 0.2 // smoothing factor
-    const predictions = this.exponentialSmoothing(salesValues, alpha, 30)
+    // Seasonal forecast over consecutive days, with the model picked by backtest
+    const series = toDailySeries(_.mapValues(salesByDate, day => day.totalSales))
+    const { forecast: predictions, intervals, model } = forecastDemand(series.values, series.start, 30, calendar)
 
     return {
       historical: dates.map((date, i) => ({
@@ -1095,43 +1835,47 @@ export class RetailAnalytics {
       })),
       forecast: predictions.map((value, i) => ({
         date: this.addDays(dates[dates.length - 1], i + 1),
-        predicted: value
-      }))
+        predicted: value,
+        lower_80: intervals[i].lower80,
+        upper_80: intervals[i].upper80,
+        lower_95: intervals[i].lower95,
+        upper_95: intervals[i].upper95
+      })),
+      model
     }
   }
 
   // 2. RFM Customer Segmentation
   private static segmentCustomers(data: BusinessData[]) {
     const customerData = this.groupByDemographic(data)
-    const segments = Object.entries(customerData).map(([demographic, stats]) => {
-      // Calculate RFM scores - convert date to days since last purchase
-      const lastPurchaseDate = DateTime.fromFormat(stats.lastPurchaseDate, 'dd/MM/yyyy')
-      const today = DateTime.now()
-      const recencyDays = Math.floor(today.diff(lastPurchaseDate, 'days').days)
-      const frequency = stats.totalTransactions
-      const monetary = stats.totalRevenue
-
-      // Simple scoring system (1-5 for each metric)
-      const rScore = this.calculateScore(recencyDays, 'desc')
-      const fScore = this.calculateScore(frequency, 'asc')
-      const mScore = this.calculateScore(monetary, 'asc')
-
-      const totalScore = (rScore + fScore + mScore) / 3
+    const today = DateTime.now()
+    const stats = Object.entries(customerData).map(([demographic, totals]) => ({
+      demographic,
+      // Days since last purchase
+      recencyDays: Math.floor(today.diff(DateTime.fromFormat(totals.lastPurchaseDate, 'dd/MM/yyyy'), 'days').days),
+      frequency: totals.totalTransactions,
+      monetary: totals.totalRevenue
+    }))
+
+    // Quintile scores (1-5 for each metric) against the other demographics
+    const rScores = quintileScores(stats.map(item => item.recencyDays), 'desc')
+    const fScores = quintileScores(stats.map(item => item.frequency), 'asc')
+    const mScores = quintileScores(stats.map(item => item.monetary), 'asc')
+
+    return stats.map(({ demographic, recencyDays, frequency, monetary }, i) => {
+      const totalScore = (rScores[i] + fScores[i] + mScores[i]) / 3
 
       return {
         demographic,
-        segment: totalScore >= 4 ? 'High-Value' :
-                 totalScore >= 3 ? 'Mid-Value' : 'Low-Value',
+        segment: valueTier(totalScore),
         metrics: { recency: recencyDays, frequency, monetary },
         score: totalScore
       }
     })
-
-    return segments
   }
 
   // 3. ABC Analysis for Inventory
-  private static analyzeInventory(data: BusinessData[]) {
+  private static analyzeInventory(data: BusinessData[], inventory: InventorySnapshot[] = []) {
     // Group by product for detailed analysis
     const productGroups = data.reduce((acc, item) => {
       if (!acc[item.Product]) {
@@ -1140,14 +1884,29 @@ export class RetailAnalytics {
       acc[item.Product].push(item)
       return acc
     }, {} as Record<string, BusinessData[]>)
+    const snapshotGroups = _.groupBy(inventory, 'Product')
 
     // Calculate metrics for each product
     const inventoryMetrics = Object.entries(productGroups).map(([product, items]) => {
+      // Stock counts are more reliable than the Stock_Level column on sales lines, so prefer the
+      // latest snapshot of each store when inventory data has been uploaded
+      const snapshots = snapshotGroups[product] ?? []
+      const latestByStore = <T extends { Store: string; Date: string }>(rows: T[]) =>
+        Object.values(_.groupBy(rows, 'Store')).map(storeRows =>
+          _.maxBy(storeRows, row => DateTime.fromFormat(row.Date, 'dd/MM/yyyy').toMillis())!
+        )
+      const latestSnapshots = latestByStore(snapshots)
+
       // Calculate key metrics
       const revenue = items.reduce((sum, item) => sum + item.Revenue_BWP, 0)
-      const currentStock = items[items.length - 1].Stock_Level
+      const currentStock = latestSnapshots.length > 0
+        ? _.sumBy(latestSnapshots, 'Stock_Level')
+        : _.sumBy(latestByStore(items), 'Stock_Level')
+      const onOrder = _.sumBy(latestSnapshots, 'On_Order_Units')
       const avgDailySales = items.reduce((sum, item) => sum + item.Units_Sold, 0) / items.length
-      const avgLeadTime = items.reduce((sum, item) => sum + item.Lead_Time_Days, 0) / items.length
+      const avgLeadTime = snapshots.length > 0
+        ? _.meanBy(snapshots, 'Lead_Time_Days')
+        : items.reduce((sum, item) => sum + item.Lead_Time_Days, 0) / items.length
       
       // Calculate safety stock and reorder point
       const standardDeviation = Math.sqrt(
@@ -1156,7 +1915,9 @@ export class RetailAnalytics {
         ) / items.length
       )
       
-      const safetyStock = Math.ceil(1.96 * standardDeviation * Math.sqrt(avgLeadTime))
+      const safetyStock = Math.ceil(
+        normalQuantile(DEFAULT_INVENTORY_PARAMETERS.serviceLevel) * standardDeviation * Math.sqrt(avgLeadTime)
+      )
       const reorderPoint = Math.ceil(avgDailySales * avgLeadTime + safetyStock)
 
       return {
@@ -1168,7 +1929,9 @@ export class RetailAnalytics {
           avg_daily_sales: avgDailySales,
           lead_time: avgLeadTime,
           safety_stock: safetyStock,
-          stock_coverage: currentStock / avgDailySales // Days of inventory
+          stock_coverage: currentStock / avgDailySales, // Days of inventory
+          on_order: onOrder,
+          stock_source: latestSnapshots.length > 0 ? 'inventory' : 'sales'
         }
       }
     })
@@ -1216,7 +1979,8 @@ export class RetailAnalytics {
         sales_impact: {
           units_sold: stats.unitsSold,
           revenue: stats.revenue,
-          margin: ((stats.avgPrice - stats.avgCompetitionPrice) / stats.avgPrice) * 100
+          // How much dearer than the competition we are, as a share of our price. Not a margin: there is no cost data here.
+          price_premium: ((stats.avgPrice - stats.avgCompetitionPrice) / stats.avgPrice) * 100
         }
       }
     })
@@ -1243,29 +2007,12 @@ export class RetailAnalytics {
     })
   }
 
-  private static exponentialSmoothing(data: number[], alpha: number, horizon: number) {
-    let lastValue = data[data.length - 1]
-    const predictions = []
-
-    for (let i = 0; i < horizon; i++) {
-      lastValue = alpha * data[data.length - 1] + (1 - alpha) * lastValue
-      predictions.push(lastValue)
-    }
-
-    return predictions
-  }
-
   private static addDays(dateStr: string, days: number) {
     return DateTime.fromFormat(dateStr, 'dd/MM/yyyy')
       .plus({ days })
       .toFormat('dd/MM/yyyy')
   }
 
-  private static calculateScore(value: number, direction: 'asc' | 'desc'): number {
-    // Implement quintile scoring
-    return Math.ceil(Math.random() * 5) // Simplified for example
-  }
-
   private static groupByDemographic(data: BusinessData[]) {
     interface DemographicStats {
       totalRevenue: number;
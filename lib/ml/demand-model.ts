@@ -0,0 +1,127 @@
+import { DateTime } from 'luxon';
+import _ from 'lodash';
+import * as tf from '@tensorflow/tfjs';
+import { calendarFlags, type ForecastCalendar } from '@/lib/ml/calendar';
+import type { BusinessData } from '@/lib/ml/data-processor';
+
+// Inputs of the demand model, in column order
+export const DEMAND_FEATURES = [
+  'Price_per_Unit_BWP',
+  'Competition_Price_BWP',
+  'Promotion_Active',
+  'Customer_Retention_Score',
+  'Stock_Level',
+  'Day_of_Week',
+  'Day_of_Month',
+  'Holiday',
+  'Payday'
+];
+
+// Bump when the features or network change, so saved models are retrained
+export const DEMAND_MODEL_VERSION = 1;
+
+export interface DemandNormalisation {
+  featureMeans: number[];
+  featureStds: number[];
+  targetMean: number;
+  targetStd: number;
+}
+
+// Saved next to the weights; enough to explain the model without retraining it
+export interface DemandModelMetadata {
+  version: number;
+  // Describes the data the model was trained on; a different signature means the model is stale
+  signature: string;
+  features: string[];
+  normalisation: DemandNormalisation;
+  trainedAt: string;
+  trainingRows: number;
+  testRows: number;
+  // On the most recent rows, held back from training, in units sold
+  metrics: { mse: number; rmse: number; mae: number; r2: number };
+  // Share of the test error increase when each feature is shuffled
+  featureImportance: Array<{ feature: string; importance: number }>;
+}
+
+export interface StoredDemandModel {
+  model: tf.LayersModel;
+  metadata: DemandModelMetadata;
+}
+
+// Where a user's trained demand model is kept between runs
+export interface DemandModelStore {
+  load(): Promise<StoredDemandModel | null>;
+  save(model: tf.LayersModel, metadata: DemandModelMetadata): Promise<void>;
+}
+
+const parseDate = (date: string) => DateTime.fromFormat(date, 'dd/MM/yyyy');
+
+// One feature row per sales row, with the calendar flags of its date
+export function demandFeatures(rows: BusinessData[], calendar: ForecastCalendar): number[][] {
+  if (rows.length === 0) return [];
+
+  const days = rows.map(row => parseDate(row.Date));
+  const start = DateTime.min(...days) as DateTime;
+  const end = DateTime.max(...days) as DateTime;
+  const flags = calendarFlags(start, Math.round(end.diff(start, 'days').days) + 1, calendar);
+
+  return rows.map((row, i) => {
+    const day = days[i];
+    const { holiday, payday } = flags[Math.round(day.diff(start, 'days').days)];
+    return [
+      row.Price_per_Unit_BWP,
+      row.Competition_Price_BWP,
+      row.Promotion_Active,
+      row.Customer_Retention_Score,
+      row.Stock_Level,
+      day.weekday,
+      day.day,
+      holiday ? 1 : 0,
+      payday ? 1 : 0
+    ].map(value => Number(value) || 0);
+  });
+}
+
+// Changes whenever a row is added, removed or edited in a way the model would see
+export function demandModelSignature(rows: BusinessData[], features: number[][], calendar: ForecastCalendar) {
+  const columnSums = DEMAND_FEATURES.map((_feature, j) => _.round(_.sumBy(features, row => row[j]), 4));
+  return JSON.stringify([
+    DEMAND_MODEL_VERSION,
+    rows.length,
+    rows[0]?.Date,
+    rows[rows.length - 1]?.Date,
+    _.round(_.sumBy(rows, 'Units_Sold'), 4),
+    columnSums,
+    calendar
+  ]);
+}
+
+// Means and standard deviations of the training rows; a constant column is left unscaled
+export function fitNormalisation(features: number[][], targets: number[]): DemandNormalisation {
+  const spread = (values: number[], mean: number) =>
+    Math.sqrt(_.mean(values.map(value => Math.pow(value - mean, 2)))) || 1;
+
+  const featureMeans = DEMAND_FEATURES.map((_feature, j) => _.mean(features.map(row => row[j])));
+  const targetMean = _.mean(targets);
+
+  return {
+    featureMeans,
+    featureStds: featureMeans.map((mean, j) => spread(features.map(row => row[j]), mean)),
+    targetMean,
+    targetStd: spread(targets, targetMean)
+  };
+}
+
+export function normaliseFeatures(features: number[][], { featureMeans, featureStds }: DemandNormalisation) {
+  return features.map(row => row.map((value, j) => (value - featureMeans[j]) / featureStds[j]));
+}
+
+// Two small hidden layers: enough to pick up price and promotion interactions on a few thousand rows
+export function buildDemandModel(inputSize: number) {
+  const model = tf.sequential();
+  model.add(tf.layers.dense({ inputShape: [inputSize], units: 16, activation: 'relu' }));
+  model.add(tf.layers.dense({ units: 8, activation: 'relu' }));
+  model.add(tf.layers.dense({ units: 1 }));
+  model.compile({ optimizer: tf.train.adam(0.01), loss: 'meanSquaredError' });
+  return model;
+}
@@ -0,0 +1,303 @@
+import { DateTime } from 'luxon';
+import _ from 'lodash';
+import { calendarFlags, DEFAULT_FORECAST_CALENDAR, type CalendarFlags, type ForecastCalendar } from '@/lib/ml/calendar';
+
+export type ForecastModel =
+  | 'simple'
+  | 'holt'
+  | 'holt_winters_additive'
+  | 'holt_winters_multiplicative';
+
+export const FORECAST_MODELS: ForecastModel[] = [
+  'simple',
+  'holt',
+  'holt_winters_additive',
+  'holt_winters_multiplicative'
+];
+
+export const FORECAST_MODEL_LABELS: Record<ForecastModel, string> = {
+  simple: 'Exponential smoothing',
+  holt: 'Holt (trend)',
+  holt_winters_additive: 'Holt-Winters (additive)',
+  holt_winters_multiplicative: 'Holt-Winters (multiplicative)'
+};
+
+// Day-of-week seasonality
+const SEASON_LENGTH = 7;
+
+// Days at the end of the history each model is scored on
+const BACKTEST_DAYS = 14;
+
+// Smoothing parameters tried for each model; the combination with the lowest in-sample error is kept
+const ALPHAS = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+// Holiday and payday effects are limited to this range, so a few odd days cannot swamp the forecast
+const MIN_CALENDAR_EFFECT = 0.25;
+const MAX_CALENDAR_EFFECT = 4;
+// Same-weekday days either side of a holiday or payday used as its baseline
+const CALENDAR_BASELINE_DAYS = 21;
+
+// Standard normal quantiles for two-sided 80% and 95% prediction intervals
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+export interface SmoothingParameters {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+export interface CalendarEffects {
+  // Demand on these days relative to an ordinary day of the same weekday; 1 means no effect
+  holiday: number;
+  payday: number;
+}
+
+export interface PredictionInterval {
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+export interface DemandForecast {
+  model: ForecastModel;
+  parameters: SmoothingParameters;
+  forecast: number[];
+  // One per forecast day
+  intervals: PredictionInterval[];
+  // Mean absolute error of every model that could be fitted, best first
+  backtest: Array<{ model: ForecastModel; mae: number }>;
+  backtestDays: number;
+  calendarEffects: CalendarEffects;
+}
+
+const isSeasonal = (model: ForecastModel) => model.startsWith('holt_winters');
+const isTrended = (model: ForecastModel) => model !== 'simple';
+
+// Models that can be fitted to a series: seasonal ones need two full weeks, multiplicative ones positive demand
+export function eligibleModels(values: number[]) {
+  return FORECAST_MODELS.filter(model => {
+    if (isSeasonal(model) && values.length < 2 * SEASON_LENGTH) return false;
+    if (model === 'holt_winters_multiplicative' && values.some(value => value <= 0)) return false;
+    if (isTrended(model) && values.length < 2) return false;
+    return values.length > 0;
+  });
+}
+
+// Runs the smoothing recursions, returning the one-step-ahead fit and a function to forecast beyond the data
+export function holtWinters(values: number[], model: ForecastModel, { alpha, beta, gamma }: SmoothingParameters) {
+  const seasonal = isSeasonal(model);
+  const trended = isTrended(model);
+  const multiplicative = model === 'holt_winters_multiplicative';
+  const m = SEASON_LENGTH;
+
+  let level: number;
+  let trend = 0;
+  let season: number[] = [];
+
+  if (seasonal) {
+    level = _.mean(values.slice(0, m));
+    if (trended && values.length >= 2 * m) {
+      trend = (_.mean(values.slice(m, 2 * m)) - level) / m;
+    }
+    season = values.slice(0, m).map(value => multiplicative ? value / level : value - level);
+  } else {
+    level = values[0];
+    if (trended && values.length > 1) {
+      trend = values[1] - values[0];
+    }
+  }
+
+  const seasonAt = (t: number) => seasonal ? season[t % m] : (multiplicative ? 1 : 0);
+  const combine = (base: number, s: number) => multiplicative ? base * s : base + s;
+
+  const fitted = values.map((value, t) => {
+    const s = seasonAt(t);
+    const prediction = combine(level + trend, s);
+    const previousLevel = level;
+
+    level = multiplicative
+      ? alpha * (value / s) + (1 - alpha) * (level + trend)
+      : alpha * (value - s) + (1 - alpha) * (level + trend);
+    if (trended) {
+      trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    }
+    if (seasonal) {
+      season[t % m] = multiplicative
+        ? gamma * (value / level) + (1 - gamma) * s
+        : gamma * (value - level) + (1 - gamma) * s;
+    }
+
+    return prediction;
+  });
+
+  const forecast = (horizon: number) => _.range(horizon).map(i =>
+    combine(level + (i + 1) * trend, seasonAt(values.length + i))
+  );
+
+  return { fitted, forecast };
+}
+
+// Grid search over the smoothing parameters, scoring one-step-ahead errors after the first week
+export function chooseParameters(values: number[], model: ForecastModel): SmoothingParameters {
+  const betas = isTrended(model) ? BETAS : [0];
+  const gammas = isSeasonal(model) ? GAMMAS : [0];
+  const start = Math.min(SEASON_LENGTH, values.length - 1);
+
+  let best: SmoothingParameters = { alpha: ALPHAS[0], beta: betas[0], gamma: gammas[0] };
+  let bestError = Infinity;
+
+  for (const alpha of ALPHAS) {
+    for (const beta of betas) {
+      for (const gamma of gammas) {
+        const { fitted } = holtWinters(values, model, { alpha, beta, gamma });
+        const error = _.sum(values.slice(start).map((value, i) => Math.pow(value - fitted[start + i], 2)));
+        if (Number.isFinite(error) && error < bestError) {
+          bestError = error;
+          best = { alpha, beta, gamma };
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+// Normal interval around a point forecast; demand cannot go below zero
+export function predictionInterval(value: number, spread: number): PredictionInterval {
+  return {
+    lower80: Math.max(0, value - Z_80 * spread),
+    upper80: Math.max(0, value + Z_80 * spread),
+    lower95: Math.max(0, value - Z_95 * spread),
+    upper95: Math.max(0, value + Z_95 * spread)
+  };
+}
+
+// Growth of the forecast variance h days ahead relative to one day ahead, from Holt's linear method.
+// The seasonal term is left out, so weekly models' intervals are slightly narrower than exact ones.
+function varianceFactor(h: number, model: ForecastModel, { alpha, beta }: SmoothingParameters) {
+  if (!isTrended(model)) {
+    return 1 + (h - 1) * alpha * alpha;
+  }
+  return 1 + (h - 1) * (alpha * alpha + alpha * beta * h + beta * beta * h * (2 * h - 1) / 6);
+}
+
+const effectOf = (flags: CalendarFlags, effects: CalendarEffects) =>
+  (flags.holiday ? effects.holiday : 1) * (flags.payday ? effects.payday : 1);
+
+// Average lift on holidays and paydays against ordinary days of the same weekday around them
+export function estimateCalendarEffects(values: number[], flags: CalendarFlags[]): CalendarEffects {
+  const ordinary = (i: number) => !flags[i].holiday && !flags[i].payday;
+
+  const effect = (key: keyof CalendarFlags) => {
+    const ratios = values.flatMap((value, i) => {
+      if (!flags[i][key]) return [];
+
+      const neighbours = _.range(-CALENDAR_BASELINE_DAYS, CALENDAR_BASELINE_DAYS + 1, SEASON_LENGTH)
+        .map(offset => i + offset)
+        .filter(j => j !== i && j >= 0 && j < values.length && ordinary(j))
+        .map(j => values[j]);
+      const baseline = _.mean(neighbours);
+
+      return neighbours.length > 0 && baseline > 0 ? [value / baseline] : [];
+    });
+
+    // One holiday is not enough to tell an effect from noise
+    if (ratios.length < 2) return 1;
+    return _.clamp(_.mean(ratios), MIN_CALENDAR_EFFECT, MAX_CALENDAR_EFFECT);
+  };
+
+  return { holiday: effect('holiday'), payday: effect('payday') };
+}
+
+// Fits one model to calendar-adjusted history and forecasts `horizon` days after it.
+// `flags` must cover the history and the forecast days.
+export function fitAndForecast(
+  values: number[],
+  flags: CalendarFlags[],
+  model: ForecastModel,
+  horizon: number
+) {
+  const calendarEffects = estimateCalendarEffects(values, flags);
+  const adjusted = values.map((value, i) => value / effectOf(flags[i], calendarEffects));
+  const parameters = chooseParameters(adjusted, model);
+  const smoothed = holtWinters(adjusted, model, parameters);
+
+  // Spread of the one-step-ahead errors once the first week has settled the model
+  const start = Math.min(SEASON_LENGTH, adjusted.length - 1);
+  const sigma = Math.sqrt(_.mean(adjusted.slice(start).map((value, i) => Math.pow(value - smoothed.fitted[start + i], 2))));
+
+  const points = smoothed.forecast(horizon);
+  const forecast = points.map((value, i) => Math.max(0, value * effectOf(flags[values.length + i], calendarEffects)));
+  const intervals = points.map((value, i) => {
+    const effect = effectOf(flags[values.length + i], calendarEffects);
+    const interval = predictionInterval(value, sigma * Math.sqrt(varianceFactor(i + 1, model, parameters)));
+    return _.mapValues(interval, bound => bound * effect);
+  });
+
+  return { parameters, forecast, intervals, calendarEffects };
+}
+
+// Daily demand forecast, picking the model that best predicted the last two weeks of history.
+// `values` are consecutive days starting at `start`, with days without sales as zero.
+export function forecastDemand(
+  values: number[],
+  start: DateTime,
+  horizon: number,
+  calendar: ForecastCalendar = DEFAULT_FORECAST_CALENDAR
+): DemandForecast {
+  const flags = calendarFlags(start, values.length + horizon, calendar);
+  const backtestDays = Math.min(BACKTEST_DAYS, Math.floor(values.length / 4));
+  const training = values.slice(0, values.length - backtestDays);
+  const actual = values.slice(values.length - backtestDays);
+
+  const backtest = backtestDays > 0
+    ? _.sortBy(
+      eligibleModels(training).map(model => {
+        const { forecast } = fitAndForecast(training, flags, model, backtestDays);
+        return { model, mae: _.mean(actual.map((value, i) => Math.abs(value - forecast[i]))) };
+      }),
+      'mae'
+    )
+    : [];
+
+  const candidates = eligibleModels(values);
+  const model = backtest.find(result => candidates.includes(result.model))?.model ?? candidates[0] ?? 'simple';
+
+  if (values.length === 0) {
+    return {
+      model,
+      parameters: { alpha: 0, beta: 0, gamma: 0 },
+      forecast: Array(horizon).fill(0),
+      intervals: Array(horizon).fill(predictionInterval(0, 0)),
+      backtest,
+      backtestDays,
+      calendarEffects: { holiday: 1, payday: 1 }
+    };
+  }
+
+  return {
+    model,
+    ...fitAndForecast(values, flags, model, horizon),
+    backtest,
+    backtestDays
+  };
+}
+
+// Totals per dd/MM/yyyy date as consecutive days from the first to the last, missing days as zero
+export function toDailySeries(totals: Record<string, number>) {
+  const days = Object.keys(totals).map(date => DateTime.fromFormat(date, 'dd/MM/yyyy'));
+  if (days.length === 0) {
+    return { start: DateTime.now().startOf('day'), values: [] as number[] };
+  }
+
+  const start = DateTime.min(...days) as DateTime;
+  const end = DateTime.max(...days) as DateTime;
+  const values = _.range(Math.round(end.diff(start, 'days').days) + 1)
+    .map(i => totals[start.plus({ days: i }).toFormat('dd/MM/yyyy')] ?? 0);
+
+  return { start, values };
+}
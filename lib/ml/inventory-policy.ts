@@ -0,0 +1,287 @@
+import _ from 'lodash';
+
+// (s,Q): reorder a fixed quantity Q whenever stock falls to s. (R,S): every R days, order back up to S.
+export type InventoryPolicyType = 'sQ' | 'RS';
+
+export const INVENTORY_POLICY_LABELS: Record<InventoryPolicyType, string> = {
+  sQ: 'Reorder point (s,Q)',
+  RS: 'Periodic review (R,S)'
+};
+
+// Costs and targets one product is stocked to
+export interface InventoryParameters {
+  policy: InventoryPolicyType;
+  // BWP to hold one unit for a year
+  holdingCost: number;
+  // BWP to place and receive one order, whatever its size
+  orderingCost: number;
+  // Chance of not running out between placing an order and receiving it, e.g. 0.95
+  serviceLevel: number;
+  // Smallest quantity the supplier accepts; smaller orders are raised to it
+  moq: number;
+  // Days between stock reviews, for (R,S)
+  reviewDays: number;
+}
+
+export type InventoryOverrideScope = 'category' | 'product';
+
+// Parameters for one category or product that differ from the defaults; a product beats its category
+export interface InventoryOverride extends Partial<InventoryParameters> {
+  scope: InventoryOverrideScope;
+  name: string;
+}
+
+export interface InventorySettings {
+  defaults: InventoryParameters;
+  overrides: InventoryOverride[];
+}
+
+export const DEFAULT_INVENTORY_PARAMETERS: InventoryParameters = {
+  policy: 'sQ',
+  holdingCost: 10,
+  orderingCost: 100,
+  serviceLevel: 0.95,
+  moq: 0,
+  reviewDays: 7
+};
+
+export const DEFAULT_INVENTORY_SETTINGS: InventorySettings = {
+  defaults: DEFAULT_INVENTORY_PARAMETERS,
+  overrides: []
+};
+
+export const MIN_SERVICE_LEVEL = 0.5;
+export const MAX_SERVICE_LEVEL = 0.999;
+export const MAX_REVIEW_DAYS = 90;
+
+const INVENTORY_POLICIES: InventoryPolicyType[] = ['sQ', 'RS'];
+
+// Numbers outside [min, max] are dropped rather than clamped, so a typo falls back instead of becoming a limit
+const numberIn = (value: unknown, min: number, max: number) => {
+  const number = Number(value);
+  return value !== null && value !== '' && Number.isFinite(number) && number >= min && number <= max ? number : undefined;
+};
+
+function sanitiseParameters(value: unknown): Partial<InventoryParameters> {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const reviewDays = numberIn(input.reviewDays, 1, MAX_REVIEW_DAYS);
+
+  return _.omitBy({
+    policy: INVENTORY_POLICIES.includes(input.policy as InventoryPolicyType) ? input.policy as InventoryPolicyType : undefined,
+    holdingCost: numberIn(input.holdingCost, 0.01, 1e6),
+    orderingCost: numberIn(input.orderingCost, 0, 1e6),
+    serviceLevel: numberIn(input.serviceLevel, MIN_SERVICE_LEVEL, MAX_SERVICE_LEVEL),
+    moq: numberIn(input.moq, 0, 1e6),
+    reviewDays: reviewDays === undefined ? undefined : Math.round(reviewDays)
+  }, _.isUndefined);
+}
+
+// Settings from the client or the database, with anything invalid replaced by the default
+export function sanitiseInventorySettings(value: unknown): InventorySettings {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<InventorySettings>;
+
+  const overrides = (Array.isArray(input.overrides) ? input.overrides : [])
+    .filter(override => override && (override.scope === 'category' || override.scope === 'product') && String(override.name ?? '').trim())
+    .map(override => ({
+      scope: override.scope,
+      name: String(override.name).trim(),
+      ...sanitiseParameters(override)
+    }));
+
+  return {
+    defaults: { ...DEFAULT_INVENTORY_PARAMETERS, ...sanitiseParameters(input.defaults) },
+    // One override per category or product; the last one wins
+    overrides: _.uniqBy(overrides.reverse(), override => `${override.scope}:${override.name}`).reverse()
+  };
+}
+
+export function resolveInventoryParameters(settings: InventorySettings, product: string, category: string): InventoryParameters {
+  const find = (scope: InventoryOverrideScope, name: string) => {
+    const override = settings.overrides.find(item => item.scope === scope && item.name === name);
+    return override ? _.omit(override, ['scope', 'name']) : {};
+  };
+
+  return { ...settings.defaults, ...find('category', category), ...find('product', product) };
+}
+
+// Inverse of the standard normal distribution (Acklam's approximation, accurate to about 1e-9)
+export function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p <= low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p >= 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export interface DemandProfile {
+  // Expected units per day over the coming weeks
+  dailyDemand: number;
+  // Standard deviation of one day's demand around that expectation
+  dailySpread: number;
+  leadTimeDays: number;
+  // Standard deviation of the supplier's lead time in days
+  leadTimeSpread: number;
+}
+
+export interface InventoryPolicy {
+  policy: InventoryPolicyType;
+  service_level: number;
+  z: number;
+  safety_stock: number;
+  // (s,Q): order when stock falls to this. (R,S): stock below this runs out before the next delivery.
+  reorder_point: number;
+  // (R,S) only: the level each review orders back up to
+  order_up_to: number | null;
+  review_days: number | null;
+  // (s,Q): Q. (R,S): the typical order, one review period of demand. Both at least the MOQ, and 0 when there is no
+  // demand to order for.
+  order_quantity: number;
+  eoq: number;
+  moq: number;
+  // Expected yearly ordering plus holding cost, including holding the safety stock
+  annual_cost: number;
+}
+
+const atLeastMoq = (value: number, moq: number) => Math.max(Math.ceil(value), moq);
+
+// Safety stock covers demand and lead-time variability over the protection interval: the lead time for (s,Q),
+// the review period plus the lead time for (R,S). Variance of demand over a random lead time L is
+// E[L]·σd² + d²·σL².
+export function computeInventoryPolicy(demand: DemandProfile, parameters: InventoryParameters): InventoryPolicy {
+  const { dailyDemand, dailySpread, leadTimeDays, leadTimeSpread } = demand;
+  const z = normalQuantile(parameters.serviceLevel);
+  const reviewDays = parameters.policy === 'RS' ? parameters.reviewDays : 0;
+  const protectionDays = reviewDays + leadTimeDays;
+
+  const spread = Math.sqrt(protectionDays * dailySpread * dailySpread + dailyDemand * dailyDemand * leadTimeSpread * leadTimeSpread);
+  const safetyStock = Math.ceil(Math.max(0, z) * spread);
+  const reorderPoint = Math.ceil(dailyDemand * leadTimeDays + safetyStock);
+
+  const annualDemand = dailyDemand * 365;
+  const eoq = annualDemand > 0 ? Math.ceil(Math.sqrt((2 * annualDemand * parameters.orderingCost) / parameters.holdingCost)) : 0;
+  const orderQuantity = dailyDemand > 0
+    ? atLeastMoq(Math.max(parameters.policy === 'RS' ? dailyDemand * reviewDays : eoq, 1), parameters.moq)
+    : 0;
+
+  const ordersPerYear = orderQuantity > 0 ? annualDemand / orderQuantity : 0;
+  const annualCost = ordersPerYear * parameters.orderingCost + (orderQuantity / 2 + safetyStock) * parameters.holdingCost;
+
+  return {
+    policy: parameters.policy,
+    service_level: parameters.serviceLevel,
+    z: _.round(z, 3),
+    safety_stock: safetyStock,
+    reorder_point: reorderPoint,
+    order_up_to: parameters.policy === 'RS' ? Math.ceil(dailyDemand * protectionDays + safetyStock) : null,
+    review_days: parameters.policy === 'RS' ? reviewDays : null,
+    order_quantity: orderQuantity,
+    eoq,
+    moq: parameters.moq,
+    annual_cost: _.round(annualCost, 2)
+  };
+}
+
+// Units to order now for a stock position at or below the reorder point, and 0 above it. (s,Q) orders its EOQ-based
+// Q, or more if Q would not lift the position back above s; (R,S) orders back up to S. Both order at least the MOQ.
+// Products without demand are never ordered, even with nothing in stock.
+export function reorderQuantity(policy: InventoryPolicy, position: number): number {
+  if (!needsReorder(policy, position)) return 0;
+  if (policy.order_up_to !== null) return atLeastMoq(Math.max(1, policy.order_up_to - position), policy.moq);
+  return atLeastMoq(Math.max(policy.order_quantity, policy.reorder_point - position + 1), policy.moq);
+}
+
+// What one store has of a product, counted the way reorder decisions count it
+export interface StockPositionMetrics {
+  // On hand plus on order
+  stock_position: number;
+  transfer_in: number;
+  transfer_out: number;
+}
+
+// The stock position once planned transfers have moved
+export const positionAfterTransfers = (metrics: StockPositionMetrics) =>
+  metrics.stock_position + metrics.transfer_in - metrics.transfer_out;
+
+// Whether reorderQuantity orders anything, so stock alerts agree with the units it says to order
+export const needsReorder = (policy: Pick<InventoryPolicy, 'order_quantity' | 'reorder_point'>, position: number) =>
+  policy.order_quantity > 0 && position <= policy.reorder_point;
+
+// One store's stock of a product, as the transfer planner sees it
+export interface StorePosition {
+  store: string;
+  stock_level: number;
+  on_order: number;
+  daily_demand: number;
+  policy: InventoryPolicy;
+}
+
+export interface StockTransfer {
+  product: string;
+  from_store: string;
+  to_store: string;
+  units: number;
+  // Days of demand the receiving store covers after the transfer
+  to_days_of_cover: number | null;
+}
+
+const daysOfCover = (units: number, dailyDemand: number) => (dailyDemand > 0 ? _.round(units / dailyDemand, 1) : null);
+
+// Level a delivery would bring a store back up to: S for (R,S), s + Q for (s,Q)
+const targetLevel = (policy: InventoryPolicy) => policy.order_up_to ?? policy.reorder_point + policy.order_quantity;
+
+// Moves surplus stock of one product to stores at or below their reorder point before anyone reorders. A donor
+// gives only stock it has on hand, and keeps its position above its own reorder point so the transfer does not
+// make it reorder in turn. The stores with the least cover are served first, from the stores with the most surplus.
+export function planStockTransfers(product: string, positions: StorePosition[]): StockTransfer[] {
+  const position = (store: StorePosition) => store.stock_level + store.on_order;
+
+  const donors = positions
+    .map(store => ({
+      store: store.store,
+      surplus: Math.max(0, Math.min(store.stock_level, position(store) - store.policy.reorder_point - 1))
+    }))
+    .filter(donor => donor.surplus > 0);
+
+  const receivers = _.sortBy(
+    positions.filter(store => position(store) <= store.policy.reorder_point),
+    store => daysOfCover(position(store), store.daily_demand) ?? Infinity
+  );
+
+  const transfers: StockTransfer[] = [];
+  receivers.forEach(receiver => {
+    let received = 0;
+    let need = targetLevel(receiver.policy) - position(receiver);
+
+    _.orderBy(donors, 'surplus', 'desc').forEach(donor => {
+      const units = Math.min(need, donor.surplus);
+      if (units <= 0) return;
+
+      donor.surplus -= units;
+      need -= units;
+      received += units;
+      transfers.push({
+        product,
+        from_store: donor.store,
+        to_store: receiver.store,
+        units,
+        to_days_of_cover: daysOfCover(position(receiver) + received, receiver.daily_demand)
+      });
+    });
+  });
+
+  return transfers;
+}
@@ -0,0 +1,33 @@
+// Thresholds for market basket analysis, adjustable per request
+export interface MarketBasketOptions {
+  // Share of baskets an itemset must appear in to count as frequent
+  minSupport: number;
+  // Share of baskets with a rule's antecedent that must also hold its consequent
+  minConfidence: number;
+}
+
+export const DEFAULT_MARKET_BASKET_OPTIONS: MarketBasketOptions = {
+  minSupport: 0.05,
+  minConfidence: 0.3
+};
+
+// Below this, the number of candidate itemsets can grow faster than a request can count them
+export const MIN_SUPPORT_FLOOR = 0.005;
+
+// Rules returned, best lift first
+export const MAX_ASSOCIATION_RULES = 100;
+// Frequent itemsets returned, most common first
+export const MAX_FREQUENT_ITEMSETS = 200;
+
+const clampOr = (value: unknown, min: number, max: number, fallback: number) => {
+  const number = Number(value);
+  return value !== null && value !== '' && Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+};
+
+// Thresholds from query parameters or a request body, as fractions; anything missing falls back to the default
+export function sanitiseMarketBasketOptions(value: { minSupport?: unknown; minConfidence?: unknown }): MarketBasketOptions {
+  return {
+    minSupport: clampOr(value.minSupport, MIN_SUPPORT_FLOOR, 1, DEFAULT_MARKET_BASKET_OPTIONS.minSupport),
+    minConfidence: clampOr(value.minConfidence, 0, 1, DEFAULT_MARKET_BASKET_OPTIONS.minConfidence)
+  };
+}
@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as tf from '@tensorflow/tfjs';
+import type { DemandModelMetadata, DemandModelStore } from '@/lib/ml/demand-model';
+
+// Trained models are kept on local disk, one directory per user
+const MODEL_STORE_DIR = process.env.MODEL_STORE_DIR || path.join(process.cwd(), '.model-store');
+
+const MODEL_FILE = 'model.json';
+const WEIGHTS_FILE = 'weights.bin';
+const METADATA_FILE = 'metadata.json';
+
+function userDirectory(userId: string) {
+  // Ids come from the session, but should never be able to point outside the store
+  return path.join(MODEL_STORE_DIR, userId.replace(/[^\w-]/g, '_'), 'demand');
+}
+
+// Saves with tf.io in the layers-model format, so the files also load with tf.loadLayersModel('file://...') in tfjs-node
+export function fileModelStore(userId: string): DemandModelStore {
+  const directory = userDirectory(userId);
+  const file = (name: string) => path.join(directory, name);
+
+  return {
+    async load() {
+      let modelJson: string, weights: Buffer, metadataJson: string;
+      try {
+        [modelJson, weights, metadataJson] = await Promise.all([
+          fs.readFile(file(MODEL_FILE), 'utf8'),
+          fs.readFile(file(WEIGHTS_FILE)),
+          fs.readFile(file(METADATA_FILE), 'utf8')
+        ]);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+
+      const { modelTopology, weightsManifest } = JSON.parse(modelJson) as tf.io.ModelJSON;
+      const weightData = weights.buffer.slice(weights.byteOffset, weights.byteOffset + weights.byteLength) as ArrayBuffer;
+      const model = await tf.loadLayersModel(tf.io.fromMemory({
+        modelTopology,
+        weightSpecs: weightsManifest.flatMap(group => group.weights),
+        weightData
+      }));
+
+      return { model, metadata: JSON.parse(metadataJson) as DemandModelMetadata };
+    },
+
+    async save(model, metadata) {
+      await fs.mkdir(directory, { recursive: true });
+      await model.save(tf.io.withSaveHandler(async artifacts => {
+        const modelJson: tf.io.ModelJSON = {
+          format: artifacts.format,
+          generatedBy: artifacts.generatedBy,
+          convertedBy: artifacts.convertedBy,
+          modelTopology: artifacts.modelTopology as tf.io.ModelJSON['modelTopology'],
+          weightsManifest: [{ paths: [`./${WEIGHTS_FILE}`], weights: artifacts.weightSpecs ?? [] }]
+        };
+        const weightData = artifacts.weightData ? tf.io.CompositeArrayBuffer.join(artifacts.weightData) : new ArrayBuffer(0);
+
+        await Promise.all([
+          fs.writeFile(file(MODEL_FILE), JSON.stringify(modelJson)),
+          fs.writeFile(file(WEIGHTS_FILE), Buffer.from(weightData)),
+          fs.writeFile(file(METADATA_FILE), JSON.stringify(metadata, null, 2))
+        ]);
+
+        return { modelArtifactsInfo: tf.io.getModelArtifactsInfoForJSON(artifacts) };
+      }));
+    }
+  };
+}
@@ -0,0 +1,88 @@
+// Days of recent sales that the simulator's current price, competition price and units come from
+export const PRICING_BASELINE_DAYS = 28;
+// Products with fewer days of sales than this get no elasticity estimate
+export const MIN_ELASTICITY_DAYS = 20;
+// Prices must move at least this much, as a standard deviation of log price (about 1%), for their effect to be measurable
+export const MIN_LOG_PRICE_SPREAD = 0.01;
+
+// Where a product stands today: the point a what-if price is compared with
+export interface PricePoint {
+  price: number;
+  competitionPrice: number;
+  dailyUnits: number;
+}
+
+export interface ElasticityEstimate {
+  // % change in units sold for a 1% change in our price; negative when higher prices sell less
+  elasticity: number;
+  // % change in units sold for a 1% change in the competition's price, when it moved enough to measure
+  crossElasticity: number | null;
+}
+
+// One product's row of the pricing analysis
+export interface ProductPricing {
+  product: string;
+  // Averages over the last PRICING_BASELINE_DAYS days with sales
+  current_price: number;
+  competition_price: number;
+  // Our price as a percentage of the competition's, or null without competition prices
+  price_index: number | null;
+  daily_units: number;
+  daily_revenue: number;
+  // The range of daily average prices the estimate was fitted on
+  min_price: number;
+  max_price: number;
+  elasticity: number | null;
+  // 95% range of the elasticity
+  elasticity_low: number | null;
+  elasticity_high: number | null;
+  cross_elasticity: number | null;
+  r2: number | null;
+  observations: number;
+  // The elasticity is clearly negative, so it is safe to price from
+  reliable: boolean;
+  // Why there is no estimate, or why it should not be relied on
+  note: string | null;
+}
+
+export interface PriceSimulation {
+  dailyUnits: number;
+  dailyRevenue: number;
+  unitsChange: number;
+  revenueChange: number;
+}
+
+// Projects daily units and revenue at a proposed price with the constant-elasticity demand curve the
+// log-log regression fits: units scale with (new price / current price) ^ elasticity
+export function simulatePrice(
+  current: PricePoint,
+  { elasticity, crossElasticity }: ElasticityEstimate,
+  price: number,
+  competitionPrice = current.competitionPrice
+): PriceSimulation {
+  const ownEffect = Math.pow(price / current.price, elasticity);
+  const competitionEffect = crossElasticity !== null && current.competitionPrice > 0 && competitionPrice > 0
+    ? Math.pow(competitionPrice / current.competitionPrice, crossElasticity)
+    : 1;
+
+  const dailyUnits = current.dailyUnits * ownEffect * competitionEffect;
+  const currentRevenue = current.dailyUnits * current.price;
+  const dailyRevenue = dailyUnits * price;
+
+  return {
+    dailyUnits,
+    dailyRevenue,
+    unitsChange: current.dailyUnits > 0 ? dailyUnits / current.dailyUnits - 1 : 0,
+    revenueChange: currentRevenue > 0 ? dailyRevenue / currentRevenue - 1 : 0
+  };
+}
+
+export function describeElasticity(elasticity: number) {
+  if (elasticity >= 0) {
+    return 'Sales did not fall when the price rose, so something else is driving demand; treat price changes with care.';
+  }
+  if (elasticity < -1) {
+    return 'Price sensitive: units move by more than the price does, so small price cuts raise revenue.';
+  }
+  return 'Not very price sensitive: units move by less than the price does, so small price rises raise revenue.';
+}
@@ -0,0 +1,104 @@
+import _ from 'lodash';
+
+// A promotion day is compared with the same store and weekday this many weeks either side of it
+export const BASELINE_WEEKS = 6;
+// Promotion days with fewer matched days than this are left out of the lift
+export const MIN_BASELINE_DAYS = 2;
+// Days after a promotion ends that are checked for a dip, and kept out of baselines
+export const POST_PROMO_DAYS = 7;
+// Most recent promotion events returned
+export const MAX_PROMOTION_EVENTS = 50;
+
+// One store-product day; missing days are unobserved rather than zero sales
+export interface PromotionDay {
+  units: number;
+  revenue: number;
+  promotion: boolean;
+}
+
+// Incremental effects are actual minus baseline, so a dip or cannibalisation is negative
+export interface PromotionEffect {
+  promo_days: number;
+  units: number;
+  baseline_units: number;
+  incremental_units: number;
+  incremental_revenue: number;
+  // Actual sales over baseline on promotion days; null without a baseline
+  lift: number | null;
+  // Same-category products in the same store during the promotion
+  category_units_change: number;
+  category_revenue_change: number;
+  // The days after the promotion
+  post_promo_units_change: number;
+  post_promo_revenue_change: number;
+  // Incremental units and revenue after cannibalisation and the post-promotion dip
+  net_incremental_units: number;
+  net_incremental_revenue: number;
+}
+
+export interface PromotionEvent extends PromotionEffect {
+  product: string;
+  category: string;
+  store: string;
+  start: string;
+  end: string;
+}
+
+export interface ProductPromotions extends PromotionEffect {
+  product: string;
+  category: string;
+  events: number;
+}
+
+export interface PromotionAnalysis {
+  summary: PromotionEffect & { events: number };
+  products: ProductPromotions[];
+  events: PromotionEvent[];
+}
+
+// Runs of consecutive days, from sorted day numbers
+export function consecutiveRuns(days: number[]): Array<{ start: number; end: number }> {
+  const runs: Array<{ start: number; end: number }> = [];
+  days.forEach(day => {
+    const last = runs[runs.length - 1];
+    if (last && day === last.end + 1) {
+      last.end = day;
+    } else {
+      runs.push({ start: day, end: day });
+    }
+  });
+  return runs;
+}
+
+// Mean units and revenue of the same weekday in the surrounding weeks, over days `isClean` accepts
+export function matchedBaseline(series: Map<number, PromotionDay>, day: number, isClean: (day: number) => boolean) {
+  const matched = _.range(1, BASELINE_WEEKS + 1)
+    .flatMap(week => [day - week * 7, day + week * 7])
+    .filter(candidate => series.has(candidate) && isClean(candidate))
+    .map(candidate => series.get(candidate) as PromotionDay);
+  if (matched.length < MIN_BASELINE_DAYS) return null;
+
+  return { units: _.meanBy(matched, 'units'), revenue: _.meanBy(matched, 'revenue') };
+}
+
+// Adds up event effects and recomputes the lift from the totals
+export function combineEffects(effects: PromotionEffect[]): PromotionEffect {
+  const total = (key: keyof PromotionEffect) => _.round(_.sumBy(effects, effect => effect[key] ?? 0), 2);
+  const units = total('units');
+  const baselineUnits = total('baseline_units');
+
+  return {
+    promo_days: total('promo_days'),
+    units,
+    baseline_units: baselineUnits,
+    incremental_units: total('incremental_units'),
+    incremental_revenue: total('incremental_revenue'),
+    lift: baselineUnits > 0 ? _.round(units / baselineUnits - 1, 3) : null,
+    category_units_change: total('category_units_change'),
+    category_revenue_change: total('category_revenue_change'),
+    post_promo_units_change: total('post_promo_units_change'),
+    post_promo_revenue_change: total('post_promo_revenue_change'),
+    net_incremental_units: total('net_incremental_units'),
+    net_incremental_revenue: total('net_incremental_revenue')
+  };
+}
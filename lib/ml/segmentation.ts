@@ -0,0 +1,118 @@
+import _ from 'lodash';
+
+// How many customer segments k-means looks for, set per user
+export interface SegmentationSettings {
+  // A fixed number of segments, or null to pick the best by silhouette
+  k: number | null;
+}
+
+export const DEFAULT_SEGMENTATION_SETTINGS: SegmentationSettings = { k: null };
+
+export const MIN_SEGMENTS = 2;
+export const MAX_SEGMENTS = 8;
+
+// Fixed so the same data always gives the same segments
+export const SEGMENTATION_SEED = 42;
+
+export type ValueTier = 'High-Value' | 'Mid-Value' | 'Low-Value';
+
+export function sanitiseSegmentationSettings(value: unknown): SegmentationSettings {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<SegmentationSettings>;
+  const k = Math.floor(Number(input.k));
+
+  return {
+    k: input.k !== null && k >= MIN_SEGMENTS && k <= MAX_SEGMENTS ? k : DEFAULT_SEGMENTATION_SETTINGS.k
+  };
+}
+
+// 1 to 5 by rank, so each score holds about a fifth of the values; equal values share a score.
+// 'desc' gives the lowest values 5, e.g. days since the last purchase.
+export function quintileScores(values: number[], direction: 'asc' | 'desc'): number[] {
+  if (values.length === 0) return [];
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const firstIndex = new Map<number, number>();
+  const lastIndex = new Map<number, number>();
+  sorted.forEach((value, i) => {
+    if (!firstIndex.has(value)) firstIndex.set(value, i);
+    lastIndex.set(value, i);
+  });
+
+  return values.map(value => {
+    // Mid-rank of the ties, as a fraction of the way through the sorted values
+    const rank = ((firstIndex.get(value) as number) + (lastIndex.get(value) as number)) / 2;
+    const position = values.length > 1 ? rank / (values.length - 1) : 0.5;
+    const score = Math.min(5, Math.floor(position * 5) + 1);
+    return direction === 'asc' ? score : 6 - score;
+  });
+}
+
+// Mulberry32: small, fast and good enough to seed clustering
+export function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const squaredDistance = (a: number[], b: number[]) => _.sum(a.map((value, i) => Math.pow(value - b[i], 2)));
+
+// k-means++: each further centroid is drawn with probability proportional to its squared distance from the nearest one
+export function kMeansPlusPlus(points: number[][], k: number, random: () => number): number[][] {
+  const centroids = [points[Math.floor(random() * points.length)]];
+
+  while (centroids.length < k) {
+    const distances = points.map(point => Math.min(...centroids.map(centroid => squaredDistance(point, centroid))));
+    const total = _.sum(distances);
+    if (total === 0) {
+      centroids.push(points[centroids.length % points.length]);
+      continue;
+    }
+
+    let target = random() * total;
+    const index = distances.findIndex(distance => (target -= distance) <= 0);
+    centroids.push(points[index === -1 ? points.length - 1 : index]);
+  }
+
+  return centroids;
+}
+
+// Mean silhouette width: near 1 for tight, well-separated clusters, near 0 or below for overlapping ones
+export function silhouetteScore(points: number[][], assignments: number[]): number {
+  const clusters = _.uniq(assignments);
+  if (clusters.length < 2) return 0;
+
+  const widths = points.map((point, i) => {
+    const meanDistanceTo = (cluster: number) => {
+      const members = points.filter((_point, j) => j !== i && assignments[j] === cluster);
+      return members.length > 0 ? _.mean(members.map(member => Math.sqrt(squaredDistance(point, member)))) : 0;
+    };
+
+    const ownSize = assignments.filter(cluster => cluster === assignments[i]).length;
+    // A point alone in its cluster scores 0 by convention
+    if (ownSize <= 1) return 0;
+
+    const a = meanDistanceTo(assignments[i]);
+    const b = Math.min(...clusters.filter(cluster => cluster !== assignments[i]).map(meanDistanceTo));
+    return Math.max(a, b) > 0 ? (b - a) / Math.max(a, b) : 0;
+  });
+
+  return _.mean(widths);
+}
+
+export function valueTier(score: number): ValueTier {
+  return score >= 4 ? 'High-Value' : score >= 3 ? 'Mid-Value' : 'Low-Value';
+}
+
+// Conventional RFM names from a segment's average recency, frequency and monetary scores
+export function rfmSegmentName(recency: number, frequency: number, monetary: number) {
+  if (recency >= 4 && frequency >= 4 && monetary >= 4) return 'Champions';
+  if (recency >= 3 && frequency >= 3) return 'Loyal Customers';
+  if (recency >= 4) return 'New or Promising';
+  if (frequency >= 3 || monetary >= 3) return 'At Risk';
+  return 'Hibernating';
+}
@@ -0,0 +1,75 @@
+import _ from 'lodash';
+
+// A stock-out day is compared with the same store, product and weekday this many weeks either side of it
+export const COMPARABLE_WEEKS = 4;
+// Stock-out days with fewer comparable days than this get no lost-sales estimate
+export const MIN_COMPARABLE_DAYS = 2;
+// Most recent stock-out days returned
+export const MAX_STOCK_OUT_EVENTS = 100;
+
+// A store-product day ran out when any of its lines shows no stock left, so its sales were capped by supply
+export const isStockOut = (lines: Array<{ Stock_Level: number }>) =>
+  lines.some(line => (Number(line.Stock_Level) || 0) <= 0);
+
+// One store-product day; days without a line are unobserved
+export interface StockDay {
+  units: number;
+  revenue: number;
+  price: number;
+  promotion: boolean;
+  stockOut: boolean;
+}
+
+export interface StockOutDay {
+  store: string;
+  product: string;
+  category: string;
+  date: string;
+  units_sold: number;
+  // Mean units of the comparable days; null when there were too few of them to estimate
+  expected_units: number | null;
+  lost_units: number;
+  lost_revenue: number;
+}
+
+export interface ProductStockOuts {
+  product: string;
+  category: string;
+  stock_out_days: number;
+  // Share of the product's observed store days that ran out
+  stock_out_rate: number;
+  lost_units: number;
+  lost_revenue: number;
+}
+
+export interface StockOutAnalysis {
+  summary: {
+    stock_out_days: number;
+    // Stock-out days without enough comparable days to estimate, left out of the totals
+    unestimated_days: number;
+    lost_units: number;
+    lost_revenue: number;
+    // Lost revenue over actual revenue plus lost revenue
+    lost_revenue_share: number;
+  };
+  products: ProductStockOuts[];
+  events: StockOutDay[];
+}
+
+// Units and price the shelf would have seen with stock on it: the mean of the same weekday in the surrounding
+// weeks that did not run out and had the same promotion state
+export function unconstrainedDemand(series: Map<number, StockDay>, day: number) {
+  const current = series.get(day);
+  const comparable = _.range(1, COMPARABLE_WEEKS + 1)
+    .flatMap(week => [day - week * 7, day + week * 7])
+    .map(candidate => series.get(candidate))
+    .filter((candidate): candidate is StockDay =>
+      candidate !== undefined && !candidate.stockOut && candidate.promotion === current?.promotion
+    );
+  if (comparable.length < MIN_COMPARABLE_DAYS) return null;
+
+  return {
+    units: _.meanBy(comparable, 'units'),
+    price: _.meanBy(comparable, 'price')
+  };
+}
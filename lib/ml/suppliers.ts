@@ -0,0 +1,115 @@
+import _ from 'lodash';
+
+// How much each part of a supplier's score counts: keeping shelves stocked, short lead times, steady lead times
+export const SUPPLIER_SCORE_WEIGHTS = {
+  inStock: 0.4,
+  speed: 0.3,
+  consistency: 0.3
+};
+
+// Single-source products with at least this share of revenue matter enough to be high risk
+export const KEY_PRODUCT_REVENUE_SHARE = 0.05;
+// Suppliers whose products are in stock less often than this, or whose lead times vary more than this
+// coefficient of variation, are unreliable
+export const MIN_RELIABLE_IN_STOCK_RATE = 0.95;
+export const MAX_RELIABLE_LEAD_TIME_CV = 0.3;
+// An alternative must be at least this many days faster to be worth suggesting
+export const MIN_LEAD_TIME_SAVING_DAYS = 1;
+
+export type SupplyRisk = 'high' | 'medium' | 'low';
+
+export interface SupplierScore {
+  supplier: string;
+  // 1 is the best supplier
+  rank: number;
+  // 0-100, from the weighted in-stock, speed and consistency parts
+  score: number;
+  products: string[];
+  categories: string[];
+  stores: number;
+  revenue: number;
+  // Share of all revenue from the products this supplier delivers
+  revenue_share: number;
+  lead_time: number;
+  lead_time_spread: number;
+  // Spread over mean; 0 is perfectly steady
+  lead_time_cv: number;
+  // Fill-rate proxy: the share of store-product days its products were in stock
+  in_stock_rate: number;
+  stock_out_days: number;
+  observed_days: number;
+  single_source_products: number;
+}
+
+export interface SingleSourceProduct {
+  product: string;
+  category: string;
+  supplier: string;
+  revenue_share: number;
+  in_stock_rate: number;
+  lead_time: number;
+  risk: SupplyRisk;
+  // Other suppliers that already deliver this product's category
+  alternatives: string[];
+}
+
+export interface SupplierAnalysis {
+  suppliers: SupplierScore[];
+  single_source: SingleSourceProduct[];
+}
+
+// A supplier that could take over a slow supplier's product
+export interface SupplierAlternative {
+  supplier: string;
+  lead_time: number;
+  // Whether it already delivers this product, rather than only others in its category
+  same_product: boolean;
+}
+
+// What the scorecard needs to know about one supplier before scoring
+export type SupplierStats = Omit<SupplierScore, 'rank' | 'score'>;
+
+// Scores suppliers against each other and ranks them, best first. Speed is relative to the fastest supplier, so
+// a score only means something within one set of suppliers.
+export function rankSuppliers(stats: SupplierStats[]): SupplierScore[] {
+  const fastest = _.min(stats.map(item => item.lead_time).filter(days => days > 0)) ?? 0;
+
+  const scored = stats.map(item => {
+    const speed = item.lead_time > 0 ? fastest / item.lead_time : 1;
+    const consistency = 1 / (1 + item.lead_time_cv);
+    const score = 100 * (
+      SUPPLIER_SCORE_WEIGHTS.inStock * item.in_stock_rate +
+      SUPPLIER_SCORE_WEIGHTS.speed * speed +
+      SUPPLIER_SCORE_WEIGHTS.consistency * consistency
+    );
+    return { ...item, score: _.round(score, 1) };
+  });
+
+  return _.orderBy(scored, ['score', 'revenue'], ['desc', 'desc']).map((item, index) => ({ ...item, rank: index + 1 }));
+}
+
+// High risk when an important product depends on an unreliable supplier, medium for either alone
+export function singleSourceRisk(revenueShare: number, supplier: Pick<SupplierScore, 'in_stock_rate' | 'lead_time_cv'>): SupplyRisk {
+  const important = revenueShare >= KEY_PRODUCT_REVENUE_SHARE;
+  const unreliable = supplier.in_stock_rate < MIN_RELIABLE_IN_STOCK_RATE || supplier.lead_time_cv > MAX_RELIABLE_LEAD_TIME_CV;
+  if (important && unreliable) return 'high';
+  return important || unreliable ? 'medium' : 'low';
+}
+
+// Suppliers that deliver the product, or failing that its category, meaningfully faster than `leadTime`;
+// ones that already carry the product come first, then the fastest
+export function fasterSuppliers(
+  suppliers: SupplierScore[],
+  product: string,
+  category: string,
+  currentSupplier: string,
+  leadTime: number
+): SupplierAlternative[] {
+  const candidates = suppliers
+    .filter(item => item.supplier !== currentSupplier && item.lead_time > 0)
+    .filter(item => item.lead_time <= leadTime - MIN_LEAD_TIME_SAVING_DAYS)
+    .filter(item => item.products.includes(product) || item.categories.includes(category))
+    .map(item => ({ supplier: item.supplier, lead_time: item.lead_time, same_product: item.products.includes(product) }));
+
+  return _.orderBy(candidates, ['same_product', 'lead_time'], ['desc', 'asc']);
+}
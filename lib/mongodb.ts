@@ -0,0 +1,7 @@
+import { MongoClient } from "mongodb"
+
+export const getDbClient = async () => {
+  const uri = process.env.MONGODB_URI as string
+  if (!uri) throw new Error("MONGODB_URI not set")
+  return await MongoClient.connect(uri)
+}
@@ -9,6 +9,14 @@ declare module 'ml-regression' {
     constructor(x: number[], y: number[], degree: number);
     predict(x: number): number;
   }
+
+  // Ordinary least squares; weights and stdErrors list the inputs in order, then the intercept
+  export class MultivariateLinearRegression {
+    constructor(x: number[][], y: number[][], options?: { intercept?: boolean; statistics?: boolean });
+    weights: number[][];
+    stdErrors: number[];
+    predict(x: number[]): number[];
+  }
 }
 
 // For TensorFlow.js if not properly typed
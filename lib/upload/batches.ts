@@ -0,0 +1,352 @@
+import { AnyBulkWriteOperation, Db, ObjectId } from "mongodb"
+import { validateRows, type RejectedRow } from "@/lib/upload/validation"
+import { applyColumnMapping, type ColumnMapping, type DatasetField } from "@/lib/upload/column-mapping"
+import { DATASETS, datasetCollection, type DatasetType } from "@/lib/upload/datasets"
+import { isEmptyCell, profileBatch, type DataProfile } from "@/lib/upload/profile"
+import {
+  datesBetween,
+  findExistingRows,
+  isSameRow,
+  naturalKeyOf,
+  toIsoDate,
+  type DatasetRow,
+  type DuplicateCounts,
+  type ImportMode,
+} from "@/lib/upload/duplicates"
+
+// Rows are validated and written to Mongo this many at a time
+export const INSERT_BATCH_SIZE = 1000
+
+// Keep the batch document small for files where most rows are bad
+export const MAX_REPORTED_REJECTIONS = 200
+
+// A batch still marked "processing" after this long lost its request and can be resumed
+const STALE_PROCESSING_MS = 2 * 60 * 1000
+
+export type UploadBatchStatus = "pending" | "processing" | "completed" | "failed" | "rolled_back"
+
+export interface UploadBatch {
+  _id: ObjectId
+  userId: string
+  uploadedBy: string | null
+  fileName: string
+  fileSize: number
+  dataType: DatasetType
+  sheet: string | null
+  mapping: ColumnMapping
+  mode: ImportMode
+  naturalKey: DatasetField[]
+  status: UploadBatchStatus
+  // SHA-256 of the file contents, set once the whole file has been read
+  checksum: string | null
+  bytesRead: number
+  totalRows: number | null
+  processedRows: number
+  insertedCount: number
+  rejectedCount: number
+  rejected: RejectedRow[]
+  // How the valid rows compared with data already stored under the same natural key
+  newCount: number
+  changedCount: number
+  identicalCount: number
+  // Rows from other uploads deleted by "replace_range"
+  replacedCount: number
+  // ISO dates covered by the file; left unset until the first valid row so $min/$max work
+  dateFrom?: string
+  dateTo?: string
+  // Empty cells per column, accumulated chunk by chunk so a resumed import keeps earlier counts
+  nullCounts: Partial<Record<DatasetField, number>>
+  // Data quality summary, set when the import completes
+  profile: DataProfile | null
+  error: string | null
+  createdAt: Date
+  updatedAt: Date
+  rolledBackAt: Date | null
+}
+
+export const uploadBatches = (db: Db) => db.collection<UploadBatch>("upload_batches")
+
+// A stored row as it was before an "upsert" import changed it, so rolling the import back can restore it
+export interface UploadRowVersion {
+  _id: ObjectId
+  userId: string
+  dataType: DatasetType
+  batchId: ObjectId
+  rowId: ObjectId
+  before: Record<string, unknown>
+  createdAt: Date
+}
+
+export const uploadRowVersions = (db: Db) => db.collection<UploadRowVersion>("upload_row_versions")
+
+// Mark a batch as processing, unless another request is already importing it
+export async function claimBatch(db: Db, batchId: ObjectId, userId: string) {
+  const now = new Date()
+  return await uploadBatches(db).findOneAndUpdate(
+    {
+      _id: batchId,
+      userId,
+      $or: [
+        { status: { $in: ["pending", "failed"] } },
+        { status: "processing", updatedAt: { $lt: new Date(now.getTime() - STALE_PROCESSING_MS) } }
+      ]
+    },
+    { $set: { status: "processing", error: null, updatedAt: now } },
+    { returnDocument: "after" }
+  )
+}
+
+export interface ImportOptions {
+  getBytesRead: () => number
+  getChecksum: () => string
+  // Classify every row against the stored data without writing anything
+  dryRun?: boolean
+}
+
+export interface ImportPreview extends DuplicateCounts {
+  totalRows: number
+  rejectedCount: number
+  dateFrom: string | null
+  dateTo: string | null
+  // Stored rows that "replace_range" would delete
+  replaceableCount: number
+}
+
+export async function importRows(
+  db: Db,
+  batch: UploadBatch,
+  rows: AsyncIterable<Record<string, unknown>> | Iterable<Record<string, unknown>>,
+  { getBytesRead, getChecksum, dryRun = false }: ImportOptions
+) {
+  const collection = db.collection(datasetCollection(batch.dataType))
+  const batches = uploadBatches(db)
+  const { fields, schema, dateField } = DATASETS[batch.dataType]
+  const resumeFrom = dryRun ? 0 : batch.processedRows
+
+  // A crash between bulkWrite and the progress update leaves rows we have not counted yet
+  if (!dryRun) {
+    await collection.deleteMany({ batchId: batch._id, rowNumber: { $gt: batch.processedRows } })
+  }
+
+  let rowNumber = 0
+  let pending: Record<string, unknown>[] = []
+  let pendingStart = resumeFrom + 1
+  const preview: DatasetRow[] = []
+  const counts: DuplicateCounts & { rejectedCount: number } = {
+    newCount: 0,
+    changedCount: 0,
+    identicalCount: 0,
+    rejectedCount: 0
+  }
+  let dateFrom = batch.dateFrom ?? null
+  let dateTo = batch.dateTo ?? null
+
+  // A dry run writes nothing, so repeats across chunks are tracked here instead of in Mongo
+  const seenInFile = new Map<string, DatasetRow & { _id: ObjectId }>()
+
+  const flush = async () => {
+    if (pending.length === 0) return
+
+    // +1 turns the data row number into the spreadsheet line (after the header)
+    const mapped = applyColumnMapping(pending, batch.mapping, fields)
+    const { valid, rejected } = validateRows(schema, mapped, pendingStart + 1)
+    const now = new Date()
+
+    const existing = valid.length > 0
+      ? await findExistingRows(collection, batch.userId, valid.map(({ data }) => data), batch.naturalKey)
+      : new Map()
+    const chunk: DuplicateCounts = { newCount: 0, changedCount: 0, identicalCount: 0 }
+    const operations: AnyBulkWriteOperation[] = []
+    const versions: AnyBulkWriteOperation<UploadRowVersion>[] = []
+    let chunkFrom: string | null = null
+    let chunkTo: string | null = null
+
+    for (const { row, data } of valid) {
+      const key = naturalKeyOf(data, batch.naturalKey)
+      const current = seenInFile.get(key) ?? existing.get(key)
+      if (dateField) {
+        const isoDate = toIsoDate(String(data[dateField]))
+        if (!chunkFrom || isoDate < chunkFrom) chunkFrom = isoDate
+        if (!chunkTo || isoDate > chunkTo) chunkTo = isoDate
+      }
+
+      if (!current) {
+        chunk.newCount++
+      } else if (isSameRow(current, data, fields)) {
+        chunk.identicalCount++
+      } else {
+        chunk.changedCount++
+      }
+
+      const update = current && batch.mode === "upsert" ? current : null
+      const _id = update ? update._id : new ObjectId()
+
+      // Later repeats of this key in the file compare against this row
+      const tracked = dryRun ? seenInFile : existing
+      tracked.set(key, { ...data, _id })
+
+      if (dryRun) continue
+
+      if (!update) {
+        operations.push({
+          insertOne: {
+            document: { ...data, _id, userId: batch.userId, batchId: batch._id, rowNumber: row - 1, createdAt: now }
+          }
+        })
+      } else if (!isSameRow(update, data, fields)) {
+        // Only the first change to a row in this batch keeps its version, so a repeat in the file or a resumed
+        // import does not overwrite what the row looked like before the upload
+        versions.push({
+          updateOne: {
+            filter: { batchId: batch._id, rowId: _id },
+            update: { $setOnInsert: { userId: batch.userId, dataType: batch.dataType, before: update, createdAt: now } },
+            upsert: true
+          }
+        })
+        // Keep the original batchId so rolling this upload back never deletes rows it did not add
+        operations.push({
+          updateOne: {
+            filter: { _id },
+            update: { $set: { ...data, lastBatchId: batch._id, updatedAt: now } }
+          }
+        })
+      }
+    }
+
+    // Versions are saved before the rows change, so a crash in between cannot lose one
+    if (versions.length > 0) {
+      await uploadRowVersions(db).bulkWrite(versions, { ordered: false })
+    }
+    if (operations.length > 0) {
+      await collection.bulkWrite(operations, { ordered: true })
+    }
+
+    preview.push(...valid.slice(0, 5 - preview.length).map(({ data }) => data))
+    counts.newCount += chunk.newCount
+    counts.changedCount += chunk.changedCount
+    counts.identicalCount += chunk.identicalCount
+    counts.rejectedCount += rejected.length
+    if (chunkFrom && (!dateFrom || chunkFrom < dateFrom)) dateFrom = chunkFrom
+    if (chunkTo && (!dateTo || chunkTo > dateTo)) dateTo = chunkTo
+
+    if (!dryRun) {
+      await batches.updateOne(
+        { _id: batch._id },
+        {
+          $set: { processedRows: pendingStart + pending.length - 1, bytesRead: getBytesRead(), updatedAt: now },
+          $inc: {
+            insertedCount: operations.filter(operation => "insertOne" in operation).length,
+            rejectedCount: rejected.length,
+            ...chunk,
+            ...Object.fromEntries(fields.map(field => [
+              `nullCounts.${field}`,
+              mapped.filter(row => isEmptyCell(row[field])).length
+            ]))
+          },
+          $push: { rejected: { $each: rejected, $slice: MAX_REPORTED_REJECTIONS } },
+          ...(dateFrom && dateTo ? { $min: { dateFrom }, $max: { dateTo } } : {})
+        }
+      )
+    }
+
+    pendingStart += pending.length
+    pending = []
+  }
+
+  for await (const row of rows) {
+    rowNumber++
+
+    // Rows up to processedRows were handled by an earlier attempt
+    if (rowNumber <= resumeFrom) continue
+
+    pending.push(row)
+    if (pending.length >= INSERT_BATCH_SIZE) {
+      await flush()
+    }
+  }
+
+  await flush()
+
+  // Everything the file covers, from other uploads or older data, that this upload supersedes
+  const replaceFilter = dateFrom && dateTo
+    ? { userId: batch.userId, [dateField as string]: { $in: datesBetween(dateFrom, dateTo) }, batchId: { $ne: batch._id } }
+    : null
+
+  if (dryRun) {
+    const result: ImportPreview = {
+      ...counts,
+      totalRows: rowNumber,
+      dateFrom,
+      dateTo,
+      replaceableCount: replaceFilter ? await collection.countDocuments(replaceFilter) : 0
+    }
+    return { preview: result }
+  }
+
+  let replacedCount = 0
+  if (batch.mode === "replace_range" && replaceFilter) {
+    replacedCount = (await collection.deleteMany(replaceFilter)).deletedCount
+  }
+
+  const progress = await batches.findOne(
+    { _id: batch._id },
+    { projection: { nullCounts: 1, newCount: 1, changedCount: 1, identicalCount: 1, rejectedCount: 1 } }
+  )
+
+  // Counts span every attempt at this batch, not only the rows read after a resume
+  const validCount = progress ? progress.newCount + progress.changedCount + progress.identicalCount : 0
+  const failure = validCount === 0
+    ? rowNumber > 0
+      ? `No rows passed validation: all ${progress?.rejectedCount ?? 0} rows were rejected`
+      : "No valid data found in file"
+    : null
+  const profile = failure ? null : await profileBatch(db, batch.userId, batch.dataType, batch._id, progress?.nullCounts ?? {})
+
+  const completed = await batches.findOneAndUpdate(
+    { _id: batch._id },
+    {
+      $set: {
+        status: failure ? "failed" : "completed",
+        error: failure,
+        profile,
+        totalRows: rowNumber,
+        bytesRead: getBytesRead(),
+        checksum: getChecksum(),
+        replacedCount,
+        updatedAt: new Date()
+      }
+    },
+    { returnDocument: "after" }
+  )
+
+  return { batch: completed, preview }
+}
+
+// Remove every row a batch inserted and put back the rows it updated, keeping the batch itself as history.
+// Rows a later upload has updated since keep that upload's values.
+export async function rollbackBatch(db: Db, batch: UploadBatch) {
+  const collection = db.collection(datasetCollection(batch.dataType))
+  // Inserted rows go first: one the batch inserted and then updated must not be restored as a version of itself
+  const result = await collection.deleteMany({ userId: batch.userId, batchId: batch._id })
+
+  const versions = await uploadRowVersions(db).find({ batchId: batch._id, userId: batch.userId }).toArray()
+  const restored = versions.length > 0
+    ? await collection.bulkWrite(
+      versions.map(version => ({
+        replaceOne: {
+          filter: { _id: version.rowId, userId: batch.userId, lastBatchId: batch._id },
+          replacement: version.before
+        }
+      })),
+      { ordered: false }
+    )
+    : null
+  await uploadRowVersions(db).deleteMany({ batchId: batch._id })
+
+  await uploadBatches(db).updateOne(
+    { _id: batch._id },
+    { $set: { status: "rolled_back", rolledBackAt: new Date(), updatedAt: new Date() } }
+  )
+
+  return { deletedCount: result.deletedCount, restoredCount: restored?.modifiedCount ?? 0 }
+}
@@ -0,0 +1,172 @@
+import type { BusinessData, CustomerRecord, InventorySnapshot } from "@/lib/ml/data-processor"
+
+export type BusinessDataField = keyof BusinessData
+export type InventoryField = keyof InventorySnapshot
+export type CustomerField = keyof CustomerRecord
+export type DatasetField = BusinessDataField | InventoryField | CustomerField
+
+// Maps each field of a dataset to the source column it is read from
+export type ColumnMapping = Partial<Record<DatasetField, string | null>>
+
+export const BUSINESS_DATA_FIELDS: BusinessDataField[] = [
+  "Date",
+  "Store",
+  "Product",
+  "Category",
+  "Units_Sold",
+  "Price_per_Unit_BWP",
+  "Revenue_BWP",
+  "Competition_Price_BWP",
+  "Promotion_Active",
+  "Customer_Retention_Score",
+  "Stock_Level",
+  "Supplier",
+  "Lead_Time_Days",
+  "Customer_Demographic",
+  "Payment_Method"
+]
+
+export const INVENTORY_FIELDS: InventoryField[] = [
+  "Date",
+  "Store",
+  "Product",
+  "Stock_Level",
+  "On_Order_Units",
+  "Unit_Cost_BWP",
+  "Supplier",
+  "Lead_Time_Days"
+]
+
+export const CUSTOMER_FIELDS: CustomerField[] = [
+  "Customer_ID",
+  "Customer_Demographic",
+  "Store",
+  "Join_Date",
+  "Last_Purchase_Date",
+  "Total_Transactions",
+  "Total_Spend_BWP",
+  "Customer_Retention_Score"
+]
+
+// Common names POS and ERP exports use for each field
+const FIELD_ALIASES: Record<DatasetField, string[]> = {
+  Date: ["date", "day", "transaction date", "sale date", "sales date", "txn date"],
+  Store: ["store", "branch", "shop", "outlet", "location", "site", "store name", "branch name"],
+  Product: ["product", "item", "product name", "item name", "item description", "description", "sku"],
+  Category: ["category", "product category", "department", "dept", "group", "product group"],
+  Units_Sold: ["units sold", "qty", "quantity", "units", "qty sold", "quantity sold", "volume"],
+  Price_per_Unit_BWP: ["price", "unit price", "price per unit", "selling price", "unit price bwp", "price bwp"],
+  Revenue_BWP: ["revenue", "sales", "total", "amount", "line total", "net sales", "sales amount", "revenue bwp"],
+  Competition_Price_BWP: ["competition price", "competitor price", "comp price", "competitor price bwp"],
+  Promotion_Active: ["promotion", "promo", "on promotion", "promo flag", "promotion flag", "on promo"],
+  Customer_Retention_Score: ["retention score", "retention", "loyalty score", "customer retention"],
+  Stock_Level: ["stock", "stock level", "stock on hand", "soh", "on hand", "inventory", "closing stock"],
+  Supplier: ["supplier", "vendor", "supplier name", "vendor name"],
+  Lead_Time_Days: ["lead time", "lead time days", "lead days", "delivery days"],
+  Customer_Demographic: ["demographic", "customer demographic", "customer type", "customer segment", "segment"],
+  Payment_Method: ["payment method", "payment", "payment type", "tender", "tender type"],
+  On_Order_Units: ["on order", "on order units", "on order qty", "ordered qty", "open po qty", "incoming"],
+  Unit_Cost_BWP: ["unit cost", "cost", "cost price", "cost per unit", "unit cost bwp", "cost bwp"],
+  Customer_ID: ["customer id", "customer", "customer number", "customer no", "account", "loyalty id", "member id"],
+  Join_Date: ["join date", "joined", "signup date", "member since", "registration date"],
+  Last_Purchase_Date: ["last purchase", "last purchase date", "last visit", "last order date"],
+  Total_Transactions: ["transactions", "visits", "orders", "purchase count", "number of purchases"],
+  Total_Spend_BWP: ["total spend", "spend", "lifetime value", "total spent", "total spend bwp"]
+}
+
+// Below this similarity a header is left unmapped for the user to pick
+const MIN_MATCH_SCORE = 0.6
+
+const normalise = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+// Sørensen-Dice coefficient over character bigrams
+function similarity(a: string, b: string) {
+  if (a === b) return 1
+  if (a.length < 2 || b.length < 2) return 0
+
+  const bigrams = (value: string) => {
+    const counts = new Map<string, number>()
+    for (let i = 0; i < value.length - 1; i++) {
+      const bigram = value.slice(i, i + 2)
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1)
+    }
+    return counts
+  }
+
+  const aBigrams = bigrams(a)
+  const bBigrams = bigrams(b)
+  let overlap = 0
+  aBigrams.forEach((count, bigram) => {
+    overlap += Math.min(count, bBigrams.get(bigram) ?? 0)
+  })
+
+  return (2 * overlap) / (a.length - 1 + b.length - 1)
+}
+
+// Identifies files exported from the same source, regardless of column order
+export function headerSignature(headers: string[]) {
+  return headers.map(normalise).filter(Boolean).sort().join("|")
+}
+
+export function isCompleteMapping(mapping: ColumnMapping, fields: DatasetField[] = BUSINESS_DATA_FIELDS) {
+  return fields.every(field => Boolean(mapping[field]))
+}
+
+export function suggestColumnMapping(headers: string[], fields: DatasetField[] = BUSINESS_DATA_FIELDS) {
+  const candidates: { field: DatasetField; header: string; score: number }[] = []
+
+  fields.forEach(field => {
+    const names = [field, ...FIELD_ALIASES[field]].map(normalise)
+    headers.forEach(header => {
+      const score = Math.max(...names.map(name => similarity(name, normalise(header))))
+      if (score >= MIN_MATCH_SCORE) {
+        candidates.push({ field, header, score })
+      }
+    })
+  })
+
+  // Greedily take the strongest matches so each header is used at most once
+  const mapping = Object.fromEntries(fields.map(field => [field, null])) as ColumnMapping
+  const scores: Partial<Record<DatasetField, number>> = {}
+  const usedHeaders = new Set<string>()
+
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ field, header, score }) => {
+      if (mapping[field] || usedHeaders.has(header)) return
+      mapping[field] = header
+      scores[field] = score
+      usedHeaders.add(header)
+    })
+
+  return { mapping, scores }
+}
+
+// Only keep mappings that point at columns the file actually has
+export function sanitiseMapping(
+  mapping: Partial<Record<string, unknown>>,
+  headers: string[],
+  fields: DatasetField[] = BUSINESS_DATA_FIELDS
+) {
+  return Object.fromEntries(
+    fields.map(field => {
+      const header = mapping[field]
+      return [field, typeof header === "string" && headers.includes(header) ? header : null]
+    })
+  ) as ColumnMapping
+}
+
+export function applyColumnMapping(
+  rows: Record<string, unknown>[],
+  mapping: ColumnMapping,
+  fields: DatasetField[] = BUSINESS_DATA_FIELDS
+) {
+  return rows.map(row =>
+    Object.fromEntries(
+      fields.map(field => {
+        const header = mapping[field]
+        return [field, header ? row[header] ?? null : null]
+      })
+    )
+  )
+}
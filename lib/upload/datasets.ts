@@ -0,0 +1,83 @@
+import { z } from "zod"
+import {
+  BUSINESS_DATA_FIELDS,
+  CUSTOMER_FIELDS,
+  INVENTORY_FIELDS,
+  type DatasetField,
+} from "@/lib/upload/column-mapping"
+import { businessDataSchema, customerRecordSchema, inventorySnapshotSchema } from "@/lib/upload/validation"
+
+// Every dataset a user can upload; each is stored in its own `${type}_data` collection
+export const DATASET_TYPES = ["sales", "inventory", "customers"] as const
+
+export type DatasetType = typeof DATASET_TYPES[number]
+
+interface DatasetDefinition {
+  label: string
+  description: string
+  fields: DatasetField[]
+  schema: z.ZodTypeAny
+  // Default fields that identify the same row across uploads
+  naturalKey: DatasetField[]
+  // Field used to find the period a file covers; null when rows are not dated
+  dateField: DatasetField | null
+  // Every dd/MM/yyyy field, which must be converted before it can be sorted or compared
+  dateFields: DatasetField[]
+  // Measures summarised in the upload's data profile; flags like Promotion_Active are left out
+  numericFields: DatasetField[]
+}
+
+export const DATASETS: Record<DatasetType, DatasetDefinition> = {
+  sales: {
+    label: "Sales",
+    description: "Daily sales lines per store and product",
+    fields: BUSINESS_DATA_FIELDS,
+    schema: businessDataSchema,
+    naturalKey: ["Date", "Store", "Product", "Customer_Demographic", "Payment_Method"],
+    dateField: "Date",
+    dateFields: ["Date"],
+    numericFields: [
+      "Units_Sold",
+      "Price_per_Unit_BWP",
+      "Revenue_BWP",
+      "Competition_Price_BWP",
+      "Customer_Retention_Score",
+      "Stock_Level",
+      "Lead_Time_Days",
+    ],
+  },
+  inventory: {
+    label: "Inventory snapshots",
+    description: "Stock counts per store and product on a given day",
+    fields: INVENTORY_FIELDS,
+    schema: inventorySnapshotSchema,
+    naturalKey: ["Date", "Store", "Product"],
+    dateField: "Date",
+    dateFields: ["Date"],
+    numericFields: ["Stock_Level", "On_Order_Units", "Unit_Cost_BWP", "Lead_Time_Days"],
+  },
+  customers: {
+    label: "Customer records",
+    description: "One row per loyalty or account customer",
+    fields: CUSTOMER_FIELDS,
+    schema: customerRecordSchema,
+    naturalKey: ["Customer_ID"],
+    dateField: null,
+    dateFields: ["Join_Date", "Last_Purchase_Date"],
+    numericFields: ["Total_Transactions", "Total_Spend_BWP", "Customer_Retention_Score"],
+  },
+}
+
+export function isDatasetType(value: unknown): value is DatasetType {
+  return DATASET_TYPES.includes(value as DatasetType)
+}
+
+// ?type= defaults to sales; anything else that is not a known dataset is null so routes can reject it
+export function parseDatasetType(value: string | null): DatasetType | null {
+  if (value === null || value === "") return "sales"
+  return isDatasetType(value) ? value : null
+}
+
+export function datasetCollection(type: DatasetType) {
+  return `${type}_data`
+}
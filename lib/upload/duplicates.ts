@@ -0,0 +1,71 @@
+import { Collection, Document, ObjectId } from "mongodb"
+import { DateTime } from "luxon"
+import type { DatasetField } from "@/lib/upload/column-mapping"
+
+// How an upload treats rows that already exist for the same natural key
+export type ImportMode = "append" | "upsert" | "replace_range"
+
+export const IMPORT_MODES: ImportMode[] = ["append", "upsert", "replace_range"]
+
+export interface DuplicateCounts {
+  newCount: number
+  changedCount: number
+  identicalCount: number
+}
+
+export type DatasetRow = Record<string, unknown>
+
+type StoredRow = DatasetRow & { _id: ObjectId }
+
+export function isImportMode(value: unknown): value is ImportMode {
+  return IMPORT_MODES.includes(value as ImportMode)
+}
+
+// Keeps the dataset's own fields, in dataset order
+export function sanitiseNaturalKey(value: unknown, fields: DatasetField[]): DatasetField[] | null {
+  if (!Array.isArray(value)) return null
+  const keyFields = fields.filter(field => value.includes(field))
+  return keyFields.length > 0 ? keyFields : null
+}
+
+export function naturalKeyOf(row: DatasetRow, keyFields: DatasetField[]) {
+  return JSON.stringify(keyFields.map(field => row[field]))
+}
+
+export function isSameRow(a: DatasetRow, b: DatasetRow, fields: DatasetField[]) {
+  return fields.every(field => a[field] === b[field])
+}
+
+// Existing rows sharing a natural key with any of the given rows, keyed by that natural key
+export async function findExistingRows(
+  collection: Collection<Document>,
+  userId: string,
+  rows: DatasetRow[],
+  keyFields: DatasetField[]
+) {
+  const filter: Document = { userId }
+  keyFields.forEach(field => {
+    filter[field] = { $in: Array.from(new Set(rows.map(row => row[field]))) }
+  })
+
+  const existing = await collection.find(filter).toArray() as unknown as StoredRow[]
+  return new Map(existing.map(row => [naturalKeyOf(row, keyFields), row]))
+}
+
+// Every dd/MM/yyyy date from one ISO date to another, inclusive
+export function datesBetween(fromIso: string, toIso: string) {
+  const dates: string[] = []
+  let day = DateTime.fromISO(fromIso)
+  const last = DateTime.fromISO(toIso)
+
+  while (day <= last) {
+    dates.push(day.toFormat("dd/MM/yyyy"))
+    day = day.plus({ days: 1 })
+  }
+
+  return dates
+}
+
+export function toIsoDate(date: string) {
+  return DateTime.fromFormat(date, "dd/MM/yyyy").toISODate() as string
+}
@@ -0,0 +1,85 @@
+import Papa from "papaparse"
+import { Readable, Transform } from "stream"
+import { isSpreadsheetFile, readWorkbook, sheetToRows } from "@/lib/upload/spreadsheet"
+
+// Enough rows to detect headers and show examples in the mapping step
+const PREVIEW_ROWS = 20
+
+export const CSV_PARSE_CONFIG = {
+  header: true,
+  skipEmptyLines: true,
+  dynamicTyping: true
+}
+
+export type ParsedPreview =
+  | { status: "parsed"; headers: string[]; rows: Record<string, unknown>[]; sheet?: string }
+  | { status: "sheet_selection_required"; sheets: string[] }
+  | { status: "error"; error: string; details?: unknown }
+
+// Parse the start of an uploaded CSV or Excel file into header-keyed rows
+export async function previewUploadedFile(file: File, requestedSheet: string | null): Promise<ParsedPreview> {
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    console.log("Parsing CSV preview");
+    const parsed = Papa.parse<Record<string, unknown>>(await file.text(), {
+      ...CSV_PARSE_CONFIG,
+      preview: PREVIEW_ROWS
+    })
+
+    if (parsed.errors.length > 0) {
+      console.error("CSV parsing errors:", parsed.errors);
+      return { status: "error", error: "Error parsing CSV", details: parsed.errors }
+    }
+
+    return { status: "parsed", headers: parsed.meta.fields ?? [], rows: parsed.data }
+  }
+
+  if (isSpreadsheetFile(file.name)) {
+    console.log("Parsing Excel workbook");
+    const workbook = readWorkbook(Buffer.from(await file.arrayBuffer()))
+    const sheetNames = workbook.SheetNames
+
+    if (sheetNames.length === 0) {
+      return { status: "error", error: "Workbook contains no sheets" }
+    }
+
+    // Let the user choose when the workbook has more than one sheet
+    if (!requestedSheet && sheetNames.length > 1) {
+      return { status: "sheet_selection_required", sheets: sheetNames }
+    }
+
+    const sheetName = requestedSheet || sheetNames[0]
+    if (!sheetNames.includes(sheetName)) {
+      return { status: "error", error: `Sheet "${sheetName}" not found`, details: { sheets: sheetNames } }
+    }
+
+    const rows = sheetToRows(workbook, sheetName)
+    return {
+      status: "parsed",
+      headers: rows.length > 0 ? Object.keys(rows[0]) : [],
+      rows: rows.slice(0, PREVIEW_ROWS),
+      sheet: sheetName
+    }
+  }
+
+  console.error("Unsupported file format");
+  return { status: "error", error: "Unsupported file format. Please upload CSV or Excel files." }
+}
+
+// Stream CSV rows one at a time, handing each raw chunk to onChunk for progress and checksums
+export async function* streamCsvRows(source: Readable, onChunk: (chunk: Buffer) => void) {
+  const tap = new Transform({
+    transform(chunk, _encoding, callback) {
+      onChunk(chunk)
+      callback(null, chunk)
+    }
+  })
+  const parser = Papa.parse(Papa.NODE_STREAM_INPUT, CSV_PARSE_CONFIG)
+
+  // pipe() does not forward errors, so a dropped connection would hang the parser
+  source.on("error", error => parser.destroy(error))
+  tap.on("error", error => parser.destroy(error))
+
+  for await (const row of source.pipe(tap).pipe(parser)) {
+    yield row as Record<string, unknown>
+  }
+}
@@ -0,0 +1,229 @@
+import { Db, ObjectId } from "mongodb"
+import { DateTime } from "luxon"
+import _ from "lodash"
+import type { DatasetField } from "@/lib/upload/column-mapping"
+import { DATASETS, datasetCollection, type DatasetType } from "@/lib/upload/datasets"
+import { toIsoDate, type DatasetRow } from "@/lib/upload/duplicates"
+
+// Text columns whose number of distinct values is reported, where the dataset has them
+const DISTINCT_FIELDS = ["Store", "Product", "Category"] as const
+
+// Values further than this many interquartile ranges outside the middle half count as outliers
+const OUTLIER_IQR_MULTIPLIER = 1.5
+
+// Keep the batch document small for files with many gaps or stock jumps
+const MAX_REPORTED_GAPS = 20
+const MAX_REPORTED_STOCK_RISES = 20
+
+export interface NumericSummary {
+  min: number
+  max: number
+  mean: number
+  outlierCount: number
+}
+
+export interface DateGap {
+  // ISO dates of the first and last missing day
+  from: string
+  to: string
+  days: number
+}
+
+export interface DateCoverage {
+  from: string
+  to: string
+  daysWithData: number
+  daysInRange: number
+  gapCount: number
+  gaps: DateGap[]
+}
+
+export interface StockRise {
+  // Spreadsheet line, or null for a row this upload updated rather than added
+  row: number | null
+  date: string
+  store: string
+  product: string
+  previous: number
+  current: number
+}
+
+export interface DataProfile {
+  rowCount: number
+  // Empty cells per column in the file, counted before validation so rejected rows are included
+  nullCounts: Partial<Record<DatasetField, number>>
+  distinctCounts: Partial<Record<typeof DISTINCT_FIELDS[number], number>>
+  // Null for datasets without a dateField
+  dateCoverage: DateCoverage | null
+  numeric: Partial<Record<DatasetField, NumericSummary>>
+  // Days where Stock_Level went up with nothing on order; null for datasets without Stock_Level
+  stockRises: { count: number; examples: StockRise[] } | null
+  generatedAt: Date
+}
+
+export const isEmptyCell = (value: unknown) =>
+  value === null || value === undefined || (typeof value === "string" && value.trim() === "")
+
+// Linear interpolation between the closest ranks; values must be sorted
+function quantile(sorted: number[], q: number) {
+  const position = (sorted.length - 1) * q
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+function summarise(values: number[]): NumericSummary | null {
+  if (values.length === 0) return null
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const q1 = quantile(sorted, 0.25)
+  const q3 = quantile(sorted, 0.75)
+  const iqr = q3 - q1
+
+  // A column where the middle half is one value (e.g. a fixed lead time) has no meaningful spread
+  const outlierCount = iqr > 0
+    ? sorted.filter(value =>
+      value < q1 - OUTLIER_IQR_MULTIPLIER * iqr || value > q3 + OUTLIER_IQR_MULTIPLIER * iqr
+    ).length
+    : 0
+
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: _.mean(sorted),
+    outlierCount
+  }
+}
+
+function dateCoverage(isoDates: string[]): DateCoverage | null {
+  const days = _.uniq(isoDates).sort()
+  if (days.length === 0) return null
+
+  const gaps: DateGap[] = []
+  for (let i = 1; i < days.length; i++) {
+    const previous = DateTime.fromISO(days[i - 1])
+    const missing = DateTime.fromISO(days[i]).diff(previous, "days").days - 1
+    if (missing > 0) {
+      gaps.push({
+        from: previous.plus({ days: 1 }).toISODate() as string,
+        to: previous.plus({ days: missing }).toISODate() as string,
+        days: missing
+      })
+    }
+  }
+
+  const from = days[0]
+  const to = days[days.length - 1]
+  return {
+    from,
+    to,
+    daysWithData: days.length,
+    daysInRange: DateTime.fromISO(to).diff(DateTime.fromISO(from), "days").days + 1,
+    gapCount: gaps.length,
+    gaps: _.orderBy(gaps, ["days", "from"], ["desc", "asc"]).slice(0, MAX_REPORTED_GAPS)
+  }
+}
+
+// Store|Product pairs with an order outstanding on each ISO date, from the user's inventory snapshots
+async function deliveryDays(db: Db, userId: string) {
+  const snapshots = await db.collection(datasetCollection("inventory"))
+    .find({ userId, On_Order_Units: { $gt: 0 } }, { projection: { Date: 1, Store: 1, Product: 1 } })
+    .toArray()
+
+  return new Set(snapshots.map(row => `${row.Store}|${row.Product}|${toIsoDate(String(row.Date))}`))
+}
+
+// Stock can only go up when a delivery arrives. Inventory rows say what was on order; sales rows
+// rely on the user's inventory snapshots, so without those every rise is reported.
+async function findStockRises(db: Db, userId: string, dataType: DatasetType, batchId: ObjectId, rows: DatasetRow[]) {
+  const onOrder = dataType === "inventory" ? null : await deliveryDays(db, userId)
+  const rises: StockRise[] = []
+
+  const byItem = _.groupBy(rows, row => `${row.Store}|${row.Product}`)
+  for (const [item, itemRows] of Object.entries(byItem)) {
+    // Sales files repeat the day's stock on every line, so compare the last row of each day
+    const days = _.sortBy(
+      Object.values(_.groupBy(itemRows, row => toIsoDate(String(row.Date)))).map(dayRows => ({
+        date: toIsoDate(String(dayRows[0].Date)),
+        first: dayRows[0],
+        last: dayRows[dayRows.length - 1]
+      })),
+      "date"
+    )
+
+    for (let i = 1; i < days.length; i++) {
+      const previous = days[i - 1].last
+      const current = days[i].first
+      const rise = Number(current.Stock_Level) - Number(previous.Stock_Level)
+      if (rise <= 0) continue
+
+      const delivered = onOrder
+        ? datesInRange(days[i - 1].date, days[i].date).some(date => onOrder.has(`${item}|${date}`))
+        : Number(previous.On_Order_Units) >= rise
+      if (delivered) continue
+
+      rises.push({
+        row: String(current.batchId) === String(batchId) ? Number(current.rowNumber) + 1 : null,
+        date: days[i].date,
+        store: String(current.Store),
+        product: String(current.Product),
+        previous: Number(previous.Stock_Level),
+        current: Number(current.Stock_Level)
+      })
+    }
+  }
+
+  return {
+    count: rises.length,
+    examples: _.orderBy(rises, rise => rise.current - rise.previous, "desc").slice(0, MAX_REPORTED_STOCK_RISES)
+  }
+}
+
+// ISO dates from `from` up to but not including `to`, when a delivery could have been on order
+function datesInRange(from: string, to: string) {
+  const dates: string[] = []
+  for (let day = DateTime.fromISO(from); day.toISODate()! < to; day = day.plus({ days: 1 })) {
+    dates.push(day.toISODate() as string)
+  }
+  return dates
+}
+
+// Profile of the rows an upload added or updated, run once the import completes
+export async function profileBatch(
+  db: Db,
+  userId: string,
+  dataType: DatasetType,
+  batchId: ObjectId,
+  nullCounts: Partial<Record<DatasetField, number>>
+): Promise<DataProfile> {
+  const { fields, dateField, numericFields } = DATASETS[dataType]
+
+  const rows = await db.collection(datasetCollection(dataType))
+    .find(
+      { userId, $or: [{ batchId }, { lastBatchId: batchId }] },
+      { projection: { ...Object.fromEntries(fields.map(field => [field, 1])), batchId: 1, rowNumber: 1 } }
+    )
+    .toArray()
+
+  const numeric = Object.fromEntries(
+    numericFields
+      .map(field => [field, summarise(rows.map(row => Number(row[field])).filter(Number.isFinite))] as const)
+      .filter(([, summary]) => summary !== null)
+  )
+
+  return {
+    rowCount: rows.length,
+    nullCounts,
+    distinctCounts: Object.fromEntries(
+      DISTINCT_FIELDS
+        .filter(field => (fields as string[]).includes(field))
+        .map(field => [field, new Set(rows.map(row => row[field])).size])
+    ),
+    dateCoverage: dateField ? dateCoverage(rows.map(row => toIsoDate(String(row[dateField])))) : null,
+    numeric,
+    stockRises: fields.includes("Stock_Level")
+      ? await findStockRises(db, userId, dataType, batchId, rows)
+      : null,
+    generatedAt: new Date()
+  }
+}
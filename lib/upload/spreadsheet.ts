@@ -0,0 +1,48 @@
+import * as XLSX from "xlsx"
+import { DateTime } from "luxon"
+
+export const SPREADSHEET_EXTENSIONS = [".xlsx", ".xls"]
+
+export function isSpreadsheetFile(fileName: string) {
+  const name = fileName.toLowerCase()
+  return SPREADSHEET_EXTENSIONS.some(ext => name.endsWith(ext))
+}
+
+export function readWorkbook(buffer: Buffer) {
+  // Dates stay as Excel serials, with their number formats kept so date cells can be told apart. cellDates would
+  // build local-time Date objects that land a day early in timezones such as Africa/Gaborone
+  return XLSX.read(buffer, { type: "buffer", cellNF: true })
+}
+
+// BusinessData dates are dd/MM/yyyy strings, same as the CSV exports. parse_date_code splits the serial into
+// calendar parts without going through a timezone
+function formatDateSerial(serial: number, date1904: boolean) {
+  const { y, m, d } = XLSX.SSF.parse_date_code(serial, { date1904 })
+  return DateTime.fromObject({ year: y, month: m, day: d }).toFormat("dd/MM/yyyy")
+}
+
+// Convert one worksheet into the same row shape Papa.parse produces for CSVs
+export function sheetToRows(workbook: XLSX.WorkBook, sheetName: string) {
+  const sheet = workbook.Sheets[sheetName]
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found in workbook`)
+  }
+
+  // Numeric cells with a date format are dates; rewrite them as text before reading rows
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904)
+  Object.entries(sheet).forEach(([address, cell]: [string, XLSX.CellObject]) => {
+    if (address.startsWith("!") || cell.t !== "n" || typeof cell.z !== "string" || !XLSX.SSF.is_date(cell.z)) return
+    const date = formatDateSerial(cell.v as number, date1904)
+    sheet[address] = { t: "s", v: date, w: date }
+  })
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, {
+    raw: true,
+    defval: null,
+    blankrows: false
+  })
+
+  return rows.map(row =>
+    Object.fromEntries(Object.entries(row).map(([key, value]) => [key.trim(), value]))
+  )
+}
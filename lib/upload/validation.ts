@@ -0,0 +1,136 @@
+import { z } from "zod"
+import { DateTime } from "luxon"
+import type { BusinessData, CustomerRecord, InventorySnapshot } from "@/lib/ml/data-processor"
+
+// Revenue may differ from Units_Sold x Price_per_Unit_BWP by rounding only
+const REVENUE_RELATIVE_TOLERANCE = 0.01
+const REVENUE_ABSOLUTE_TOLERANCE = 0.05
+
+export interface ValidRow<T = BusinessData> {
+  row: number
+  data: T
+}
+
+export interface RejectedRow {
+  row: number
+  errors: string[]
+  data: Record<string, unknown>
+}
+
+// Papa's dynamicTyping turns numeric-looking text (e.g. a store called "101") into numbers
+const text = z
+  .union([z.string(), z.number()], {
+    errorMap: (_issue, ctx) => ({ message: ctx.data == null ? "is required" : "must be text" })
+  })
+  .transform(value => String(value).trim())
+  .pipe(z.string().min(1, "must not be empty"))
+
+const quantity = z
+  .number({ invalid_type_error: "must be a number", required_error: "is required" })
+  .finite("must be a number")
+  .nonnegative("must not be negative")
+
+const date = z
+  .string({ invalid_type_error: "must be a dd/MM/yyyy date", required_error: "is required" })
+  .trim()
+  .refine(value => DateTime.fromFormat(value, "dd/MM/yyyy").isValid, "must be a dd/MM/yyyy date")
+
+export const businessDataSchema = z
+  .object({
+    Date: date,
+    Store: text,
+    Product: text,
+    Category: text,
+    Units_Sold: quantity,
+    Price_per_Unit_BWP: quantity,
+    Revenue_BWP: quantity,
+    Competition_Price_BWP: quantity,
+    Promotion_Active: z.union([z.literal(0), z.literal(1)], {
+      errorMap: () => ({ message: "must be 0 or 1" })
+    }),
+    Customer_Retention_Score: quantity,
+    Stock_Level: quantity,
+    Supplier: text,
+    Lead_Time_Days: quantity,
+    Customer_Demographic: text,
+    Payment_Method: text
+  })
+  .superRefine((row, ctx) => {
+    const expected = row.Units_Sold * row.Price_per_Unit_BWP
+    const tolerance = Math.max(REVENUE_ABSOLUTE_TOLERANCE, expected * REVENUE_RELATIVE_TOLERANCE)
+
+    if (Math.abs(row.Revenue_BWP - expected) > tolerance) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["Revenue_BWP"],
+        message: `should equal Units_Sold x Price_per_Unit_BWP (${expected.toFixed(2)})`
+      })
+    }
+  })
+
+export const inventorySnapshotSchema: z.ZodType<InventorySnapshot, z.ZodTypeDef, unknown> = z.object({
+  Date: date,
+  Store: text,
+  Product: text,
+  Stock_Level: quantity,
+  On_Order_Units: quantity,
+  Unit_Cost_BWP: quantity,
+  Supplier: text,
+  Lead_Time_Days: quantity
+})
+
+export const customerRecordSchema: z.ZodType<CustomerRecord, z.ZodTypeDef, unknown> = z
+  .object({
+    Customer_ID: text,
+    Customer_Demographic: text,
+    Store: text,
+    Join_Date: date,
+    Last_Purchase_Date: date,
+    Total_Transactions: quantity.int("must be a whole number"),
+    Total_Spend_BWP: quantity,
+    Customer_Retention_Score: quantity
+  })
+  .superRefine((row, ctx) => {
+    const joined = DateTime.fromFormat(row.Join_Date, "dd/MM/yyyy")
+    const lastPurchase = DateTime.fromFormat(row.Last_Purchase_Date, "dd/MM/yyyy")
+
+    if (lastPurchase < joined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["Last_Purchase_Date"],
+        message: "must not be before Join_Date"
+      })
+    }
+  })
+
+// firstRow is the spreadsheet line of rows[0]; 2 for a whole file with a header row
+export function validateRows<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  rows: Record<string, unknown>[],
+  firstRow = 2
+) {
+  const valid: ValidRow<T>[] = []
+  const rejected: RejectedRow[] = []
+
+  rows.forEach((row, index) => {
+    const result = schema.safeParse(row)
+
+    if (result.success) {
+      valid.push({ row: firstRow + index, data: result.data })
+    } else {
+      rejected.push({
+        row: firstRow + index,
+        errors: result.error.issues.map(issue =>
+          issue.path.length > 0 ? `${issue.path.join(".")} ${issue.message}` : issue.message
+        ),
+        data: row
+      })
+    }
+  })
+
+  return { valid, rejected }
+}
+
+export function validateBusinessData(rows: Record<string, unknown>[], firstRow = 2) {
+  return validateRows<BusinessData>(businessDataSchema, rows, firstRow)
+}